@@ -262,6 +262,11 @@ const options = {
               type: 'string',
               enum: ['active', 'inactive', 'error'],
               description: 'Source status'
+            },
+            resolver: {
+              type: 'string',
+              enum: ['youtube', 'dash', 'direct', 'page'],
+              description: 'Resolver that turns the URL into a media URL FFmpeg can open'
             }
           }
         },
@@ -0,0 +1,108 @@
+const encodingProfileService = require('../services/encodingProfileService');
+const logger = require('../utils/logger');
+
+class EncodingProfileController {
+  async getProfiles(req, res) {
+    try {
+      const profiles = await encodingProfileService.getProfiles();
+
+      res.json({
+        success: true,
+        data: profiles,
+        count: profiles.length
+      });
+    } catch (error) {
+      logger.error('Get encoding profiles error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch encoding profiles'
+      });
+    }
+  }
+
+  async getProfileById(req, res) {
+    try {
+      const { id } = req.params;
+      const profile = await encodingProfileService.getProfileById(id);
+
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Encoding profile not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      logger.error('Get encoding profile by ID error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch encoding profile'
+      });
+    }
+  }
+
+  async createProfile(req, res) {
+    try {
+      const profile = await encodingProfileService.createProfile(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: profile,
+        message: 'Encoding profile created successfully'
+      });
+    } catch (error) {
+      logger.error('Create encoding profile error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to create encoding profile',
+        details: error.message
+      });
+    }
+  }
+
+  async updateProfile(req, res) {
+    try {
+      const { id } = req.params;
+      const profile = await encodingProfileService.updateProfile(id, req.body);
+
+      res.json({
+        success: true,
+        data: profile,
+        message: 'Encoding profile updated successfully'
+      });
+    } catch (error) {
+      logger.error('Update encoding profile error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to update encoding profile',
+        details: error.message
+      });
+    }
+  }
+
+  async deleteProfile(req, res) {
+    try {
+      const { id } = req.params;
+      const result = await encodingProfileService.deleteProfile(id);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Encoding profile deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete encoding profile error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to delete encoding profile',
+        details: error.message
+      });
+    }
+  }
+}
+
+module.exports = new EncodingProfileController();
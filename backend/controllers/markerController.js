@@ -0,0 +1,183 @@
+const markerService = require('../services/markerService');
+const recordingService = require('../services/recordingService');
+const logger = require('../utils/logger');
+
+class MarkerController {
+  async getMarkers(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Recording not found'
+        });
+      }
+
+      const markers = await markerService.getMarkers(id);
+
+      res.json({
+        success: true,
+        data: markers,
+        count: markers.length
+      });
+    } catch (error) {
+      logger.error('Get markers error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch markers'
+      });
+    }
+  }
+
+  async createMarker(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Recording not found'
+        });
+      }
+
+      const marker = await markerService.createMarker(recording, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: marker,
+        message: 'Marker added successfully'
+      });
+    } catch (error) {
+      logger.error('Create marker error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to add marker',
+        details: error.message
+      });
+    }
+  }
+
+  async deleteMarker(req, res) {
+    try {
+      const { id, markerId } = req.params;
+
+      const marker = await markerService.deleteMarker(id, markerId);
+      if (!marker) {
+        return res.status(404).json({
+          success: false,
+          error: 'Marker not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: marker,
+        message: 'Marker deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete marker error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete marker',
+        details: error.message
+      });
+    }
+  }
+
+  // Highlight detection state and its candidates, best first
+  async getAnalysis(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Recording not found'
+        });
+      }
+
+      const { analysis = null } = recordingService.parseMetadata(recording.metadata);
+
+      res.json({
+        success: true,
+        data: analysis
+      });
+    } catch (error) {
+      logger.error('Get analysis error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch highlight detection results'
+      });
+    }
+  }
+
+  async startAnalysis(req, res) {
+    try {
+      const { id } = req.params;
+
+      const result = await recordingService.startAnalysis(id);
+
+      res.status(202).json({
+        success: true,
+        data: result,
+        message: 'Highlight detection started'
+      });
+    } catch (error) {
+      logger.error('Start analysis error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to start highlight detection',
+        details: error.message
+      });
+    }
+  }
+
+  async acceptCandidate(req, res) {
+    return reviewCandidate(req, res, true);
+  }
+
+  async rejectCandidate(req, res) {
+    return reviewCandidate(req, res, false);
+  }
+}
+
+const reviewCandidate = async (req, res, accept) => {
+  try {
+    const { id, candidateId } = req.params;
+
+    const recording = await recordingService.getRecordingById(id);
+    if (!recording) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recording not found'
+      });
+    }
+
+    const result = await markerService.reviewCandidate(recording, candidateId, { accept, ...(accept ? req.body : {}) });
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Candidate not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: accept ? 'Candidate added as a marker' : 'Candidate rejected'
+    });
+  } catch (error) {
+    logger.error('Review candidate error:', error.message);
+    res.status(400).json({
+      success: false,
+      error: 'Failed to review candidate',
+      details: error.message
+    });
+  }
+};
+
+module.exports = new MarkerController();
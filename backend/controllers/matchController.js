@@ -1,5 +1,6 @@
 const database = require('../config/database');
 const footballApiService = require('../services/footballApiService');
+const recordingService = require('../services/recordingService');
 const logger = require('../utils/logger');
 const { v4: uuidv4 } = require('uuid');
 
@@ -141,9 +142,11 @@ class MatchController {
         });
       }
 
+      const highlights = await recordingService.getHighlights({ matchId: id });
+
       res.json({
         success: true,
-        data: result.rows[0]
+        data: { ...result.rows[0], highlights }
       });
     } catch (error) {
       logger.error('Get match by ID error:', error.message);
@@ -160,8 +163,8 @@ class MatchController {
       const id = uuidv4();
 
       const result = await database.query(`
-        INSERT INTO matches (id, home_team, away_team, competition, match_date, stream_url, auto_record)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        INSERT INTO matches (id, home_team, away_team, competition, match_date, stream_url, auto_record, metadata)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
         RETURNING *
       `, [
         id,
@@ -170,7 +173,8 @@ class MatchController {
         matchData.competition,
         matchData.match_date,
         matchData.stream_url,
-        matchData.auto_record || false
+        matchData.auto_record || false,
+        JSON.stringify({ backup_urls: matchData.backup_urls || [] })
       ]);
 
       logger.info(`Match created: ${id} - ${matchData.home_team} vs ${matchData.away_team}`);
@@ -193,7 +197,16 @@ class MatchController {
   async updateMatch(req, res) {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const { backup_urls, ...updates } = req.body;
+
+      // Backup URLs live in metadata rather than their own column
+      if (backup_urls) {
+        const existing = await database.query('SELECT metadata FROM matches WHERE id = $1', [id]);
+        if (existing.rows.length > 0) {
+          const metadata = recordingService.parseMetadata(existing.rows[0].metadata);
+          updates.metadata = JSON.stringify({ ...metadata, backup_urls });
+        }
+      }
 
       const setClause = Object.keys(updates)
         .map((key, index) => `${key} = $${index + 2}`)
@@ -1,5 +1,6 @@
 const recordingService = require('../services/recordingService');
 const s3Service = require('../services/s3Service');
+const probeService = require('../services/probeService');
 const logger = require('../utils/logger');
 
 class RecordingController {
@@ -92,6 +93,68 @@ class RecordingController {
     }
   }
 
+  async getQueue(req, res) {
+    try {
+      const queue = await recordingService.getQueue();
+      
+      res.json({
+        success: true,
+        data: queue,
+        count: queue.length
+      });
+    } catch (error) {
+      logger.error('Get recording queue error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get recording queue',
+        details: error.message
+      });
+    }
+  }
+
+  async getProgress(req, res) {
+    try {
+      const { id } = req.params;
+      const progress = recordingService.getProgress(id);
+
+      if (!progress) {
+        return res.status(404).json({
+          success: false,
+          error: 'Recording not found or not active'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: progress
+      });
+    } catch (error) {
+      logger.error('Get recording progress error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch recording progress'
+      });
+    }
+  }
+
+  async probeStream(req, res) {
+    try {
+      const result = await probeService.probeStream(req.body);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Probe stream error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Stream probe failed',
+        details: error.message
+      });
+    }
+  }
+
   async startRecording(req, res) {
     try {
       const { id } = req.params;
@@ -113,6 +176,20 @@ class RecordingController {
         });
       }
 
+      if (recording.status === 'paused') {
+        return res.status(400).json({
+          success: false,
+          error: 'Recording is paused, resume it instead'
+        });
+      }
+
+      if (recording.status === 'queued') {
+        return res.status(400).json({
+          success: false,
+          error: 'Recording is already queued'
+        });
+      }
+
       if (recording.status === 'completed') {
         return res.status(400).json({
           success: false,
@@ -120,13 +197,28 @@ class RecordingController {
         });
       }
 
+      if (recording.status === 'processing') {
+        return res.status(400).json({
+          success: false,
+          error: 'Recording is being post-processed'
+        });
+      }
+
+      // Clips, highlights and match-only videos keep the stream URL of their recording
+      if (recordingService.getDerivedSourceId(recording)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Clips, highlights and match-only videos are not captured; create them again from their recording'
+        });
+      }
+
       // Start the recording
       const result = await recordingService.startRecording(recording);
       
       res.json({
         success: true,
         data: result,
-        message: 'Recording started successfully'
+        message: result.queued ? 'Recording queued until a slot is free' : 'Recording started successfully'
       });
     } catch (error) {
       logger.error('Start recording error:', error.message);
@@ -159,6 +251,140 @@ class RecordingController {
     }
   }
 
+  async pauseRecording(req, res) {
+    try {
+      const { id } = req.params;
+      
+      const result = await recordingService.pauseRecording(id);
+      
+      res.json({
+        success: true,
+        data: result,
+        message: 'Recording paused successfully'
+      });
+    } catch (error) {
+      logger.error('Pause recording error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to pause recording',
+        details: error.message
+      });
+    }
+  }
+
+  async resumeRecording(req, res) {
+    try {
+      const { id } = req.params;
+      
+      const result = await recordingService.resumeRecording(id);
+      
+      res.json({
+        success: true,
+        data: result,
+        message: 'Recording resumed successfully'
+      });
+    } catch (error) {
+      logger.error('Resume recording error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to resume recording',
+        details: error.message
+      });
+    }
+  }
+
+  async retryRecording(req, res) {
+    try {
+      const { id } = req.params;
+
+      const result = await recordingService.retryRecording(id);
+
+      res.json({
+        success: true,
+        data: result,
+        message: result.queued ? 'Retry queued' : 'Recording restarted'
+      });
+    } catch (error) {
+      logger.error('Retry recording error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to retry recording',
+        details: error.message
+      });
+    }
+  }
+
+  async retryPipelineStage(req, res) {
+    try {
+      const { id, stage } = req.params;
+
+      const result = await recordingService.retryPipelineStage(id, stage);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Post-processing stage ${stage} restarted`
+      });
+    } catch (error) {
+      logger.error('Retry pipeline stage error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to retry post-processing stage',
+        details: error.message
+      });
+    }
+  }
+
+  async updateBoundaries(req, res) {
+    try {
+      const { id } = req.params;
+
+      const result = await recordingService.updateBoundaries(id, req.body);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Match boundaries updated'
+      });
+    } catch (error) {
+      logger.error('Update boundaries error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to update match boundaries',
+        details: error.message
+      });
+    }
+  }
+
+  async getAttempts(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Recording not found'
+        });
+      }
+
+      const attempts = await recordingService.getAttempts(id);
+
+      res.json({
+        success: true,
+        data: attempts,
+        count: attempts.length,
+        retryPending: recordingService.hasPendingRetry(id)
+      });
+    } catch (error) {
+      logger.error('Get attempts error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch recording attempts'
+      });
+    }
+  }
+
   async deleteRecording(req, res) {
     try {
       const { id } = req.params;
@@ -0,0 +1,63 @@
+const settingsService = require('../services/settingsService');
+const diskSpaceService = require('../services/diskSpaceService');
+const logger = require('../utils/logger');
+
+class SettingsController {
+  async getSettings(req, res) {
+    try {
+      const { category } = req.query;
+      const settings = await settingsService.getSettings(category);
+
+      res.json({
+        success: true,
+        data: settings,
+        count: settings.length
+      });
+    } catch (error) {
+      logger.error('Get settings error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch settings'
+      });
+    }
+  }
+
+  async updateSettings(req, res) {
+    try {
+      const settings = await settingsService.updateSettings(req.body);
+
+      res.json({
+        success: true,
+        data: settings,
+        message: 'Settings updated successfully'
+      });
+    } catch (error) {
+      logger.error('Update settings error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to update settings',
+        details: error.message
+      });
+    }
+  }
+
+  async getDiskSpace(req, res) {
+    try {
+      const space = await diskSpaceService.getDiskSpace();
+
+      res.json({
+        success: true,
+        data: space
+      });
+    } catch (error) {
+      logger.error('Get disk space error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to read disk space',
+        details: error.message
+      });
+    }
+  }
+}
+
+module.exports = new SettingsController();
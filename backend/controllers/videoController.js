@@ -1,7 +1,19 @@
 const recordingService = require('../services/recordingService');
 const s3Service = require('../services/s3Service');
+const abrService = require('../services/abrService');
+const markerService = require('../services/markerService');
+const thumbnailService = require('../services/thumbnailService');
 const logger = require('../utils/logger');
 
+// Adaptive renditions are only served once the whole ladder has been uploaded
+const getCompletedLadder = (recording) => {
+  const { abr } = recordingService.parseMetadata(recording.metadata);
+  return abr && abr.status === 'completed' ? abr : null;
+};
+
+// Chapters of the video: the match phases of a recording, or the halves of a match-only video
+const getChapters = (recording) => recordingService.parseMetadata(recording.metadata).chapters || [];
+
 class VideoController {
   async getVideos(req, res) {
     try {
@@ -15,6 +27,15 @@ class VideoController {
       // Filter out videos without S3 URLs (not uploaded yet)
       const availableVideos = videos.filter(video => video.s3_url);
 
+      // Poster frames are signed for the grid; videos from before posters have none
+      const withPosters = availableVideos.filter(video => recordingService.parseMetadata(video.metadata).thumbnail);
+      const posterUrls = await s3Service.signGetUrls(
+        withPosters.map(video => recordingService.parseMetadata(video.metadata).thumbnail.s3_key)
+      );
+      withPosters.forEach((video, index) => {
+        video.thumbnail_url = posterUrls[index];
+      });
+
       res.json({
         success: true,
         data: availableVideos,
@@ -49,6 +70,55 @@ class VideoController {
         });
       }
 
+      const baseUrl = `${req.protocol}://${req.get('host')}/api/videos/${id}`;
+      const ladder = getCompletedLadder(recording);
+      const availableQualities = ['original', ...(ladder ? ['auto', ...ladder.renditions.map(r => r.name)] : [])];
+
+      // 'auto' falls back to the original until the ladder exists; a named rendition has to exist
+      if (quality && quality !== 'original' && (ladder || quality !== 'auto')) {
+        const rendition = ladder && ladder.renditions.find(r => r.name === quality);
+        if (quality !== 'auto' && !rendition) {
+          return res.status(400).json({
+            success: false,
+            error: 'Requested quality is not available',
+            details: `Available qualities: ${availableQualities.join(', ')}`
+          });
+        }
+
+        return res.json({
+          success: true,
+          data: {
+            streamUrl: rendition ? `${baseUrl}/abr/${rendition.name}/index.m3u8` : `${baseUrl}/abr/master.m3u8`,
+            title: recording.title,
+            duration: recording.duration,
+            chapters: getChapters(recording),
+            format: 'hls',
+            quality,
+            availableQualities,
+            fileSize: recording.file_size,
+            expiresAt: new Date(Date.now() + 7200 * 1000)
+          }
+        });
+      }
+
+      // HLS recordings are served through the playlist endpoint, which signs every segment
+      if (recording.format === 'hls') {
+        return res.json({
+          success: true,
+          data: {
+            streamUrl: `${baseUrl}/playlist.m3u8`,
+            title: recording.title,
+            duration: recording.duration,
+            chapters: getChapters(recording),
+            format: recording.format,
+            quality: recording.quality,
+            availableQualities,
+            fileSize: recording.file_size,
+            expiresAt: new Date(Date.now() + 7200 * 1000)
+          }
+        });
+      }
+
       // Generate streaming URL with longer expiration for video playback
       const urlResult = await s3Service.generatePresignedUrl(
         recording.s3_key,
@@ -66,8 +136,10 @@ class VideoController {
           streamUrl: urlResult.url,
           title: recording.title,
           duration: recording.duration,
+          chapters: getChapters(recording),
           format: recording.format,
           quality: recording.quality,
+          availableQualities,
           fileSize: recording.file_size,
           expiresAt: urlResult.expiresAt
         }
@@ -81,6 +153,113 @@ class VideoController {
     }
   }
 
+  async getPlaylist(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      if (recording.format !== 'hls' || !recording.s3_key) {
+        return res.status(400).json({
+          success: false,
+          error: 'HLS playlist not available for this video'
+        });
+      }
+
+      const playlistResult = await s3Service.generatePresignedPlaylist(recording.s3_key, 7200);
+      if (!playlistResult.success) {
+        throw new Error(playlistResult.error);
+      }
+
+      res.set('Content-Type', 'application/vnd.apple.mpegurl');
+      res.set('Cache-Control', 'no-cache');
+      res.send(playlistResult.content);
+    } catch (error) {
+      logger.error('Get playlist error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate playlist'
+      });
+    }
+  }
+
+  async getAbrMaster(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const ladder = getCompletedLadder(recording);
+      if (!ladder) {
+        return res.status(400).json({
+          success: false,
+          error: 'Adaptive playback not available for this video'
+        });
+      }
+
+      // Rendition URIs are relative, so players resolve them against this endpoint
+      res.set('Content-Type', 'application/vnd.apple.mpegurl');
+      res.set('Cache-Control', 'no-cache');
+      res.send(abrService.buildMasterPlaylist(ladder.renditions));
+    } catch (error) {
+      logger.error('Get ABR master playlist error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate playlist'
+      });
+    }
+  }
+
+  async getAbrRendition(req, res) {
+    try {
+      const { id, rendition: name } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const ladder = getCompletedLadder(recording);
+      const rendition = ladder && ladder.renditions.find(r => r.name === name);
+      if (!rendition) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rendition not found'
+        });
+      }
+
+      const playlistResult = await s3Service.generatePresignedPlaylist(rendition.key, 7200);
+      if (!playlistResult.success) {
+        throw new Error(playlistResult.error);
+      }
+
+      res.set('Content-Type', 'application/vnd.apple.mpegurl');
+      res.set('Cache-Control', 'no-cache');
+      res.send(playlistResult.content);
+    } catch (error) {
+      logger.error('Get ABR rendition playlist error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate playlist'
+      });
+    }
+  }
+
   async downloadVideo(req, res) {
     try {
       const { id } = req.params;
@@ -158,6 +337,11 @@ class VideoController {
         }
       }
 
+      const markers = await markerService.getMarkers(id);
+      const {
+        output_tracks: tracks = [], audio_tracks: audioTracks = [], video_variant: videoVariant = null
+      } = recordingService.parseMetadata(recording.metadata);
+
       res.json({
         success: true,
         data: {
@@ -173,6 +357,13 @@ class VideoController {
           startedAt: recording.started_at,
           completedAt: recording.completed_at,
           s3Info,
+          markers,
+          tracks,
+          trackSelection: {
+            audioOnly: recordingService.isAudioOnly(recording.format),
+            audioTracks,
+            videoVariant
+          },
           isAvailable: !!recording.s3_url
         }
       });
@@ -185,6 +376,230 @@ class VideoController {
     }
   }
 
+  async getSubtitles(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      // Tracks are served through this API rather than presigned, so players can load
+      // them without CORS rules on the bucket
+      const baseUrl = `${req.protocol}://${req.get('host')}/api/videos/${id}/subtitles`;
+      const { subtitles = [] } = recordingService.parseMetadata(recording.metadata);
+
+      res.json({
+        success: true,
+        data: subtitles.map(track => ({
+          id: track.id,
+          language: track.language,
+          kind: track.kind,
+          label: track.label,
+          cues: track.cues,
+          url: `${baseUrl}/${track.id}.vtt`
+        }))
+      });
+    } catch (error) {
+      logger.error('Get subtitles error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch subtitles'
+      });
+    }
+  }
+
+  async getSubtitleTrack(req, res) {
+    try {
+      const { id, trackId } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const { subtitles = [] } = recordingService.parseMetadata(recording.metadata);
+      const track = subtitles.find(subtitle => subtitle.id === trackId);
+      if (!track) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subtitle track not found'
+        });
+      }
+
+      const result = await s3Service.getObjectContent(track.s3_key);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      res.set('Content-Type', 'text/vtt; charset=utf-8');
+      res.send(result.content);
+    } catch (error) {
+      logger.error('Get subtitle track error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch subtitle track'
+      });
+    }
+  }
+
+  async createClip(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const clip = await recordingService.createClip(recording, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: clip,
+        message: 'Clip is being cut'
+      });
+    } catch (error) {
+      logger.error('Create clip error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to create clip',
+        details: error.message
+      });
+    }
+  }
+
+  async getClips(req, res) {
+    try {
+      const { id } = req.params;
+
+      const clips = await recordingService.getClips(id);
+
+      res.json({
+        success: true,
+        data: clips,
+        count: clips.length
+      });
+    } catch (error) {
+      logger.error('Get clips error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch clips'
+      });
+    }
+  }
+
+  async createHighlights(req, res) {
+    try {
+      const { id } = req.params;
+      const { marker_ids: markerIds, marker_types: markerTypes, ...options } = req.body;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const markers = (await markerService.getMarkers(id)).filter(marker =>
+        (!markerIds || markerIds.includes(marker.id)) && (!markerTypes || markerTypes.includes(marker.type)));
+      const highlights = await recordingService.createHighlights(recording, { ...options, markers });
+
+      res.status(201).json({
+        success: true,
+        data: highlights,
+        message: 'Highlights are being rendered'
+      });
+    } catch (error) {
+      logger.error('Create highlights error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to create highlights',
+        details: error.message
+      });
+    }
+  }
+
+  async getHighlights(req, res) {
+    try {
+      const { id } = req.params;
+
+      const highlights = await recordingService.getHighlights({ sourceId: id });
+
+      res.json({
+        success: true,
+        data: highlights,
+        count: highlights.length
+      });
+    } catch (error) {
+      logger.error('Get highlights error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch highlights'
+      });
+    }
+  }
+
+  async createMatchOnly(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const matchOnly = await recordingService.createMatchOnly(recording, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: matchOnly,
+        message: 'Match-only video is being cut'
+      });
+    } catch (error) {
+      logger.error('Create match-only video error:', error.message);
+      res.status(400).json({
+        success: false,
+        error: 'Failed to create match-only video',
+        details: error.message
+      });
+    }
+  }
+
+  async getMatchOnly(req, res) {
+    try {
+      const { id } = req.params;
+
+      const videos = await recordingService.getMatchOnly(id);
+
+      res.json({
+        success: true,
+        data: videos,
+        count: videos.length
+      });
+    } catch (error) {
+      logger.error('Get match-only videos error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch match-only videos'
+      });
+    }
+  }
+
   async generateTempUrl(req, res) {
     try {
       const { id } = req.params;
@@ -233,10 +648,11 @@ class VideoController {
     }
   }
 
+  // Poster frame, or the frame at ?timestamp= (seconds); frames are generated once and cached in S3
   async getThumbnail(req, res) {
     try {
       const { id } = req.params;
-      const { timestamp = 10 } = req.query; // Default to 10 seconds
+      const { timestamp } = req.query;
 
       const recording = await recordingService.getRecordingById(id);
       if (!recording) {
@@ -246,15 +662,46 @@ class VideoController {
         });
       }
 
-      // For now, return a placeholder response
-      // In a full implementation, you would generate thumbnails using FFmpeg
+      if (!recording.s3_key || recording.status !== 'completed') {
+        return res.status(400).json({
+          success: false,
+          error: 'Video file not available for thumbnails'
+        });
+      }
+      if (recordingService.isAudioOnly(recording.format)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Audio-only recordings have no thumbnails'
+        });
+      }
+
+      const { thumbnail: poster } = recordingService.parseMetadata(recording.metadata);
+      const at = timestamp !== undefined ? parseFloat(timestamp) : null;
+      if (at !== null && !(at >= 0)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid timestamp',
+          details: 'timestamp must be a number of seconds'
+        });
+      }
+
+      const frame = at === null && poster
+        ? { ...poster, cached: true }
+        : await thumbnailService.getFrame(recording, at === null ? thumbnailService.getPosterOffset(recording.duration) : at);
+
+      const urlResult = await s3Service.generatePresignedUrl(frame.s3_key, 3600);
+      if (!urlResult.success) {
+        throw new Error(urlResult.error);
+      }
+
       res.json({
         success: true,
-        message: 'Thumbnail generation not implemented yet',
         data: {
-          placeholder: true,
           videoId: id,
-          timestamp: parseInt(timestamp)
+          timestamp: frame.at,
+          url: urlResult.url,
+          cached: frame.cached,
+          expiresAt: urlResult.expiresAt
         }
       });
     } catch (error) {
@@ -266,6 +713,46 @@ class VideoController {
     }
   }
 
+  // WebVTT thumbnails track for scrubbing previews; the sprite it points at is signed on the way out
+  async getThumbnailTrack(req, res) {
+    try {
+      const { id } = req.params;
+
+      const recording = await recordingService.getRecordingById(id);
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+      }
+
+      const { sprite } = recordingService.parseMetadata(recording.metadata);
+      if (!sprite) {
+        return res.status(404).json({
+          success: false,
+          error: 'No thumbnails track for this video'
+        });
+      }
+
+      const [track, image] = await Promise.all([
+        s3Service.getObjectContent(sprite.track_key),
+        s3Service.generatePresignedUrl(sprite.s3_key, 7200)
+      ]);
+      if (!track.success || !image.success) {
+        throw new Error(track.error || image.error);
+      }
+
+      res.set('Content-Type', 'text/vtt; charset=utf-8');
+      res.send(track.content.replace(/^sprite\.jpg#/gm, `${image.url}#`));
+    } catch (error) {
+      logger.error('Get thumbnail track error:', error.message);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch thumbnails track'
+      });
+    }
+  }
+
   async deleteVideo(req, res) {
     try {
       const { id } = req.params;
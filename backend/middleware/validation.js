@@ -1,13 +1,44 @@
 const Joi = require('joi');
 const logger = require('../utils/logger');
 
+// HTTP request profile used when talking to a stream host
+const requestProfileSchema = Joi.object({
+  user_agent: Joi.string().max(500).allow('').optional(),
+  referer: Joi.string().uri().allow('').optional(),
+  cookies: Joi.string().max(4000).allow('').optional(), // Sent as-is in the Cookie header
+  headers: Joi.object().pattern(Joi.string().pattern(/^[A-Za-z0-9-]+$/), Joi.string().max(1000)).default({}),
+  proxy: Joi.string().uri({ scheme: ['http', 'https', 'socks', 'socks4', 'socks4a', 'socks5', 'socks5h'] }).allow('').optional()
+});
+
 // Recording validation schema
 const recordingSchema = Joi.object({
   title: Joi.string().min(1).max(255).required(),
   description: Joi.string().max(1000).optional(),
   stream_url: Joi.string().uri().required(),
-  quality: Joi.string().valid('best', 'good', 'medium').default('best'),
-  format: Joi.string().valid('mp4', 'mkv', 'ts').default('mp4')
+  quality: Joi.string().max(20).default('best'), // 'best' (pass-through) or an encoding profile name
+  format: Joi.string().valid('mp4', 'mkv', 'ts', 'hls', 'm4a', 'opus').default('mp4'), // m4a and opus record audio only
+  backup_urls: Joi.array().items(Joi.string().uri()).max(10).default([]), // Tried in order when the source fails
+  source_id: Joi.string().max(50).optional(), // Stream source the URL came from, for its request profile
+  request_profile: requestProfileSchema.optional(),
+  // Audio tracks to keep, by language tag or by stream index from the probe; empty keeps the default track
+  audio_tracks: Joi.array().items(
+    Joi.alternatives().try(Joi.number().integer().min(0), Joi.string().pattern(/^[A-Za-z]{2,3}(-[A-Za-z0-9]+)?$/))
+  ).max(8).default([]),
+  // HLS variant to capture, from the probe's variants; null keeps the best one
+  video_variant: Joi.object({
+    program_id: Joi.number().integer().min(0).required(),
+    bandwidth: Joi.number().integer().min(0).optional(),
+    resolution: Joi.string().allow(null).optional()
+  }).allow(null).default(null),
+  subtitles: Joi.boolean().default(false) // Keep subtitle renditions and captions as WebVTT sidecars
+});
+
+// Stream probe validation schema
+const probeSchema = Joi.object({
+  stream_url: Joi.string().uri().required(),
+  source_id: Joi.string().max(50).optional(),
+  request_profile: requestProfileSchema.optional(),
+  timeout: Joi.number().integer().min(1).max(60).default(15) // seconds
 });
 
 // Match validation schema
@@ -17,6 +48,7 @@ const matchSchema = Joi.object({
   competition: Joi.string().max(100).optional(),
   match_date: Joi.date().iso().required(),
   stream_url: Joi.string().uri().optional(),
+  backup_urls: Joi.array().items(Joi.string().uri()).max(10).optional(),
   auto_record: Joi.boolean().default(false)
 });
 
@@ -29,20 +61,95 @@ const scheduleSchema = Joi.object({
   cron_expression: Joi.string().optional()
 });
 
+// Encoding profile validation schema
+const encodingProfileSchema = Joi.object({
+  name: Joi.string().min(1).max(20).required(),
+  description: Joi.string().max(255).allow('').optional(),
+  video_codec: Joi.string().valid('libx264', 'libx265', 'copy').default('libx264'),
+  resolution: Joi.string().pattern(/^\d+x\d+$/).allow(null, '').optional(),
+  video_bitrate: Joi.string().pattern(/^\d+[kKmM]?$/).required(),
+  preset: Joi.string().valid('ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow').default('veryfast'),
+  audio_bitrate: Joi.string().pattern(/^\d+[kK]?$/).default('128k')
+});
+
+// Marker dropped on a recording; offset (seconds into the video) defaults to the live position
+const markerSchema = Joi.object({
+  type: Joi.string().valid('goal', 'chance', 'card', 'var', 'substitution', 'highlight', 'other').required(),
+  note: Joi.string().max(500).allow('').optional(),
+  offset: Joi.number().min(0).optional()
+});
+
+// Accepting a candidate highlight; the marker type and note can be changed on the way
+const candidateSchema = Joi.object({
+  type: Joi.string().valid('goal', 'chance', 'card', 'var', 'substitution', 'highlight', 'other').default('highlight'),
+  note: Joi.string().max(500).allow('').optional()
+});
+
+// Clip cut from a completed recording; offsets in seconds into it. A re-encode cuts on the
+// exact frame, with the given encoding profile or default x264 settings.
+const clipSchema = Joi.object({
+  start: Joi.number().min(0).required(),
+  end: Joi.number().greater(Joi.ref('start')).required(),
+  reencode: Joi.boolean().default(false),
+  quality: Joi.string().max(20).default('best'),
+  title: Joi.string().min(1).max(255).optional()
+});
+
+// Highlights reel from a recording's markers (all of them, or those picked by id or type) or
+// from explicit ranges; padding and title card duration in seconds
+const highlightsSchema = Joi.object({
+  marker_ids: Joi.array().items(Joi.string().uuid()).max(100).optional(),
+  marker_types: Joi.array().items(
+    Joi.string().valid('goal', 'chance', 'card', 'var', 'substitution', 'highlight', 'other')
+  ).optional(),
+  ranges: Joi.array().items(Joi.object({
+    start: Joi.number().min(0).required(),
+    end: Joi.number().greater(Joi.ref('start')).required(),
+    title: Joi.string().max(200).allow('').optional()
+  })).max(100).default([]),
+  padding_before: Joi.number().min(0).max(120).default(5),
+  padding_after: Joi.number().min(0).max(120).default(5),
+  title_cards: Joi.boolean().default(false),
+  title_card_duration: Joi.number().min(1).max(10).default(3),
+  title: Joi.string().min(1).max(255).optional()
+});
+
+// Match boundaries set by hand, in seconds into the recording
+const boundariesSchema = Joi.object({
+  kickoff: Joi.number().min(0).required(),
+  halftime_start: Joi.number().greater(Joi.ref('kickoff')).required(),
+  halftime_end: Joi.number().min(Joi.ref('halftime_start')).required(),
+  full_time: Joi.number().greater(Joi.ref('halftime_end')).required()
+});
+
+const matchOnlySchema = Joi.object({
+  title: Joi.string().min(1).max(255).optional()
+});
+
+// Settings update: a map of setting keys to new values
+const settingsSchema = Joi.object().pattern(
+  Joi.string().max(100),
+  Joi.alternatives().try(Joi.string().allow(''), Joi.number(), Joi.boolean())
+).min(1);
+
 // UUID validation schema
 const uuidSchema = Joi.string().uuid().required();
 
-// Validation middleware factory
+// Validation middleware factory; property may be a nested path such as 'params.id'
 const validate = (schema, property = 'body') => {
+  const keys = property.split('.');
+  const field = keys.pop();
+
   return (req, res, next) => {
-    const { error, value } = schema.validate(req[property], {
+    const target = keys.reduce((object, key) => (object ? object[key] : undefined), req) || {};
+    const { error, value } = schema.validate(target[field], {
       abortEarly: false,
       stripUnknown: true
     });
 
     if (error) {
       const errorDetails = error.details.map(detail => ({
-        field: detail.path.join('.'),
+        field: detail.path.join('.') || field,
         message: detail.message
       }));
 
@@ -56,7 +163,7 @@ const validate = (schema, property = 'body') => {
     }
 
     // Replace the request property with the validated value
-    req[property] = value;
+    target[field] = value;
     next();
   };
 };
@@ -65,10 +172,23 @@ const validate = (schema, property = 'body') => {
 const validateRecording = validate(recordingSchema);
 const validateMatch = validate(matchSchema);
 const validateSchedule = validate(scheduleSchema);
+const validateEncodingProfile = validate(encodingProfileSchema);
+const validateRequestProfile = validate(requestProfileSchema);
+const validateProbe = validate(probeSchema);
+const validateSettings = validate(settingsSchema);
+const validateMarker = validate(markerSchema);
+const validateCandidate = validate(candidateSchema);
+const validateClip = validate(clipSchema);
+const validateHighlights = validate(highlightsSchema);
+const validateBoundaries = validate(boundariesSchema);
+const validateMatchOnly = validate(matchOnlySchema);
 
 const validateRecordingId = validate(uuidSchema, 'params.id');
 const validateMatchId = validate(uuidSchema, 'params.id');
 const validateScheduleId = validate(uuidSchema, 'params.id');
+const validateEncodingProfileId = validate(uuidSchema, 'params.id');
+const validateMarkerId = validate(uuidSchema, 'params.markerId');
+const validateCandidateId = validate(uuidSchema, 'params.candidateId');
 
 // Query parameter validation
 const validatePagination = (req, res, next) => {
@@ -192,9 +312,22 @@ module.exports = {
   validateRecording,
   validateMatch,
   validateSchedule,
+  validateEncodingProfile,
+  validateRequestProfile,
+  validateProbe,
+  validateSettings,
+  validateMarker,
+  validateCandidate,
+  validateClip,
+  validateHighlights,
+  validateBoundaries,
+  validateMatchOnly,
   validateRecordingId,
   validateMatchId,
   validateScheduleId,
+  validateEncodingProfileId,
+  validateMarkerId,
+  validateCandidateId,
   validatePagination,
   validateStreamUrl,
   validateDateRange,
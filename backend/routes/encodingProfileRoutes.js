@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const encodingProfileController = require('../controllers/encodingProfileController');
+const { validateEncodingProfile, validateEncodingProfileId } = require('../middleware/validation');
+
+// GET /api/encoding-profiles - Get all encoding profiles
+router.get('/', encodingProfileController.getProfiles);
+
+// GET /api/encoding-profiles/:id - Get specific encoding profile
+router.get('/:id', validateEncodingProfileId, encodingProfileController.getProfileById);
+
+// POST /api/encoding-profiles - Create encoding profile
+router.post('/', validateEncodingProfile, encodingProfileController.createProfile);
+
+// PUT /api/encoding-profiles/:id - Update encoding profile
+router.put('/:id', validateEncodingProfileId, validateEncodingProfile, encodingProfileController.updateProfile);
+
+// DELETE /api/encoding-profiles/:id - Delete encoding profile
+router.delete('/:id', validateEncodingProfileId, encodingProfileController.deleteProfile);
+
+module.exports = router;
@@ -1,7 +1,8 @@
 const express = require('express');
 const router = express.Router();
 const recordingController = require('../controllers/recordingController');
-const { validateRecording, validateRecordingId } = require('../middleware/validation');
+const markerController = require('../controllers/markerController');
+const { validateRecording, validateRecordingId, validateProbe, validateMarker, validateCandidate, validateBoundaries, validateMarkerId, validateCandidateId } = require('../middleware/validation');
 
 // GET /api/recordings - Get all recordings with optional filters
 router.get('/', recordingController.getRecordings);
@@ -9,9 +10,18 @@ router.get('/', recordingController.getRecordings);
 // GET /api/recordings/active - Get currently active recordings
 router.get('/active', recordingController.getActiveRecordings);
 
+// GET /api/recordings/queue - Get recordings waiting for a free slot
+router.get('/queue', recordingController.getQueue);
+
 // GET /api/recordings/:id - Get specific recording by ID
 router.get('/:id', validateRecordingId, recordingController.getRecordingById);
 
+// GET /api/recordings/:id/progress - Get live telemetry for an active recording
+router.get('/:id/progress', validateRecordingId, recordingController.getProgress);
+
+// POST /api/recordings/probe - Inspect a stream URL before creating a recording
+router.post('/probe', validateProbe, recordingController.probeStream);
+
 // POST /api/recordings - Create new recording
 router.post('/', validateRecording, recordingController.createRecording);
 
@@ -21,6 +31,45 @@ router.post('/:id/start', validateRecordingId, recordingController.startRecordin
 // POST /api/recordings/:id/stop - Stop recording
 router.post('/:id/stop', validateRecordingId, recordingController.stopRecording);
 
+// POST /api/recordings/:id/pause - Pause capture, keeping what was recorded so far
+router.post('/:id/pause', validateRecordingId, recordingController.pauseRecording);
+
+// POST /api/recordings/:id/resume - Resume a paused recording into a new part
+router.post('/:id/resume', validateRecordingId, recordingController.resumeRecording);
+
+// POST /api/recordings/:id/retry - Start a failed recording again now
+router.post('/:id/retry', validateRecordingId, recordingController.retryRecording);
+
+// POST /api/recordings/:id/pipeline/:stage/retry - Re-run a failed post-processing stage
+router.post('/:id/pipeline/:stage/retry', validateRecordingId, recordingController.retryPipelineStage);
+
+// GET /api/recordings/:id/attempts - Get capture attempts with their errors and pending retry
+router.get('/:id/attempts', validateRecordingId, recordingController.getAttempts);
+
+// GET /api/recordings/:id/markers - Get markers ordered by position in the video
+router.get('/:id/markers', validateRecordingId, markerController.getMarkers);
+
+// POST /api/recordings/:id/markers - Drop a marker (at the live position unless an offset is given)
+router.post('/:id/markers', validateRecordingId, validateMarker, markerController.createMarker);
+
+// DELETE /api/recordings/:id/markers/:markerId - Delete a marker
+router.delete('/:id/markers/:markerId', validateRecordingId, validateMarkerId, markerController.deleteMarker);
+
+// PUT /api/recordings/:id/boundaries - Set kickoff, halftime and full time by hand
+router.put('/:id/boundaries', validateRecordingId, validateBoundaries, recordingController.updateBoundaries);
+
+// GET /api/recordings/:id/analysis - Get highlight detection status and candidate markers
+router.get('/:id/analysis', validateRecordingId, markerController.getAnalysis);
+
+// POST /api/recordings/:id/analysis - Run highlight detection again on the stored recording
+router.post('/:id/analysis', validateRecordingId, markerController.startAnalysis);
+
+// POST /api/recordings/:id/analysis/candidates/:candidateId/accept - Turn a candidate into a marker
+router.post('/:id/analysis/candidates/:candidateId/accept', validateRecordingId, validateCandidateId, validateCandidate, markerController.acceptCandidate);
+
+// POST /api/recordings/:id/analysis/candidates/:candidateId/reject - Reject a candidate
+router.post('/:id/analysis/candidates/:candidateId/reject', validateRecordingId, validateCandidateId, markerController.rejectCandidate);
+
 // DELETE /api/recordings/:id - Delete recording
 router.delete('/:id', validateRecordingId, recordingController.deleteRecording);
 
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const settingsController = require('../controllers/settingsController');
+const { validateSettings } = require('../middleware/validation');
+
+// GET /api/settings - Get all settings, optionally filtered by category
+router.get('/', settingsController.getSettings);
+
+// GET /api/settings/disk-space - Free space in the recordings directory against the reserve
+router.get('/disk-space', settingsController.getDiskSpace);
+
+// PUT /api/settings - Update settings from a key/value map
+router.put('/', validateSettings, settingsController.updateSettings);
+
+module.exports = router;
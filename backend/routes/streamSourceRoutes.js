@@ -1,6 +1,7 @@
 const express = require('express');
 const streamSourceService = require('../services/streamSourceService');
 const logger = require('../utils/logger');
+const { validateRequestProfile } = require('../middleware/validation');
 
 const router = express.Router();
 
@@ -176,7 +177,7 @@ router.get('/:sourceId/streams', async (req, res) => {
 
     res.json({
       success: true,
-      data: streams.map(stream => ({ ...stream, source: sourceId })),
+      data: streamSourceService.withSource(streams, sourceId),
       count: streams.length
     });
   } catch (error) {
@@ -322,4 +323,87 @@ router.get('/:sourceId/test', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/stream-sources/{sourceId}/request-profile:
+ *   get:
+ *     summary: Get the HTTP request profile used for a stream source
+ *     tags: [Stream Sources]
+ *     parameters:
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [supersport, youtube, fifa, caftv]
+ *         description: The stream source ID
+ *     responses:
+ *       200:
+ *         description: Request profile (user agent, referer, cookies, headers, proxy)
+ *       400:
+ *         description: Invalid source ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:sourceId/request-profile', async (req, res) => {
+  try {
+    const profile = await streamSourceService.getRequestProfile(req.params.sourceId);
+
+    res.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    logger.error(`Error fetching request profile for ${req.params.sourceId}:`, error.message);
+    res.status(400).json({
+      error: `Failed to fetch request profile for ${req.params.sourceId}`,
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/stream-sources/{sourceId}/request-profile:
+ *   put:
+ *     summary: Update the HTTP request profile used for a stream source
+ *     tags: [Stream Sources]
+ *     parameters:
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [supersport, youtube, fifa, caftv]
+ *         description: The stream source ID
+ *     responses:
+ *       200:
+ *         description: Updated request profile
+ *       400:
+ *         description: Invalid source ID or profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:sourceId/request-profile', validateRequestProfile, async (req, res) => {
+  try {
+    const profile = await streamSourceService.updateRequestProfile(req.params.sourceId, req.body);
+
+    res.json({
+      success: true,
+      data: profile,
+      message: 'Request profile updated successfully'
+    });
+  } catch (error) {
+    logger.error(`Error updating request profile for ${req.params.sourceId}:`, error.message);
+    res.status(400).json({
+      error: `Failed to update request profile for ${req.params.sourceId}`,
+      message: error.message
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -1,7 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const videoController = require('../controllers/videoController');
-const { validateRecordingId } = require('../middleware/validation');
+const { validateRecordingId, validateClip, validateHighlights, validateMatchOnly } = require('../middleware/validation');
 
 // GET /api/videos - Get all available videos
 router.get('/', videoController.getVideos);
@@ -9,18 +9,54 @@ router.get('/', videoController.getVideos);
 // GET /api/videos/:id/stream - Stream video
 router.get('/:id/stream', validateRecordingId, videoController.streamVideo);
 
+// GET /api/videos/:id/playlist.m3u8 - Get signed HLS playlist
+router.get('/:id/playlist.m3u8', validateRecordingId, videoController.getPlaylist);
+
+// GET /api/videos/:id/abr/master.m3u8 - Get adaptive bitrate master playlist
+router.get('/:id/abr/master.m3u8', validateRecordingId, videoController.getAbrMaster);
+
+// GET /api/videos/:id/abr/:rendition/index.m3u8 - Get signed playlist for one rendition
+router.get('/:id/abr/:rendition/index.m3u8', validateRecordingId, videoController.getAbrRendition);
+
 // GET /api/videos/:id/download - Download video
 router.get('/:id/download', validateRecordingId, videoController.downloadVideo);
 
 // GET /api/videos/:id/info - Get video metadata
 router.get('/:id/info', validateRecordingId, videoController.getVideoInfo);
 
+// GET /api/videos/:id/subtitles - List subtitle and caption tracks
+router.get('/:id/subtitles', validateRecordingId, videoController.getSubtitles);
+
+// GET /api/videos/:id/subtitles/:trackId.vtt - Get one track as WebVTT
+router.get('/:id/subtitles/:trackId.vtt', validateRecordingId, videoController.getSubtitleTrack);
+
+// GET /api/videos/:id/clips - List clips cut from a video
+router.get('/:id/clips', validateRecordingId, videoController.getClips);
+
+// POST /api/videos/:id/clips - Cut a clip into a new recording linked to this one
+router.post('/:id/clips', validateRecordingId, validateClip, videoController.createClip);
+
+// GET /api/videos/:id/highlights - List highlights reels built from a video
+router.get('/:id/highlights', validateRecordingId, videoController.getHighlights);
+
+// POST /api/videos/:id/highlights - Render a highlights reel from markers or ranges
+router.post('/:id/highlights', validateRecordingId, validateHighlights, videoController.createHighlights);
+
+// GET /api/videos/:id/match-only - List match-only videos made from a video
+router.get('/:id/match-only', validateRecordingId, videoController.getMatchOnly);
+
+// POST /api/videos/:id/match-only - Cut the halves out of a video into a new one with chapters
+router.post('/:id/match-only', validateRecordingId, validateMatchOnly, videoController.createMatchOnly);
+
 // POST /api/videos/:id/generate-url - Generate temporary access URL
 router.post('/:id/generate-url', validateRecordingId, videoController.generateTempUrl);
 
-// GET /api/videos/:id/thumbnail - Get video thumbnail
+// GET /api/videos/:id/thumbnail - Get poster frame, or the frame at ?timestamp= (cached in S3)
 router.get('/:id/thumbnail', validateRecordingId, videoController.getThumbnail);
 
+// GET /api/videos/:id/thumbnails.vtt - Get the WebVTT scrubbing thumbnails track
+router.get('/:id/thumbnails.vtt', validateRecordingId, videoController.getThumbnailTrack);
+
 // DELETE /api/videos/:id - Delete video
 router.delete('/:id', validateRecordingId, videoController.deleteVideo);
 
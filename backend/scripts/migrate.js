@@ -144,6 +144,103 @@ const migrations = [
       );
     `
   },
+  {
+    name: 'create_encoding_profiles_table',
+    sql: isSQLite ? `
+      CREATE TABLE IF NOT EXISTS encoding_profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        video_codec TEXT DEFAULT 'libx264',
+        resolution TEXT,
+        video_bitrate TEXT NOT NULL,
+        preset TEXT DEFAULT 'veryfast',
+        audio_bitrate TEXT DEFAULT '128k',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    ` : `
+      CREATE TABLE IF NOT EXISTS encoding_profiles (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(20) UNIQUE NOT NULL,
+        description VARCHAR(255),
+        video_codec VARCHAR(20) DEFAULT 'libx264',
+        resolution VARCHAR(20),
+        video_bitrate VARCHAR(20) NOT NULL,
+        preset VARCHAR(20) DEFAULT 'veryfast',
+        audio_bitrate VARCHAR(20) DEFAULT '128k',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    name: 'create_recording_queue_table',
+    sql: isSQLite ? `
+      CREATE TABLE IF NOT EXISTS recording_queue (
+        id TEXT PRIMARY KEY,
+        recording_id TEXT UNIQUE NOT NULL,
+        priority INTEGER DEFAULT 0,
+        queued_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recording_id) REFERENCES recordings(id)
+      );
+    ` : `
+      CREATE TABLE IF NOT EXISTS recording_queue (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        recording_id UUID UNIQUE NOT NULL REFERENCES recordings(id),
+        priority INTEGER DEFAULT 0,
+        queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    name: 'create_recording_markers_table',
+    sql: isSQLite ? `
+      CREATE TABLE IF NOT EXISTS recording_markers (
+        id TEXT PRIMARY KEY,
+        recording_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        note TEXT,
+        offset_seconds REAL NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recording_id) REFERENCES recordings(id)
+      );
+    ` : `
+      CREATE TABLE IF NOT EXISTS recording_markers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        recording_id UUID NOT NULL REFERENCES recordings(id),
+        type VARCHAR(20) NOT NULL,
+        note TEXT,
+        offset_seconds REAL NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    name: 'create_recording_attempts_table',
+    sql: isSQLite ? `
+      CREATE TABLE IF NOT EXISTS recording_attempts (
+        id TEXT PRIMARY KEY,
+        recording_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        failed_at TEXT,
+        error_message TEXT,
+        retry_at TEXT,
+        FOREIGN KEY (recording_id) REFERENCES recordings(id)
+      );
+    ` : `
+      CREATE TABLE IF NOT EXISTS recording_attempts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        recording_id UUID NOT NULL REFERENCES recordings(id),
+        attempt INTEGER NOT NULL,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        failed_at TIMESTAMP,
+        error_message TEXT,
+        retry_at TIMESTAMP
+      );
+    `
+  },
   {
     name: 'create_indexes',
     sql: isSQLite ? `
@@ -154,6 +251,9 @@ const migrations = [
       CREATE INDEX IF NOT EXISTS idx_schedules_scheduled_start ON schedules(scheduled_start);
       CREATE INDEX IF NOT EXISTS idx_schedules_status ON schedules(status);
       CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
+      CREATE INDEX IF NOT EXISTS idx_recording_queue_order ON recording_queue(priority, queued_at);
+      CREATE INDEX IF NOT EXISTS idx_recording_markers_recording ON recording_markers(recording_id, offset_seconds);
+      CREATE INDEX IF NOT EXISTS idx_recording_attempts_recording ON recording_attempts(recording_id, attempt);
     ` : `
       CREATE INDEX IF NOT EXISTS idx_recordings_status ON recordings(status);
       CREATE INDEX IF NOT EXISTS idx_recordings_created_at ON recordings(created_at);
@@ -162,6 +262,9 @@ const migrations = [
       CREATE INDEX IF NOT EXISTS idx_schedules_scheduled_start ON schedules(scheduled_start);
       CREATE INDEX IF NOT EXISTS idx_schedules_status ON schedules(status);
       CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
+      CREATE INDEX IF NOT EXISTS idx_recording_queue_order ON recording_queue(priority, queued_at);
+      CREATE INDEX IF NOT EXISTS idx_recording_markers_recording ON recording_markers(recording_id, offset_seconds);
+      CREATE INDEX IF NOT EXISTS idx_recording_attempts_recording ON recording_attempts(recording_id, attempt);
     `
   }
 ];
@@ -196,6 +299,9 @@ const runMigrations = async () => {
     
     // Insert default settings
     await insertDefaultSettings();
+
+    // Insert default encoding profiles
+    await insertDefaultEncodingProfiles();
     
   } catch (error) {
     logger.error('❌ Migration failed:', error.message);
@@ -213,18 +319,66 @@ const insertDefaultSettings = async () => {
       description: 'Maximum number of concurrent recordings allowed',
       category: 'recording'
     },
+    {
+      key: 'stall_timeout_seconds',
+      value: '60',
+      description: 'Seconds without output growth before a frozen capture is restarted into a new part',
+      category: 'recording'
+    },
+    {
+      key: 'retry_max_attempts',
+      value: '3',
+      description: 'Attempts a failed recording gets in total, counting the first; 1 disables automatic retries',
+      category: 'recording'
+    },
+    {
+      key: 'retry_backoff_seconds',
+      value: '30',
+      description: 'Delay before the first automatic retry; doubled after every further failure',
+      category: 'recording'
+    },
+    {
+      key: 'retry_max_backoff_seconds',
+      value: '600',
+      description: 'Longest delay between automatic retries',
+      category: 'recording'
+    },
+    {
+      key: 'highlight_detection_enabled',
+      value: 'true',
+      description: 'Look for candidate highlights (crowd noise peaks, bursts of cuts) and match boundaries (black frames, silence, cuts) in finished recordings',
+      category: 'recording'
+    },
+    {
+      key: 'integrity_check_interval_hours',
+      value: '168',
+      description: 'How often stored recordings are re-verified against their checksum',
+      category: 'storage'
+    },
     {
       key: 'default_recording_quality',
       value: 'best',
-      description: 'Default recording quality (best, good, medium)',
+      description: 'Default recording quality (best for pass-through, or an encoding profile name)',
       category: 'recording'
     },
+    {
+      key: 'disk_reserve_mb',
+      value: '2048',
+      description: 'Free space (MB) to keep in the recordings directory; recordings are refused or stopped below it',
+      category: 'storage'
+    },
     {
       key: 'auto_cleanup_days',
       value: '30',
       description: 'Days after which completed recordings are cleaned up',
       category: 'storage'
     },
+    {
+      key: 'default_user_agent',
+      value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      description: 'User agent sent to stream hosts unless a request profile overrides it',
+      category: 'streaming'
+    },
     {
       key: 'max_recording_duration',
       value: '7200',
@@ -257,6 +411,62 @@ const insertDefaultSettings = async () => {
   logger.info('✅ Default settings inserted');
 };
 
+const insertDefaultEncodingProfiles = async () => {
+  const defaultProfiles = [
+    {
+      name: 'good',
+      description: '720p H.264 for regular fixtures',
+      video_codec: 'libx264',
+      resolution: '1280x720',
+      video_bitrate: '3000k',
+      preset: 'veryfast',
+      audio_bitrate: '128k'
+    },
+    {
+      name: 'medium',
+      description: '480p H.264 for lower-tier competitions',
+      video_codec: 'libx264',
+      resolution: '854x480',
+      video_bitrate: '1200k',
+      preset: 'veryfast',
+      audio_bitrate: '96k'
+    }
+  ];
+
+  for (const profile of defaultProfiles) {
+    const values = [
+      profile.name,
+      profile.description,
+      profile.video_codec,
+      profile.resolution,
+      profile.video_bitrate,
+      profile.preset,
+      profile.audio_bitrate
+    ];
+
+    try {
+      if (isSQLite) {
+        await database.query(
+          `INSERT OR IGNORE INTO encoding_profiles (id, name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [require('crypto').randomUUID(), ...values]
+        );
+      } else {
+        await database.query(
+          `INSERT INTO encoding_profiles (name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7) 
+           ON CONFLICT (name) DO NOTHING`,
+          values
+        );
+      }
+    } catch (error) {
+      logger.warn(`Failed to insert encoding profile ${profile.name}:`, error.message);
+    }
+  }
+
+  logger.info('✅ Default encoding profiles inserted');
+};
+
 // Run migrations if this script is executed directly
 if (require.main === module) {
   runMigrations();
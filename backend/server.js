@@ -15,6 +15,8 @@ const matchRoutes = require('./routes/matchRoutes');
 const videoRoutes = require('./routes/videoRoutes');
 const scheduleRoutes = require('./routes/scheduleRoutes');
 const streamSourceRoutes = require('./routes/streamSourceRoutes');
+const encodingProfileRoutes = require('./routes/encodingProfileRoutes');
+const settingsRoutes = require('./routes/settingsRoutes');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -66,6 +68,8 @@ app.use('/api/matches', matchRoutes);
 app.use('/api/videos', videoRoutes);
 app.use('/api/schedules', scheduleRoutes);
 app.use('/api/stream-sources', streamSourceRoutes);
+app.use('/api/encoding-profiles', encodingProfileRoutes);
+app.use('/api/settings', settingsRoutes);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -0,0 +1,173 @@
+const ffmpeg = require('fluent-ffmpeg');
+const path = require('path');
+const fs = require('fs').promises;
+const logger = require('../utils/logger');
+const s3Service = require('./s3Service');
+const hlsService = require('./hlsService');
+const encodingProfileService = require('./encodingProfileService');
+
+class AbrService {
+  constructor() {
+    this.enabled = process.env.ABR_LADDER_ENABLED === 'true';
+    this.workPath = process.env.RECORDINGS_PATH || '/tmp/recordings';
+    this.masterName = 'master.m3u8';
+    this.renditions = [
+      { name: '1080p', height: 1080, videoBitrate: '5000k', audioBitrate: '128k' },
+      { name: '720p', height: 720, videoBitrate: '2800k', audioBitrate: '128k' },
+      { name: '480p', height: 480, videoBitrate: '1200k', audioBitrate: '96k' }
+    ];
+
+    // Ladder jobs are CPU heavy, so they run one at a time
+    this.queue = Promise.resolve();
+  }
+
+  isEnabled() {
+    return this.enabled;
+  }
+
+  getS3Prefix(recordingId) {
+    return `recordings/${recordingId}/abr`;
+  }
+
+  generateLadder(recordingId, sourcePath) {
+    const job = this.queue.then(() => this.buildLadder(recordingId, sourcePath));
+    this.queue = job.catch(() => {});
+    return job;
+  }
+
+  async buildLadder(recordingId, sourcePath) {
+    // Kept out of the `${recordingId}_` namespace so crash recovery never mistakes it for a partial capture
+    const workDir = path.join(this.workPath, `abr_${recordingId}`);
+    const s3Prefix = this.getS3Prefix(recordingId);
+
+    logger.info(`Generating ABR ladder for ${recordingId}`);
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+
+      const source = await this.probeSource(sourcePath);
+      const renditions = this.selectRenditions(source.height);
+      const results = [];
+
+      for (const rendition of renditions) {
+        const outputDir = path.join(workDir, rendition.name);
+        await fs.mkdir(outputDir, { recursive: true });
+        await this.transcodeRendition(sourcePath, outputDir, rendition);
+
+        const s3Result = await hlsService.syncToS3(outputDir, `${s3Prefix}/${rendition.name}`);
+        if (!s3Result.success) {
+          throw new Error(`Upload of ${rendition.name} failed: ${s3Result.error}`);
+        }
+
+        results.push({
+          name: rendition.name,
+          resolution: this.getResolution(source, rendition.height),
+          bandwidth: this.getBandwidth(rendition),
+          key: s3Result.key
+        });
+      }
+
+      const masterPath = path.join(workDir, this.masterName);
+      await fs.writeFile(masterPath, this.buildMasterPlaylist(results));
+      const masterResult = await s3Service.uploadFile(masterPath, `${s3Prefix}/${this.masterName}`);
+      if (!masterResult.success) {
+        throw new Error(`Upload of master playlist failed: ${masterResult.error}`);
+      }
+
+      logger.info(`ABR ladder generated for ${recordingId}: ${results.map(r => r.name).join(', ')}`);
+
+      return {
+        masterKey: masterResult.key,
+        renditions: results,
+        generatedAt: new Date().toISOString()
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  async probeSource(sourcePath) {
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(sourcePath, (err, metadata) => {
+        if (err) {
+          logger.warn(`Could not probe ABR source: ${err.message}`);
+          return resolve({ width: 0, height: 0 });
+        }
+
+        const video = metadata.streams.find(stream => stream.codec_type === 'video') || {};
+        resolve({ width: video.width || 0, height: video.height || 0 });
+      });
+    });
+  }
+
+  // Skip rungs above the source; a source below the smallest rung still gets that rung (at source size)
+  selectRenditions(sourceHeight) {
+    if (!sourceHeight) return this.renditions;
+
+    const renditions = this.renditions.filter(rendition => rendition.height <= sourceHeight);
+    return renditions.length > 0 ? renditions : [this.renditions[this.renditions.length - 1]];
+  }
+
+  transcodeRendition(sourcePath, outputDir, rendition) {
+    const segmentDuration = hlsService.segmentDuration;
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(sourcePath)
+        .outputOptions([
+          '-map', '0:v:0',
+          '-map', '0:a:0?',
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-b:v', rendition.videoBitrate,
+          '-maxrate', rendition.videoBitrate,
+          '-bufsize', encodingProfileService.doubleBitrate(rendition.videoBitrate),
+          '-vf', `scale=-2:min(${rendition.height}\\,ih)`,
+          // Keyframes on segment boundaries keep renditions switchable mid-playback
+          '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+          '-sc_threshold', '0',
+          '-c:a', 'aac',
+          '-b:a', rendition.audioBitrate,
+          '-f', 'hls',
+          '-hls_time', segmentDuration.toString(),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(outputDir, 'segment_%05d.ts'),
+          '-y'
+        ])
+        .output(hlsService.getPlaylistPath(outputDir))
+        .on('end', resolve)
+        .on('error', reject)
+        .run();
+    });
+  }
+
+  buildMasterPlaylist(renditions) {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    for (const rendition of renditions) {
+      const resolution = rendition.resolution ? `,RESOLUTION=${rendition.resolution}` : '';
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth}${resolution},NAME="${rendition.name}"`);
+      lines.push(`${rendition.name}/${hlsService.playlistName}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  getResolution(source, height) {
+    if (!source.width || !source.height) return null;
+    const outputHeight = Math.min(height, source.height);
+    const width = Math.round((source.width * outputHeight) / source.height / 2) * 2;
+    return `${width}x${outputHeight}`;
+  }
+
+  // Peak bandwidth in bits per second as advertised in the master playlist
+  getBandwidth(rendition) {
+    return this.parseBitrate(rendition.videoBitrate) + this.parseBitrate(rendition.audioBitrate);
+  }
+
+  parseBitrate(bitrate) {
+    const match = /^(\d+)([kKmM]?)$/.exec(bitrate);
+    if (!match) return 0;
+    const multiplier = { k: 1000, m: 1000000 }[match[2].toLowerCase()] || 1;
+    return parseInt(match[1]) * multiplier;
+  }
+}
+
+module.exports = new AbrService();
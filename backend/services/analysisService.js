@@ -0,0 +1,252 @@
+const ffmpeg = require('fluent-ffmpeg');
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+const { parseTimemark } = require('../utils/timemark');
+const boundaryService = require('./boundaryService');
+
+// Candidate highlights found without watching: the crowd and the commentators get loud around
+// key moments, and the broadcast follows them with replays, i.e. a burst of cuts. Both signals
+// come from one FFmpeg pass (ebur128 loudness, scene change scores) and are ranked into
+// candidate markers for an analyst to accept or reject. The same pass looks for black frames
+// and silence, which with the cuts tell live play from dead air (see boundaryService).
+class AnalysisService {
+  constructor() {
+    // Scene changes are scored on a small, decimated copy of the video; a score over the
+    // threshold counts as a cut
+    this.sceneFps = 4;
+    this.sceneWidth = 320;
+    this.sceneThreshold = 0.3;
+    // Black frames and silence long enough to be a break rather than a dark shot or a lull
+    this.blackMinDuration = 1; // seconds
+    this.blackPixelThreshold = 0.1;
+    this.silenceMinDuration = 2; // seconds
+    this.silenceNoise = '-50dB';
+    // A loudness peak is this many robust standard deviations above the match median
+    this.loudnessThreshold = 2;
+    this.loudnessCeiling = 6; // peaks this far above count as fully confident
+    this.minSpread = 1; // LU, so near-constant audio does not turn small wobbles into peaks
+    this.replayWindow = 40; // seconds after a moment in which its replays are counted
+    // A burst has at least 2.5 times the usual number of cuts in that window; 4 times or more
+    // counts as fully confident
+    this.minCutExcess = 1.5;
+    this.fullCutExcess = 3;
+    this.sceneLead = 15; // a burst of cuts is put this long after the moment it replays
+    this.leadIn = 3; // short-term loudness covers the 3 seconds before each sample
+    this.loudnessWeight = 0.65;
+    this.sceneWeight = 0.35;
+    this.minGap = 45; // seconds between two candidates
+    this.minConfidence = 0.2;
+    this.maxCandidates = 25;
+  }
+
+  // input/inputOptions as for FFmpeg (a local file, or a signed source from clipService).
+  // Returns the ranked candidates, the proposed match boundaries (null for a recording too
+  // short to hold a match) and a summary of the signals they were taken from.
+  async analyze(recordingId, { input, inputOptions = [] }, { duration, hasAudio, hasVideo, onProgress = () => {} }) {
+    if (!hasAudio && !hasVideo) {
+      throw new Error('The recording has no audio or video track to analyse');
+    }
+
+    const base = path.join(os.tmpdir(), `analysis_${recordingId}`);
+    const loudnessPath = `${base}_loudness.txt`;
+    const scenePath = `${base}_scenes.txt`;
+
+    try {
+      const { blacks, silences } = await this.runFilters(
+        { input, inputOptions },
+        { loudnessPath, scenePath, hasAudio, hasVideo, duration, onProgress }
+      );
+
+      const loudness = hasAudio ? this.parseMetadataLog(await fs.readFile(loudnessPath, 'utf8'), 'lavfi.r128.S') : [];
+      const cuts = hasVideo ? this.parseMetadataLog(await fs.readFile(scenePath, 'utf8')).map(sample => sample.time) : [];
+      const length = duration || [...loudness.map(sample => sample.time), ...cuts].reduce((max, time) => Math.max(max, time), 0);
+
+      return {
+        candidates: this.rankCandidates({ loudness, cuts, duration: length, hasAudio, hasVideo }),
+        boundaries: boundaryService.proposeBoundaries({ cuts, blacks, silences, duration: length }),
+        signals: {
+          loudness: hasAudio ? this.getLoudnessBaseline(loudness) : null,
+          cuts: hasVideo ? cuts.length : null,
+          black: hasVideo ? this.getTotalLength(blacks) : null, // seconds
+          silence: hasAudio ? this.getTotalLength(silences) : null
+        }
+      };
+    } finally {
+      await fs.rm(loudnessPath, { force: true });
+      await fs.rm(scenePath, { force: true });
+    }
+  }
+
+  // Short-term loudness once a second (one-second frames into ebur128), and the time of every
+  // frame whose scene score passes the threshold, each written to a file by a metadata filter.
+  // Black and silent intervals are only logged, so they are read from FFmpeg's output.
+  runFilters({ input, inputOptions }, { loudnessPath, scenePath, hasAudio, hasVideo, duration, onProgress }) {
+    const filters = [];
+    const maps = [];
+    if (hasAudio) {
+      filters.push(`[0:a:0]asetpts=PTS-STARTPTS,silencedetect=n=${this.silenceNoise}:d=${this.silenceMinDuration},` +
+        'aresample=48000,asetnsamples=n=48000:p=0,ebur128=metadata=1,' +
+        `ametadata=mode=print:key=lavfi.r128.S:file=${loudnessPath}[loudness]`);
+      maps.push('-map', '[loudness]');
+    }
+    if (hasVideo) {
+      filters.push(`[0:v:0]setpts=PTS-STARTPTS,fps=${this.sceneFps},scale=${this.sceneWidth}:-2,` +
+        `blackdetect=d=${this.blackMinDuration}:pix_th=${this.blackPixelThreshold},` +
+        `select='gt(scene,${this.sceneThreshold})',metadata=mode=print:file=${scenePath}[scenes]`);
+      maps.push('-map', '[scenes]');
+    }
+
+    const blacks = [];
+    const silences = [];
+    let silenceStart = null;
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(input)
+        .inputOptions(inputOptions)
+        .complexFilter(filters)
+        .outputOptions([...maps, '-f', 'null'])
+        .output('-')
+        .on('progress', progress => {
+          if (duration) onProgress(Math.min(99, Math.round(parseTimemark(progress.timemark) / duration * 100)));
+        })
+        .on('stderr', line => {
+          const black = /black_start:([\d.]+) black_end:([\d.]+)/.exec(line);
+          const silenceFrom = /silence_start: (-?[\d.]+)/.exec(line);
+          const silenceTo = /silence_end: ([\d.]+)/.exec(line);
+          if (black) blacks.push({ start: parseFloat(black[1]), end: parseFloat(black[2]) });
+          if (silenceFrom) silenceStart = Math.max(0, parseFloat(silenceFrom[1]));
+          if (silenceTo && silenceStart !== null) {
+            silences.push({ start: silenceStart, end: parseFloat(silenceTo[1]) });
+            silenceStart = null;
+          }
+        })
+        .on('end', () => {
+          // Silence running into the end of the recording is never closed
+          if (silenceStart !== null && duration) silences.push({ start: silenceStart, end: duration });
+          resolve({ blacks, silences });
+        })
+        .on('error', reject)
+        .run();
+    });
+  }
+
+  getTotalLength(intervals) {
+    return Math.round(intervals.reduce((total, interval) => total + interval.end - interval.start, 0));
+  }
+
+  // Output of the ametadata/metadata print mode: a "frame:N pts:N pts_time:T" line per frame,
+  // followed by its key=value lines. Returns { time, value } per frame; value is only read for
+  // the given key, and frames without a finite value for it are dropped.
+  parseMetadataLog(text, key = null) {
+    const samples = [];
+    let current = null;
+
+    for (const line of text.split('\n')) {
+      const frame = /pts_time:(-?[\d.]+)/.exec(line);
+      if (frame) {
+        current = { time: parseFloat(frame[1]), value: null };
+        if (!key) samples.push(current);
+      } else if (key && current && line.startsWith(`${key}=`)) {
+        current.value = parseFloat(line.slice(key.length + 1));
+        if (Number.isFinite(current.value)) samples.push(current);
+      }
+    }
+
+    return samples;
+  }
+
+  // Median loudness of the match and its spread (scaled median absolute deviation), so one
+  // loud stadium or quiet feed does not shift every score. Silence is left out.
+  getLoudnessBaseline(loudness) {
+    const values = loudness.map(sample => sample.value).filter(value => value > -70);
+    if (values.length === 0) return null;
+
+    const median = this.median(values);
+    const spread = Math.max(this.minSpread, 1.4826 * this.median(values.map(value => Math.abs(value - median))));
+    return { median: Math.round(median * 10) / 10, spread: Math.round(spread * 10) / 10 };
+  }
+
+  rankCandidates({ loudness, cuts, duration, hasAudio, hasVideo }) {
+    const baseline = hasAudio ? this.getLoudnessBaseline(loudness) : null;
+    const expectedCuts = duration > 0 ? cuts.length / duration * this.replayWindow : 0;
+    const countCuts = from => cuts.filter(time => time >= from && time <= from + this.replayWindow).length;
+
+    // Loudness peaks, loudest first, and bursts of cuts, densest first
+    const peaks = baseline
+      ? this.selectPeaks(loudness
+        .map(sample => ({ time: sample.time, score: (sample.value - baseline.median) / baseline.spread }))
+        .filter(point => point.score >= this.loudnessThreshold))
+        .map(point => Math.max(0, point.time - this.leadIn))
+      : [];
+    // A burst is spaced a replay window from the next, so one replay sequence is one candidate
+    const bursts = hasVideo
+      ? this.selectPeaks(cuts
+        .map(time => ({ time, score: this.getCutExcess(countCuts(time), expectedCuts) }))
+        .filter(point => point.score >= this.minCutExcess), this.minGap + this.replayWindow)
+        .map(point => Math.max(0, point.time - this.sceneLead))
+      : [];
+
+    const moments = [...peaks, ...bursts.filter(time => !peaks.some(peak => Math.abs(peak - time) < this.minGap))];
+
+    const candidates = moments.map(time => {
+      const loudest = baseline ? this.getLoudest(loudness, time, time + this.leadIn * 2) : null;
+      const cutCount = hasVideo ? countCuts(time) : null;
+      const loudnessScore = loudest !== null
+        ? Math.min(1, Math.max(0, (loudest - baseline.median) / baseline.spread / this.loudnessCeiling))
+        : 0;
+      const sceneScore = hasVideo ? this.getSceneScore(cutCount, expectedCuts) : 0;
+      const confidence = baseline && hasVideo
+        ? this.loudnessWeight * loudnessScore + this.sceneWeight * sceneScore
+        : baseline ? loudnessScore : sceneScore;
+
+      return {
+        id: uuidv4(),
+        offset_seconds: Math.round(time * 10) / 10,
+        confidence: Math.round(confidence * 100) / 100,
+        loudness: loudest !== null ? Math.round((loudest - baseline.median) * 10) / 10 : null, // LU above the median
+        cuts: cutCount,
+        status: 'pending'
+      };
+    });
+
+    return candidates
+      .filter(candidate => candidate.confidence >= this.minConfidence)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.maxCandidates);
+  }
+
+  // Cuts in the window after a moment beyond what the match averages, relative to that average
+  getCutExcess(count, expected) {
+    return (count - expected) / Math.max(expected, 1);
+  }
+
+  getSceneScore(count, expected) {
+    return Math.min(1, Math.max(0, this.getCutExcess(count, expected) / this.fullCutExcess));
+  }
+
+  getLoudest(loudness, from, to) {
+    const values = loudness.filter(sample => sample.time >= from && sample.time <= to).map(sample => sample.value);
+    return values.length > 0 ? Math.max(...values) : null;
+  }
+
+  // Highest scores first, skipping any within gap seconds of one already taken
+  selectPeaks(points, gap = this.minGap) {
+    const selected = [];
+    for (const point of [...points].sort((a, b) => b.score - a.score)) {
+      if (!selected.some(other => Math.abs(other.time - point.time) < gap)) {
+        selected.push(point);
+      }
+    }
+    return selected;
+  }
+
+  median(values) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
+
+module.exports = new AnalysisService();
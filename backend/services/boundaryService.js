@@ -0,0 +1,197 @@
+// Kickoff, halftime and full time in a recording of a match, and the chapters between them.
+// Auto-scheduled recordings start early and run a fixed length, so they hold studio chatter
+// before and after the match and the halftime break. Those stretches are "dead air": black
+// frames and silence around ad breaks, and far more cuts than live play. The match structure
+// (two halves of about 45 minutes around a break of about 15) is fitted to where the
+// recording is least dead.
+class BoundaryService {
+  constructor() {
+    this.binSize = 5; // seconds
+    this.halfLength = { min: 45 * 60, max: 55 * 60 }; // stoppage time included
+    this.breakLength = { min: 10 * 60, max: 25 * 60 };
+    // A recording that ends during the second half still gets boundaries if this much of it is in
+    this.minPartialHalf = 20 * 60;
+    this.cutWindow = 60; // seconds the cut rate is measured over
+    this.playThreshold = 0.5; // bins less dead than this count towards a half
+    this.contrastWindow = 180; // seconds compared on either side of a boundary for its confidence
+  }
+
+  // Proposed boundaries in seconds with a confidence for each, or null when the recording is
+  // too short to hold a match. Signals are from analysisService: cut times and the black and
+  // silent intervals, each { start, end }.
+  proposeBoundaries({ cuts = [], blacks = [], silences = [], duration }) {
+    const half = this.toBins(this.halfLength);
+    const breakBins = this.toBins(this.breakLength);
+    const minPartial = Math.round(this.minPartialHalf / this.binSize);
+    const deadness = this.getDeadness({ cuts, blacks, silences, duration });
+    const count = deadness.length;
+    if (count < half.min + breakBins.min + minPartial) return null;
+
+    // prefix[i]: how much the bins before i favour play; a half is worth prefix[end] - prefix[start]
+    const prefix = [0];
+    deadness.forEach((dead, index) => prefix.push(prefix[index] + this.playThreshold - dead));
+
+    // Best first half ending at each bin, and best second half starting at each bin
+    const firstHalf = prefix.map((_, end) => {
+      let best = null;
+      for (let start = Math.max(0, end - half.max); start <= end - half.min; start += 1) {
+        const value = prefix[end] - prefix[start];
+        if (!best || value > best.value) best = { start, value };
+      }
+      return best;
+    });
+    const secondHalf = prefix.map((_, start) => {
+      let best = null;
+      const ends = [];
+      for (let end = start + half.min; end <= Math.min(count, start + half.max); end += 1) ends.push(end);
+      // Cut off by the end of the recording
+      if (ends.length === 0 && count - start >= minPartial) ends.push(count);
+      for (const end of ends) {
+        const value = prefix[end] - prefix[start];
+        if (!best || value > best.value) best = { end, value };
+      }
+      return best;
+    });
+
+    let best = null;
+    for (let halftimeStart = 0; halftimeStart <= count; halftimeStart += 1) {
+      if (!firstHalf[halftimeStart]) continue;
+      for (let halftimeEnd = halftimeStart + breakBins.min; halftimeEnd <= Math.min(count, halftimeStart + breakBins.max); halftimeEnd += 1) {
+        if (!secondHalf[halftimeEnd]) continue;
+        const value = firstHalf[halftimeStart].value + secondHalf[halftimeEnd].value;
+        if (!best || value > best.value) {
+          best = {
+            value,
+            bins: [firstHalf[halftimeStart].start, halftimeStart, halftimeEnd, secondHalf[halftimeEnd].end]
+          };
+        }
+      }
+    }
+    if (!best) return null;
+
+    const [kickoff, halftimeStart, halftimeEnd, fullTime] = best.bins.map(bin => Math.min(duration, bin * this.binSize));
+    const contrast = (time, deadBefore) => {
+      const before = this.getMeanDeadness(deadness, time - this.contrastWindow, time);
+      const after = this.getMeanDeadness(deadness, time, time + this.contrastWindow);
+      if (before === null || after === null) return null;
+      return Math.round(Math.min(1, Math.max(0, deadBefore ? before - after : after - before)) * 100) / 100;
+    };
+
+    return {
+      kickoff,
+      halftime_start: halftimeStart,
+      halftime_end: halftimeEnd,
+      full_time: fullTime,
+      truncated: fullTime >= duration, // the recording ends before the final whistle
+      confidence: {
+        kickoff: contrast(kickoff, true),
+        halftime_start: contrast(halftimeStart, false),
+        halftime_end: contrast(halftimeEnd, true),
+        full_time: fullTime >= duration ? null : contrast(fullTime, false)
+      }
+    };
+  }
+
+  toBins({ min, max }) {
+    return { min: Math.round(min / this.binSize), max: Math.round(max / this.binSize) };
+  }
+
+  // How dead each bin is, 0 to 1: the share of it that is black or silent, plus how far the cut
+  // rate around it is above the usual rate of the recording (mostly live play)
+  getDeadness({ cuts, blacks, silences, duration }) {
+    const count = Math.ceil(duration / this.binSize);
+    const covered = intervals => {
+      const bins = new Array(count).fill(0);
+      for (const { start, end } of intervals) {
+        for (let bin = Math.floor(start / this.binSize); bin < count && bin * this.binSize < end; bin += 1) {
+          const overlap = Math.min(end, (bin + 1) * this.binSize) - Math.max(start, bin * this.binSize);
+          bins[bin] += Math.max(0, overlap) / this.binSize;
+        }
+      }
+      return bins;
+    };
+    const black = covered(blacks);
+    const silent = covered(silences);
+
+    const cutBins = new Array(count).fill(0);
+    for (const time of cuts) {
+      const bin = Math.floor(time / this.binSize);
+      if (bin < count) cutBins[bin] += 1;
+    }
+    const reach = Math.round(this.cutWindow / this.binSize / 2);
+    const rates = cutBins.map((_, bin) => cutBins
+      .slice(Math.max(0, bin - reach), bin + reach)
+      .reduce((total, value) => total + value, 0));
+    const usual = Math.max(1, this.median(rates));
+
+    return rates.map((rate, bin) => Math.min(1,
+      black[bin] + silent[bin] + Math.min(1, Math.max(0, (rate - usual) / (2 * usual)))));
+  }
+
+  getMeanDeadness(deadness, from, to) {
+    const bins = deadness.slice(Math.max(0, Math.floor(from / this.binSize)), Math.max(0, Math.floor(to / this.binSize)));
+    if (bins.length === 0) return null;
+    return bins.reduce((total, value) => total + value, 0) / bins.length;
+  }
+
+  // Analysts can move the proposed boundaries; they have to stay in match order
+  validateBoundaries({ kickoff, halftime_start: halftimeStart, halftime_end: halftimeEnd, full_time: fullTime }, duration) {
+    if (!(kickoff < halftimeStart && halftimeStart <= halftimeEnd && halftimeEnd < fullTime)) {
+      throw new Error('Boundaries must be in order: kickoff, halftime start, halftime end, full time');
+    }
+    if (duration && fullTime > duration) {
+      throw new Error(`Full time is after the end of the recording (${duration}s)`);
+    }
+  }
+
+  // Chapters of the whole recording; the stretches before kickoff and after full time only
+  // when there is something in them
+  getChapters(boundaries, duration) {
+    const { kickoff, halftime_start: halftimeStart, halftime_end: halftimeEnd, full_time: fullTime } = boundaries;
+    return [
+      { title: 'Pre-match', start: 0, end: kickoff },
+      { title: 'First half', start: kickoff, end: halftimeStart },
+      { title: 'Half-time', start: halftimeStart, end: halftimeEnd },
+      { title: 'Second half', start: halftimeEnd, end: fullTime },
+      { title: 'Post-match', start: fullTime, end: duration || fullTime }
+    ].filter(chapter => chapter.end > chapter.start);
+  }
+
+  // The ranges a match-only video keeps, and its chapters once they are joined
+  getMatchSegments(boundaries) {
+    return [
+      { title: 'First half', start: boundaries.kickoff, end: boundaries.halftime_start },
+      { title: 'Second half', start: boundaries.halftime_end, end: boundaries.full_time }
+    ];
+  }
+
+  getJoinedChapters(segments) {
+    let offset = 0;
+    return segments.map(segment => {
+      const chapter = { title: segment.title, start: offset, end: offset + segment.end - segment.start };
+      offset = chapter.end;
+      return chapter;
+    });
+  }
+
+  // FFmpeg metadata file with the chapters, muxed into the joined video
+  buildChapterMetadata(chapters) {
+    const escape = text => text.replace(/[=;#\\\n]/g, character => `\\${character}`);
+    return [';FFMETADATA1', ...chapters.map(chapter => [
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escape(chapter.title)}`
+    ].join('\n'))].join('\n') + '\n';
+  }
+
+  median(values) {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
+
+module.exports = new BoundaryService();
@@ -0,0 +1,147 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const hlsService = require('./hlsService');
+const s3Service = require('./s3Service');
+
+// SHA-256 of recording outputs, computed from the local copy before it is uploaded, and
+// verification of the stored objects against it
+class ChecksumService {
+  constructor() {
+    this.algorithm = 'sha256';
+  }
+
+  // One pass gives the SHA-256 and the ETag S3 will report for the upload: the MD5 of the
+  // object when it goes up in a single request, otherwise the MD5 of the part MD5s with the
+  // part count appended (s3Service sends anything of a part size or more as a multipart upload)
+  hashFile(filePath) {
+    return new Promise((resolve, reject) => {
+      const { size } = fs.statSync(filePath);
+      const partSize = s3Service.getPartSize(size);
+      const hash = crypto.createHash(this.algorithm);
+      const partHashes = [];
+      let partHash = crypto.createHash('md5');
+      let partLength = 0;
+
+      fs.createReadStream(filePath)
+        .on('data', chunk => {
+          hash.update(chunk);
+          let offset = 0;
+          while (offset < chunk.length) {
+            const piece = chunk.subarray(offset, offset + partSize - partLength);
+            partHash.update(piece);
+            partLength += piece.length;
+            offset += piece.length;
+            if (partLength === partSize) {
+              partHashes.push(partHash.digest());
+              partHash = crypto.createHash('md5');
+              partLength = 0;
+            }
+          }
+        })
+        .on('end', () => {
+          if (partLength > 0 || partHashes.length === 0) {
+            partHashes.push(partHash.digest());
+          }
+          const etag = size < partSize
+            ? partHashes[0].toString('hex')
+            : `${crypto.createHash('md5').update(Buffer.concat(partHashes)).digest('hex')}-${partHashes.length}`;
+          resolve({ sha256: hash.digest('hex'), etag, size });
+        })
+        .on('error', reject);
+    });
+  }
+
+  hashStream(stream) {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash(this.algorithm);
+      stream
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  // An HLS output is hashed per file; its value is the hash of the sha256sum-style listing
+  // of segments and playlist, so it changes whenever any of them does
+  async computeOutput({ path: filePath, dir }) {
+    if (!dir) {
+      const { sha256, etag, size } = await this.hashFile(filePath);
+      return { algorithm: this.algorithm, value: sha256, etag, size };
+    }
+
+    const playlist = await hlsService.readPlaylist(dir);
+    const files = {};
+    for (const name of [...playlist.segments.map(segment => segment.uri), hlsService.playlistName]) {
+      files[name] = await this.hashFile(path.join(dir, name));
+    }
+    const listing = Object.entries(files).map(([name, file]) => `${file.sha256}  ${name}\n`).join('');
+
+    return {
+      algorithm: this.algorithm,
+      value: crypto.createHash(this.algorithm).update(listing).digest('hex'),
+      files
+    };
+  }
+
+  // SHA-256 of every file of an output by name, as stored in the S3 object metadata
+  getFileChecksums(checksum) {
+    return Object.fromEntries(Object.entries(checksum.files || {}).map(([name, file]) => [name, file.sha256]));
+  }
+
+  // The S3 objects a checksum covers; an HLS output lives next to its playlist
+  getObjects(s3Key, checksum) {
+    if (!checksum.files) {
+      return [{ key: s3Key, sha256: checksum.value, etag: checksum.etag, size: checksum.size }];
+    }
+
+    const prefix = path.posix.dirname(s3Key);
+    return Object.entries(checksum.files).map(([name, file]) => ({ key: `${prefix}/${name}`, ...file }));
+  }
+
+  // Compare a stored object with its expected checksum. The HEAD request checks the size, the
+  // ETag S3 computed from the bytes it received and the SHA-256 stored with the object; a deep
+  // check also downloads the object and hashes it again. Segments uploaded while recording
+  // went up before their checksum was known and carry no SHA-256 metadata, which is not a problem
+  // in itself. Returns the problems found; errors other than a missing object are thrown.
+  async verifyObject({ key, sha256, etag, size }, { deep = false } = {}) {
+    const info = await s3Service.getFileInfo(key);
+    if (!info.success) {
+      if (info.code === 'NotFound' || info.code === 'NoSuchKey') {
+        return [`${key}: object is missing`];
+      }
+      throw new Error(`Could not read ${key}: ${info.error}`);
+    }
+
+    const problems = [];
+    if (size !== undefined && info.size !== size) {
+      problems.push(`${key}: size is ${info.size} bytes, expected ${size}`);
+    }
+    if (etag && info.etag && info.etag.replace(/"/g, '') !== etag) {
+      problems.push(`${key}: ETag does not match the local copy`);
+    }
+    const storedSha256 = info.metadata && info.metadata.sha256;
+    if (storedSha256 && storedSha256 !== sha256) {
+      problems.push(`${key}: stored SHA-256 does not match the local copy`);
+    }
+
+    if (deep && problems.length === 0) {
+      const actual = await this.hashStream(s3Service.getObjectStream(key));
+      if (actual !== sha256) {
+        problems.push(`${key}: content SHA-256 does not match`);
+      }
+    }
+
+    return problems;
+  }
+
+  async verifyStoredOutput(s3Key, checksum, options = {}) {
+    const problems = [];
+    for (const object of this.getObjects(s3Key, checksum)) {
+      problems.push(...await this.verifyObject(object, options));
+    }
+    return problems;
+  }
+}
+
+module.exports = new ChecksumService();
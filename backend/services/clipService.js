@@ -0,0 +1,78 @@
+const ffmpeg = require('fluent-ffmpeg');
+const fs = require('fs').promises;
+const s3Service = require('./s3Service');
+const encodingProfileService = require('./encodingProfileService');
+
+// Cutting clips out of stored recordings. The source is read from S3 through signed URLs, so
+// FFmpeg only fetches the part of the recording around the clip instead of the whole match.
+class ClipService {
+  constructor() {
+    this.urlExpiry = 3600; // seconds the signed source URLs stay valid while cutting
+    // Re-encode without an encoding profile: visually lossless enough for analysis clips
+    this.defaultEncodeOptions = ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-c:a', 'aac', '-b:a', '160k'];
+  }
+
+  // HLS recordings are cut into a single MP4; everything else keeps its container
+  getFormat(parent) {
+    return parent.format === 'hls' ? 'mp4' : parent.format;
+  }
+
+  // Stream copy is fast but starts at the keyframe at or before the start offset; a re-encode
+  // cuts on the exact frame. Audio frames are short enough that audio-only clips are only
+  // re-encoded to apply a profile's bitrate.
+  async getOutputOptions({ reencode, quality, audioOnly, format }) {
+    if (!reencode) return ['-c', 'copy'];
+    if (audioOnly) {
+      return (await encodingProfileService.getAudioOutputOptions(quality, format)).options;
+    }
+
+    const encoding = await encodingProfileService.getOutputOptions(quality);
+    return encoding.transcode ? encoding.options : this.defaultEncodeOptions;
+  }
+
+  // A signed URL of the recording, or for HLS a local copy of the playlist with every segment
+  // signed; the playlist is written next to the output and removed with it
+  async getSourceInput(parent, outputPath) {
+    if (parent.format !== 'hls') {
+      const result = await s3Service.generatePresignedUrl(parent.s3_key, this.urlExpiry);
+      if (!result.success) {
+        throw new Error(`Could not sign the source: ${result.error}`);
+      }
+      return { input: result.url, inputOptions: [], playlistPath: null };
+    }
+
+    const result = await s3Service.generatePresignedPlaylist(parent.s3_key, this.urlExpiry);
+    if (!result.success) {
+      throw new Error(`Could not sign the source playlist: ${result.error}`);
+    }
+    const playlistPath = `${outputPath}.source.m3u8`;
+    await fs.writeFile(playlistPath, result.content);
+    return {
+      input: playlistPath,
+      inputOptions: ['-protocol_whitelist', 'file,http,https,tcp,tls,crypto'],
+      playlistPath
+    };
+  }
+
+  async cut(parent, outputPath, { start, end, options }) {
+    const source = await this.getSourceInput(parent, outputPath);
+
+    try {
+      await new Promise((resolve, reject) => {
+        ffmpeg(source.input)
+          .inputOptions([...source.inputOptions, '-ss', String(start)])
+          .outputOptions(['-t', String(end - start), ...options, '-avoid_negative_ts', 'make_zero', '-y'])
+          .output(outputPath)
+          .on('end', resolve)
+          .on('error', reject)
+          .run();
+      });
+    } finally {
+      if (source.playlistPath) {
+        await fs.rm(source.playlistPath, { force: true });
+      }
+    }
+  }
+}
+
+module.exports = new ClipService();
@@ -0,0 +1,48 @@
+const fs = require('fs').promises;
+const settingsService = require('./settingsService');
+
+class DiskSpaceService {
+  constructor() {
+    this.recordingsPath = process.env.RECORDINGS_PATH || '/tmp/recordings';
+    this.defaultReserveMb = 2048;
+  }
+
+  async getReserveBytes() {
+    const reserveMb = parseInt(await settingsService.getValue('disk_reserve_mb', this.defaultReserveMb));
+    return (reserveMb >= 0 ? reserveMb : this.defaultReserveMb) * 1024 * 1024;
+  }
+
+  async getDiskSpace() {
+    const stats = await fs.statfs(this.recordingsPath);
+    const total = stats.blocks * stats.bsize;
+    // bavail rather than bfree: blocks reserved for root are not usable by the backend
+    const free = stats.bavail * stats.bsize;
+    const reserve = await this.getReserveBytes();
+
+    return {
+      path: this.recordingsPath,
+      total,
+      free,
+      used: total - free,
+      usedPercent: total > 0 ? Math.round(((total - free) / total) * 100) : 0,
+      reserve,
+      low: free < reserve
+    };
+  }
+
+  async ensureSpaceForRecording() {
+    const space = await this.getDiskSpace();
+    if (space.low) {
+      throw new Error(
+        `Not enough free disk space in ${space.path}: ${this.formatMb(space.free)} free, ${this.formatMb(space.reserve)} reserved`
+      );
+    }
+    return space;
+  }
+
+  formatMb(bytes) {
+    return `${Math.round(bytes / 1024 / 1024)} MB`;
+  }
+}
+
+module.exports = new DiskSpaceService();
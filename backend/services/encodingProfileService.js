@@ -0,0 +1,202 @@
+const { v4: uuidv4 } = require('uuid');
+const logger = require('../utils/logger');
+const database = require('../config/database');
+
+// Quality value that keeps the source streams untouched (-c copy)
+const PASS_THROUGH = 'best';
+
+class EncodingProfileService {
+  isPassThrough(quality) {
+    return !quality || quality === PASS_THROUGH;
+  }
+
+  async getProfiles() {
+    try {
+      const result = await database.query('SELECT * FROM encoding_profiles ORDER BY name ASC');
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get encoding profiles:', error.message);
+      throw error;
+    }
+  }
+
+  async getProfileById(id) {
+    try {
+      const result = await database.query('SELECT * FROM encoding_profiles WHERE id = $1', [id]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to get encoding profile by ID:', error.message);
+      throw error;
+    }
+  }
+
+  async getProfileByName(name) {
+    try {
+      const result = await database.query('SELECT * FROM encoding_profiles WHERE name = $1', [name]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to get encoding profile by name:', error.message);
+      throw error;
+    }
+  }
+
+  async createProfile(data) {
+    try {
+      if (data.name === PASS_THROUGH) {
+        throw new Error(`"${PASS_THROUGH}" is reserved for pass-through recording`);
+      }
+
+      const id = uuidv4();
+      const { name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate } = data;
+
+      const result = await database.query(
+        `INSERT INTO encoding_profiles (id, name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [id, name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate]
+      );
+
+      logger.info(`Encoding profile created: ${name}`);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create encoding profile:', error.message);
+      throw error;
+    }
+  }
+
+  async updateProfile(id, data) {
+    try {
+      if (data.name === PASS_THROUGH) {
+        throw new Error(`"${PASS_THROUGH}" is reserved for pass-through recording`);
+      }
+
+      const existing = await this.getProfileById(id);
+      if (!existing) {
+        throw new Error('Encoding profile not found');
+      }
+
+      const { name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate } = data;
+
+      const result = await database.query(
+        `UPDATE encoding_profiles SET
+         name = $2,
+         description = $3,
+         video_codec = $4,
+         resolution = $5,
+         video_bitrate = $6,
+         preset = $7,
+         audio_bitrate = $8,
+         updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [id, name, description, video_codec, resolution, video_bitrate, preset, audio_bitrate]
+      );
+
+      // Keep recordings that reference the old name pointing at this profile
+      if (existing.name !== name) {
+        await database.query(
+          'UPDATE recordings SET quality = $1 WHERE quality = $2',
+          [name, existing.name]
+        );
+      }
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to update encoding profile:', error.message);
+      throw error;
+    }
+  }
+
+  async deleteProfile(id) {
+    try {
+      const profile = await this.getProfileById(id);
+      if (!profile) {
+        throw new Error('Encoding profile not found');
+      }
+
+      // Recordings still to be captured with it, including failed ones with an automatic retry due
+      const inUse = await database.query(
+        `SELECT r.id FROM recordings r
+         WHERE r.quality = $1
+           AND (r.status IN ($2, $3, $4, $5)
+             OR (r.status = $6 AND EXISTS (
+               SELECT 1 FROM recording_attempts a WHERE a.recording_id = r.id AND a.retry_at IS NOT NULL)))`,
+        [profile.name, 'pending', 'recording', 'queued', 'paused', 'failed']
+      );
+      if (inUse.rows.length > 0) {
+        throw new Error(`Encoding profile is used by ${inUse.rows.length} pending, queued, paused, active or retrying recordings`);
+      }
+
+      await database.query('DELETE FROM encoding_profiles WHERE id = $1', [id]);
+
+      logger.info(`Encoding profile deleted: ${profile.name}`);
+      return { success: true, message: 'Encoding profile deleted' };
+    } catch (error) {
+      logger.error('Failed to delete encoding profile:', error.message);
+      throw error;
+    }
+  }
+
+  // FFmpeg output options for a quality value: stream copy for pass-through,
+  // otherwise a re-encode with the named profile
+  async getOutputOptions(quality) {
+    if (this.isPassThrough(quality)) {
+      return { transcode: false, options: ['-c', 'copy'] };
+    }
+
+    const profile = await this.getProfileByName(quality);
+    if (!profile) {
+      throw new Error(`Unknown encoding profile: ${quality}`);
+    }
+
+    if (profile.video_codec === 'copy') {
+      return { transcode: false, options: ['-c', 'copy'] };
+    }
+
+    const options = [
+      '-c:v', profile.video_codec,
+      '-preset', profile.preset,
+      '-b:v', profile.video_bitrate,
+      '-maxrate', profile.video_bitrate,
+      '-bufsize', this.doubleBitrate(profile.video_bitrate),
+      '-c:a', 'aac',
+      '-b:a', profile.audio_bitrate
+    ];
+
+    if (profile.resolution) {
+      const [width, height] = profile.resolution.split('x');
+      options.push('-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`);
+    }
+
+    return { transcode: true, options, profile };
+  }
+
+  // Audio-only (commentary) recordings: pass-through copies the source audio into m4a, opus
+  // is always encoded since live sources carry AAC
+  async getAudioOutputOptions(quality, format) {
+    let bitrate = null;
+    if (!this.isPassThrough(quality)) {
+      const profile = await this.getProfileByName(quality);
+      if (!profile) {
+        throw new Error(`Unknown encoding profile: ${quality}`);
+      }
+      if (profile.video_codec !== 'copy') bitrate = profile.audio_bitrate;
+    }
+
+    if (format === 'opus') {
+      return { transcode: true, options: ['-vn', '-c:a', 'libopus', '-b:a', bitrate || '96k'] };
+    }
+    if (!bitrate) {
+      return { transcode: false, options: ['-vn', '-c:a', 'copy'] };
+    }
+    return { transcode: true, options: ['-vn', '-c:a', 'aac', '-b:a', bitrate] };
+  }
+
+  doubleBitrate(bitrate) {
+    const match = /^(\d+)([kKmM]?)$/.exec(bitrate);
+    if (!match) return bitrate;
+    return `${parseInt(match[1]) * 2}${match[2]}`;
+  }
+}
+
+module.exports = new EncodingProfileService();
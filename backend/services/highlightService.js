@@ -0,0 +1,150 @@
+const ffmpeg = require('fluent-ffmpeg');
+const fs = require('fs').promises;
+const { parseTimemark } = require('../utils/timemark');
+
+// A path as a filter option value inside -vf: escaped once for the option parser (':' and
+// quotes), then again for the filtergraph parser (',', ';' and brackets)
+const escapeFilterValue = (value) => value
+  .replace(/[\\':]/g, character => `\\${character}`)
+  .replace(/[\\'[\],;]/g, character => `\\${character}`);
+
+// Highlights reels: ranges of a recording, optionally each behind a title card, rendered to
+// segments with identical encoding settings so they can be joined without another encode
+class HighlightService {
+  constructor() {
+    this.width = 1280;
+    this.height = 720;
+    this.fps = 25;
+    this.sampleRate = 48000;
+    this.encodeOptions = [
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '21', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '160k', '-ar', String(this.sampleRate), '-ac', '2'
+    ];
+    this.cardFontSize = 56;
+    // Passed explicitly: the image has no fontconfig setup for drawtext to fall back on
+    this.cardFont = process.env.TITLE_CARD_FONT || '/usr/share/fonts/dejavu/DejaVuSans-Bold.ttf';
+  }
+
+  // Ranges around markers (a marker is a point) or around the given ranges, widened by the
+  // padding, kept within the recording and merged where they overlap. Labels are what the
+  // title cards show: the marker note, or its type without one.
+  buildRanges({ markers = [], ranges = [] }, { before, after, duration }) {
+    const points = ranges.length > 0
+      ? ranges.map(range => ({ start: range.start, end: range.end, label: range.title || null }))
+      : markers.map(marker => ({
+        start: marker.offset_seconds,
+        end: marker.offset_seconds,
+        label: marker.note || this.getTypeLabel(marker.type)
+      }));
+
+    const padded = points
+      .map(point => ({
+        start: Math.max(0, point.start - before),
+        end: duration ? Math.min(duration, point.end + after) : point.end + after,
+        labels: point.label ? [point.label] : []
+      }))
+      .filter(range => range.end > range.start)
+      .sort((a, b) => a.start - b.start);
+
+    const merged = [];
+    for (const range of padded) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+        last.labels.push(...range.labels);
+      } else {
+        merged.push(range);
+      }
+    }
+
+    return merged.map(({ start, end, labels }) => ({
+      start: Math.round(start * 10) / 10,
+      end: Math.round(end * 10) / 10,
+      label: labels.length > 0 ? labels.join(' / ') : null
+    }));
+  }
+
+  getTypeLabel(type) {
+    return type === 'var' ? 'VAR' : type.charAt(0).toUpperCase() + type.slice(1);
+  }
+
+  // Length of the finished reel in seconds, used for progress
+  getTotalDuration(ranges, cardDuration) {
+    return ranges.reduce((total, range) => total + (range.end - range.start) + (range.label ? cardDuration : 0), 0);
+  }
+
+  getVideoFilter() {
+    const { width, height, fps } = this;
+    return `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps}`;
+  }
+
+  // Whether the source has an audio track; title cards always carry one, so segments of a
+  // source without get silence instead, or the joined reel would lose or break its audio
+  probeAudio(source) {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(source.input, source.inputOptions, (err, metadata) => {
+        if (err) return reject(new Error(`Could not probe the source: ${err.message}`));
+        resolve(metadata.streams.some(stream => stream.codec_type === 'audio'));
+      });
+    });
+  }
+
+  // source: { input, inputOptions } from clipService.getSourceInput
+  renderSegment(source, range, outputPath, { hasAudio, onProgress }) {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(source.input)
+        .inputOptions([...source.inputOptions, '-ss', String(range.start)]);
+      if (!hasAudio) {
+        command.input(`anullsrc=r=${this.sampleRate}:cl=stereo`).inputFormat('lavfi');
+      }
+
+      command
+        .outputOptions([
+          '-map', '0:v:0',
+          '-map', hasAudio ? '0:a:0' : '1:a:0',
+          '-t', String(range.end - range.start),
+          '-vf', this.getVideoFilter(),
+          ...this.encodeOptions,
+          '-y'
+        ])
+        .output(outputPath)
+        .on('progress', progress => onProgress(parseTimemark(progress.timemark)))
+        .on('end', resolve)
+        .on('error', reject)
+        .run();
+    });
+  }
+
+  // Black card with the text centred, and silence so the audio track runs through the reel.
+  // The text goes through a file so drawtext does not need it escaped.
+  async renderTitleCard(text, duration, outputPath) {
+    const textPath = `${outputPath}.txt`;
+    await fs.writeFile(textPath, text);
+
+    try {
+      await new Promise((resolve, reject) => {
+        ffmpeg()
+          .input(`color=c=black:s=${this.width}x${this.height}:r=${this.fps}:d=${duration}`)
+          .inputFormat('lavfi')
+          .input(`anullsrc=r=${this.sampleRate}:cl=stereo`)
+          .inputFormat('lavfi')
+          .outputOptions([
+            '-t', String(duration),
+            '-vf', `drawtext=fontfile=${escapeFilterValue(this.cardFont)}:textfile=${escapeFilterValue(textPath)}:` +
+              `fontcolor=white:fontsize=${this.cardFontSize}:x=(w-text_w)/2:y=(h-text_h)/2`,
+            ...this.encodeOptions,
+            '-y'
+          ])
+          .output(outputPath)
+          .on('end', resolve)
+          .on('error', reject)
+          .run();
+      });
+    } finally {
+      await fs.rm(textPath, { force: true });
+    }
+  }
+}
+
+module.exports = new HighlightService();
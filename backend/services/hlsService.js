@@ -0,0 +1,168 @@
+const path = require('path');
+const fs = require('fs').promises;
+const logger = require('../utils/logger');
+const s3Service = require('./s3Service');
+
+class HlsService {
+  constructor() {
+    this.playlistName = 'index.m3u8';
+    this.segmentDuration = parseInt(process.env.HLS_SEGMENT_DURATION) || 6; // seconds
+    this.uploadInterval = parseInt(process.env.HLS_UPLOAD_INTERVAL) || 30000; // 30 seconds
+  }
+
+  // FFmpeg output options for a segmented capture into outputDir
+  getOutputOptions(outputDir) {
+    return [
+      '-f', 'hls',
+      '-hls_time', this.segmentDuration.toString(),
+      '-hls_list_size', '0', // Keep every segment in the manifest
+      '-hls_playlist_type', 'event',
+      '-hls_segment_filename', path.join(outputDir, 'segment_%05d.ts'),
+      // Continue an existing manifest instead of overwriting it when capture restarts
+      '-hls_flags', 'append_list+discont_start+independent_segments'
+    ];
+  }
+
+  getPlaylistPath(outputDir) {
+    return path.join(outputDir, this.playlistName);
+  }
+
+  getS3Prefix(recordingId) {
+    return `recordings/${recordingId}`;
+  }
+
+  parsePlaylist(content) {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const segments = [];
+    let pendingDuration = null;
+
+    for (const line of lines) {
+      if (line.startsWith('#EXTINF:')) {
+        pendingDuration = parseFloat(line.substring(8)) || 0;
+      } else if (line && !line.startsWith('#')) {
+        segments.push({ uri: line, duration: pendingDuration || 0 });
+        pendingDuration = null;
+      }
+    }
+
+    return {
+      segments,
+      duration: segments.reduce((total, segment) => total + segment.duration, 0),
+      ended: lines.includes('#EXT-X-ENDLIST')
+    };
+  }
+
+  async readPlaylist(outputDir) {
+    try {
+      const content = await fs.readFile(this.getPlaylistPath(outputDir), 'utf8');
+      return this.parsePlaylist(content);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return { segments: [], duration: 0, ended: false };
+      }
+      throw error;
+    }
+  }
+
+  // Upload segments that are listed in the local manifest but not yet in S3,
+  // then the manifest itself so the stored copy never references missing segments.
+  // checksums: SHA-256 per file name, stored with the objects once known
+  async syncToS3(outputDir, s3Prefix, uploadedSegments = new Set(), checksums = {}) {
+    const playlist = await this.readPlaylist(outputDir);
+    if (playlist.segments.length === 0) {
+      return { success: true, uploaded: 0, playlist };
+    }
+
+    let uploaded = 0;
+    for (const segment of playlist.segments) {
+      if (uploadedSegments.has(segment.uri)) continue;
+
+      const result = await s3Service.uploadFile(
+        path.join(outputDir, segment.uri),
+        `${s3Prefix}/${segment.uri}`,
+        { metadata: this.getChecksumMetadata(checksums, segment.uri) }
+      );
+      if (!result.success) {
+        return { success: false, error: result.error, uploaded, playlist };
+      }
+
+      uploadedSegments.add(segment.uri);
+      uploaded++;
+    }
+
+    const playlistResult = await s3Service.uploadFile(
+      this.getPlaylistPath(outputDir),
+      `${s3Prefix}/${this.playlistName}`,
+      { metadata: this.getChecksumMetadata(checksums, this.playlistName) }
+    );
+    if (!playlistResult.success) {
+      return { success: false, error: playlistResult.error, uploaded, playlist };
+    }
+
+    if (uploaded > 0) {
+      logger.debug(`Synced ${uploaded} HLS segments to ${s3Prefix}`);
+    }
+
+    return {
+      success: true,
+      uploaded,
+      playlist,
+      key: playlistResult.key,
+      url: playlistResult.url
+    };
+  }
+
+  // Periodically push finished segments while the capture is still running
+  startSync(outputDir, s3Prefix) {
+    const uploadedSegments = new Set();
+    let syncing = false;
+
+    const timer = setInterval(async () => {
+      if (syncing) return;
+      syncing = true;
+      try {
+        const result = await this.syncToS3(outputDir, s3Prefix, uploadedSegments);
+        if (!result.success) {
+          logger.warn(`HLS sync failed for ${s3Prefix}: ${result.error}`);
+        }
+      } catch (error) {
+        logger.warn(`HLS sync error for ${s3Prefix}: ${error.message}`);
+      } finally {
+        syncing = false;
+      }
+    }, this.uploadInterval);
+
+    return { timer, uploadedSegments };
+  }
+
+  stopSync(sync) {
+    if (sync && sync.timer) {
+      clearInterval(sync.timer);
+    }
+  }
+
+  getChecksumMetadata(checksums, name) {
+    return checksums[name] ? { sha256: checksums[name] } : {};
+  }
+
+  // Mark the manifest as complete so players stop polling for new segments
+  async finalizePlaylist(outputDir) {
+    const playlistPath = this.getPlaylistPath(outputDir);
+    const content = await fs.readFile(playlistPath, 'utf8');
+    if (!content.includes('#EXT-X-ENDLIST')) {
+      await fs.writeFile(playlistPath, `${content.trimEnd()}\n#EXT-X-ENDLIST\n`);
+    }
+  }
+
+  async getDirectorySize(outputDir) {
+    const entries = await fs.readdir(outputDir);
+    let total = 0;
+    for (const entry of entries) {
+      const stats = await fs.stat(path.join(outputDir, entry));
+      if (stats.isFile()) total += stats.size;
+    }
+    return total;
+  }
+}
+
+module.exports = new HlsService();
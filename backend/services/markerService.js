@@ -0,0 +1,112 @@
+const { v4: uuidv4 } = require('uuid');
+const moment = require('moment');
+const logger = require('../utils/logger');
+const database = require('../config/database');
+const recordingService = require('./recordingService');
+
+class MarkerService {
+  async getMarkers(recordingId) {
+    try {
+      const result = await database.query(
+        'SELECT * FROM recording_markers WHERE recording_id = $1 ORDER BY offset_seconds ASC',
+        [recordingId]
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get markers:', error.message);
+      throw error;
+    }
+  }
+
+  async createMarker(recording, { type, note = null, offset }) {
+    try {
+      const offsetSeconds = offset !== undefined ? offset : this.getLiveOffset(recording);
+
+      const result = await database.query(
+        `INSERT INTO recording_markers (id, recording_id, type, note, offset_seconds)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [uuidv4(), recording.id, type, note || null, offsetSeconds]
+      );
+
+      logger.info(`Marker ${type} added to ${recording.id} at ${offsetSeconds}s`);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create marker:', error.message);
+      throw error;
+    }
+  }
+
+  async deleteMarker(recordingId, markerId) {
+    try {
+      const result = await database.query(
+        'DELETE FROM recording_markers WHERE id = $1 AND recording_id = $2 RETURNING *',
+        [markerId, recordingId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to delete marker:', error.message);
+      throw error;
+    }
+  }
+
+  // Candidate highlight found by highlight detection: accepting it turns it into a marker,
+  // rejecting it keeps it out of later runs. Returns the candidate (and the marker), or null
+  // when there is no such candidate.
+  async reviewCandidate(recording, candidateId, { accept, type = 'highlight', note = null }) {
+    let review = null;
+
+    // Checked and stored in one metadata write, so neither a second review of the same
+    // candidate nor a detection run writing at the same time can undo the other
+    await recordingService.updateMetadata(recording.id, async ({ analysis }) => {
+      const candidate = analysis && (analysis.candidates || []).find(entry => entry.id === candidateId);
+      if (!candidate) return null;
+      if (candidate.status !== 'pending') {
+        throw new Error(`Candidate has already been ${candidate.status}`);
+      }
+
+      let marker = null;
+      if (accept) {
+        marker = await this.createMarker(recording, { type, note, offset: candidate.offset_seconds });
+        Object.assign(candidate, { status: 'accepted', marker_id: marker.id });
+      } else {
+        candidate.status = 'rejected';
+      }
+      candidate.reviewed_at = new Date().toISOString();
+
+      review = { candidate, marker };
+      return { analysis };
+    });
+
+    return review;
+  }
+
+  // Position in the final video: wall-clock time since started_at minus the time spent
+  // paused and the gaps between capture parts (failovers, stall restarts, URL refreshes and
+  // backend restarts), none of which are in the joined file. It can still run a few seconds
+  // ahead: the time FFmpeg takes to connect at the start, and a gap still under way, are not
+  // known until the capture is producing again.
+  getLiveOffset(recording) {
+    if (!['recording', 'paused'].includes(recording.status) || !recording.started_at) {
+      throw new Error('An offset is required unless the recording is in progress');
+    }
+
+    const now = Date.now();
+    const startedAt = this.parseTimestamp(recording.started_at);
+    const { pauses = [], capture_gaps: gaps = [] } = recordingService.parseMetadata(recording.metadata);
+    const paused = pauses.reduce((total, pause) => {
+      const end = pause.resumedAt ? new Date(pause.resumedAt).getTime() : now;
+      return total + Math.max(0, end - new Date(pause.pausedAt).getTime());
+    }, 0);
+    const missing = gaps.reduce((total, gap) => total + Math.max(0, new Date(gap.to) - new Date(gap.from)), 0);
+
+    return Math.max(0, Math.round((now - startedAt - paused - missing) / 100) / 10);
+  }
+
+  // SQLite hands back CURRENT_TIMESTAMP as a UTC string without a zone
+  parseTimestamp(value) {
+    return value instanceof Date ? value.getTime() : moment.utc(value).valueOf();
+  }
+}
+
+module.exports = new MarkerService();
@@ -0,0 +1,28 @@
+const axios = require('axios');
+const logger = require('../utils/logger');
+
+// Operational alerts. Always logged; also POSTed as JSON when a webhook is configured.
+class NotificationService {
+  constructor() {
+    this.webhookUrl = process.env.NOTIFICATION_WEBHOOK_URL;
+  }
+
+  async notify(event, message, data = {}) {
+    logger.warn(`Notification [${event}]: ${message}`);
+
+    if (!this.webhookUrl) return;
+
+    try {
+      await axios.post(this.webhookUrl, {
+        event,
+        message,
+        data,
+        sentAt: new Date().toISOString()
+      }, { timeout: 10000 });
+    } catch (error) {
+      logger.error(`Failed to send ${event} notification:`, error.message);
+    }
+  }
+}
+
+module.exports = new NotificationService();
@@ -0,0 +1,71 @@
+const ffmpeg = require('fluent-ffmpeg');
+const path = require('path');
+const fs = require('fs').promises;
+
+// Post-processing of a finished capture, run stage by stage by the recording service. The
+// state of every stage is kept in metadata.pipeline. A failed required stage halts the
+// pipeline and keeps the local output, so that stage can be retried without capturing
+// again; the other stages only cost what they produce.
+class PipelineService {
+  constructor() {
+    this.stages = [
+      { name: 'probe', label: 'Probe', required: true },
+      { name: 'faststart', label: 'Faststart remux', required: false },
+      { name: 'thumbnails', label: 'Thumbnails', required: false },
+      { name: 'checksum', label: 'Checksum', required: true },
+      { name: 'upload', label: 'Upload', required: true },
+      { name: 'analysis', label: 'Highlight detection', required: false },
+      { name: 'abr', label: 'ABR ladder', required: false },
+      { name: 'cleanup', label: 'Local cleanup', required: true }
+    ];
+    // Containers that keep their index (moov atom) at the end unless told otherwise
+    this.faststartFormats = ['.mp4', '.mov', '.m4a'];
+  }
+
+  getStage(name) {
+    return this.stages.find(stage => stage.name === name) || null;
+  }
+
+  // output: { path, dir } of the local capture; dir is only set for HLS
+  createState(output) {
+    return {
+      output,
+      stages: this.stages.map(({ name, label }) => ({ name, label, status: 'pending' }))
+    };
+  }
+
+  // Where a halted or interrupted pipeline carries on: the first stage that never finished
+  getResumeStage(pipeline) {
+    const entry = pipeline.stages.find(stage => ['pending', 'running'].includes(stage.status) ||
+      (stage.status === 'failed' && this.getStage(stage.name).required));
+    return entry ? entry.name : null;
+  }
+
+  supportsFaststart(filePath) {
+    return this.faststartFormats.includes(path.extname(filePath).toLowerCase());
+  }
+
+  // Move the index to the front so playback can start before the whole file has downloaded.
+  // Fragmented captures come out of it as a regular file.
+  // The remux goes to a temporary file that only replaces the original once it is complete.
+  async remuxFaststart(filePath) {
+    const tempPath = filePath.replace(/(\.[^./]+)$/, '_faststart$1');
+
+    try {
+      await new Promise((resolve, reject) => {
+        ffmpeg(filePath)
+          .outputOptions(['-map', '0', '-c', 'copy', '-movflags', '+faststart', '-y'])
+          .output(tempPath)
+          .on('end', resolve)
+          .on('error', reject)
+          .run();
+      });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
+
+module.exports = new PipelineService();
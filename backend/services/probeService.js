@@ -0,0 +1,154 @@
+const { spawn } = require('child_process');
+const logger = require('../utils/logger');
+const requestProfileService = require('./requestProfileService');
+const streamResolverService = require('./streamResolverService');
+
+class ProbeService {
+  constructor() {
+    this.ffprobePath = process.env.FFPROBE_PATH || 'ffprobe';
+    this.defaultTimeout = 15; // seconds
+  }
+
+  // Inspect a candidate stream before a recording is created for it
+  async probeStream({ stream_url, source_id = null, request_profile = {}, timeout = this.defaultTimeout }) {
+    const profile = await requestProfileService.resolveProfile({ sourceId: source_id, profile: request_profile });
+    // Probe what the recording would capture, not the page the user pasted
+    const resolution = await streamResolverService.resolve(stream_url, { profile });
+    const inputProfile = requestProfileService.mergeProfiles(profile, resolution.profile, request_profile);
+
+    logger.info(`Probing stream: ${stream_url}`);
+    const probe = await this.inspect(resolution.url, inputProfile, { inputFormat: resolution.inputFormat, timeout });
+    return {
+      ...this.summarize(stream_url, probe),
+      resolver: resolution.resolver,
+      resolvedUrl: resolution.url,
+      expiresAt: resolution.expiresAt
+    };
+  }
+
+  // Raw ffprobe output for an already resolved media URL
+  async inspect(url, profile, { inputFormat = null, timeout = this.defaultTimeout } = {}) {
+    const args = [
+      '-v', 'error',
+      '-of', 'json',
+      '-show_format',
+      '-show_streams',
+      '-show_programs',
+      ...requestProfileService.getFfmpegInputOptions(profile),
+      '-rw_timeout', String(timeout * 1000000),
+      ...(inputFormat ? ['-f', inputFormat] : []),
+      url
+    ];
+
+    return JSON.parse(await this.runFfprobe(args, timeout * 1000));
+  }
+
+  // ffprobe has no overall deadline for slow HLS masters, so the process is killed after timeoutMs
+  runFfprobe(args, timeoutMs) {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.ffprobePath, args);
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+
+      child.stdout.on('data', (data) => { stdout += data; });
+      child.stderr.on('data', (data) => { stderr += data; });
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Could not run ffprobe: ${error.message}`));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`Stream did not respond within ${Math.round(timeoutMs / 1000)} seconds`));
+        } else if (code !== 0) {
+          reject(new Error(stderr.trim().split('\n').pop() || `ffprobe exited with code ${code}`));
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+  }
+
+  summarize(streamUrl, probe) {
+    const streams = probe.streams || [];
+    const format = probe.format || {};
+    const videoStream = streams.find(stream => stream.codec_type === 'video');
+    const audioStreams = streams.filter(stream => stream.codec_type === 'audio');
+
+    if (!videoStream && audioStreams.length === 0) {
+      throw new Error('No audio or video streams found');
+    }
+
+    const audio = audioStreams.map(stream => ({
+      index: stream.index,
+      codec: stream.codec_name,
+      channels: stream.channels,
+      sampleRate: parseInt(stream.sample_rate) || null,
+      bitrate: parseInt(stream.bit_rate) || null,
+      language: (stream.tags && stream.tags.language) || null
+    }));
+
+    return {
+      url: streamUrl,
+      container: format.format_name,
+      duration: parseFloat(format.duration) || null, // null for live streams
+      bitrate: parseInt(format.bit_rate) || null,
+      video: videoStream ? {
+        codec: videoStream.codec_name,
+        profile: videoStream.profile || null,
+        width: videoStream.width,
+        height: videoStream.height,
+        resolution: `${videoStream.width}x${videoStream.height}`,
+        frameRate: this.parseFrameRate(videoStream.avg_frame_rate || videoStream.r_frame_rate),
+        bitrate: parseInt(videoStream.bit_rate) || null
+      } : null,
+      audio,
+      audioLanguages: [...new Set(audio.map(track => track.language).filter(Boolean))],
+      subtitles: streams
+        .filter(stream => stream.codec_type === 'subtitle')
+        .map(stream => ({
+          index: stream.index,
+          codec: stream.codec_name,
+          language: (stream.tags && stream.tags.language) || null
+        })),
+      closedCaptions: !!(videoStream && videoStream.closed_captions), // CEA-608/708 inside the video
+      variants: this.getVariants(probe.programs || []),
+      probedAt: new Date().toISOString()
+    };
+  }
+
+  // HLS masters show up as one program per variant playlist
+  getVariants(programs) {
+    return programs
+      .filter(program => program.tags && program.tags.variant_bitrate)
+      .map(program => {
+        const video = (program.streams || []).find(stream => stream.codec_type === 'video');
+        const audio = (program.streams || []).find(stream => stream.codec_type === 'audio');
+        return {
+          programId: program.program_id, // selects the variant with -map 0:p:<programId>
+          bandwidth: parseInt(program.tags.variant_bitrate),
+          resolution: video ? `${video.width}x${video.height}` : null,
+          videoCodec: video ? video.codec_name : null,
+          audioCodec: audio ? audio.codec_name : null
+        };
+      })
+      .sort((a, b) => b.bandwidth - a.bandwidth);
+  }
+
+  parseFrameRate(rate) {
+    if (!rate || rate === '0/0') return null;
+    const [numerator, denominator] = rate.split('/').map(Number);
+    if (!denominator) return numerator || null;
+    return Math.round((numerator / denominator) * 100) / 100;
+  }
+}
+
+module.exports = new ProbeService();
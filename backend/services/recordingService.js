@@ -1,4 +1,5 @@
 const ffmpeg = require('fluent-ffmpeg');
+const os = require('os');
 const path = require('path');
 const fs = require('fs').promises;
 const { v4: uuidv4 } = require('uuid');
@@ -7,12 +8,64 @@ const moment = require('moment');
 const logger = require('../utils/logger');
 const database = require('../config/database');
 const s3Service = require('./s3Service');
+const hlsService = require('./hlsService');
+const encodingProfileService = require('./encodingProfileService');
+const abrService = require('./abrService');
+const requestProfileService = require('./requestProfileService');
+const settingsService = require('./settingsService');
+const diskSpaceService = require('./diskSpaceService');
+const notificationService = require('./notificationService');
+const streamResolverService = require('./streamResolverService');
+const probeService = require('./probeService');
+const subtitleService = require('./subtitleService');
+const pipelineService = require('./pipelineService');
+const thumbnailService = require('./thumbnailService');
+const checksumService = require('./checksumService');
+const clipService = require('./clipService');
+const highlightService = require('./highlightService');
+const analysisService = require('./analysisService');
+const boundaryService = require('./boundaryService');
+
+// Formats that record the audio tracks only (commentary), mapped to their FFmpeg muxer
+const AUDIO_FORMATS = { m4a: 'ipod', opus: 'opus' };
 
 class RecordingService {
   constructor() {
     this.activeRecordings = new Map();
+    this.pausedRecordings = new Map();
+    // Launched but not yet reported started by FFmpeg; these hold a slot too
+    this.startingRecordings = new Set();
+    this.defaultMaxConcurrent = 3;
+    // Queued starts are taken highest priority first, then oldest first
+    this.queuePriorities = { scheduled: 10, manual: 0 };
+    this.queueDrain = Promise.resolve();
+    this.diskCheckInterval = 30000; // ms between free space checks while capturing
+    this.diskMonitor = null;
+    // Stall watchdog: a capture whose output stops growing is restarted into a new part
+    this.watchdogInterval = 10000;
+    this.defaultStallTimeout = 60; // seconds
+    this.maxStallRestarts = 10; // after this many the source is treated as failed
+    this.watchdog = null;
+    // FFmpeg processes replaced or shut down on purpose; their exit events are not handled
+    this.abandonedCommands = new WeakSet();
+    this.terminations = new WeakMap(); // command -> promise of its exit
+    // Signed stream URLs are re-resolved this long before they expire
+    this.resolutionRefreshMargin = 5 * 60 * 1000;
+    this.minResolutionRefreshDelay = 30000;
+    // Failed captures are started again after an exponential backoff (seconds), see getRetryPolicy
+    this.defaultRetryPolicy = { maxAttempts: 3, backoff: 30, maxBackoff: 600 };
+    this.retryTimers = new Map(); // recordingId -> timeout of its pending automatic retry
+    this.runningPipelines = new Set(); // recordings whose post-processing is under way
+    this.runningRenders = new Set(); // clips, highlights and match-only videos being rendered
+    // Stored recordings are re-verified against their checksum this often (hours)
+    this.defaultIntegrityCheckInterval = 168;
+    this.integrityBatchSize = 5; // recordings re-verified per run
+    this.runningAnalyses = new Set(); // recordings being searched for candidate highlights
+    this.metadataWrites = new Map(); // recordingId -> promise of its latest metadata write
     this.recordingsPath = process.env.RECORDINGS_PATH || '/tmp/recordings';
     this.maxDuration = parseInt(process.env.MAX_RECORDING_DURATION) || 7200000; // 2 hours
+    this.telemetryInterval = 5000; // ms between stored progress samples
+    this.telemetryWindow = 60; // samples kept per recording (5 minutes)
     
     // Ensure recordings directory exists
     this.ensureRecordingsDirectory();
@@ -32,33 +85,117 @@ class RecordingService {
     }
   }
 
-  async startRecording(recordingData) {
-    const { id, title, stream_url, quality = 'best', format = 'mp4' } = recordingData;
-    
+  async startRecording(recordingData, options = {}) {
+    const { id, title, quality = 'best', format = 'mp4' } = recordingData;
+    // previousParts: files captured before an interruption, joined on completion
+    // outputDir: existing HLS directory to keep appending to
+    // sourceIndex: position in the primary + backup URL list to capture from
+    // telemetry: progress history carried over from the previous part
+    // priority: queue priority ('scheduled' or 'manual') when no slot is free
+    // resolution: already resolved input for this source, skips resolving it again
+    // gapFrom: when the previous part stopped producing (ms), recorded as a capture gap
+    const { resume = false, previousParts = [], sourceIndex = 0, priority = 'manual' } = options;
+    const telemetry = options.telemetry || this.createTelemetry();
+    // Read before the checks, so nothing awaits between taking a slot and checking for one
+    const maxConcurrent = resume ? null : await this.getMaxConcurrent();
+
+    // Checked outside the try below, which would fail the capture that is already under way
+    if (this.activeRecordings.has(id) || this.startingRecordings.has(id)) {
+      throw new Error('Recording is already active');
+    }
+
+    // Resumed captures already own a slot
+    if (!resume && this.getRunningCount() >= maxConcurrent) {
+      return this.enqueueRecording(id, priority);
+    }
+    this.startingRecordings.add(id);
+
     try {
-      // Check if recording is already active
-      if (this.activeRecordings.has(id)) {
-        throw new Error('Recording is already active');
+      if (!resume) {
+        this.clearRetryTimer(id);
+        await this.startAttempt(id);
+        await diskSpaceService.ensureSpaceForRecording();
       }
+      this.startDiskMonitor();
+      this.startWatchdog();
 
-      // Update recording status to recording
-      await database.query(
-        'UPDATE recordings SET status = $1, started_at = CURRENT_TIMESTAMP WHERE id = $2',
-        ['recording', id]
-      );
+      // Update recording status to recording (a resumed capture, or a retry that carries on
+      // from earlier output, keeps its original start time)
+      if (resume || previousParts.length > 0 || options.outputDir) {
+        await database.query(
+          'UPDATE recordings SET status = $1 WHERE id = $2',
+          ['recording', id]
+        );
+      } else {
+        await database.query(
+          'UPDATE recordings SET status = $1, started_at = CURRENT_TIMESTAMP WHERE id = $2',
+          ['recording', id]
+        );
+      }
+
+      const isHls = format === 'hls';
+      const baseName = `${id}_${moment().format('YYYYMMDD_HHmmss')}`;
+      // HLS captures write a directory of segments plus a manifest instead of a single file
+      const outputDir = isHls ? (options.outputDir || path.join(this.recordingsPath, baseName)) : null;
+      const filePath = isHls
+        ? hlsService.getPlaylistPath(outputDir)
+        : path.join(this.recordingsPath, `${baseName}.${format}`);
 
-      const filename = `${id}_${moment().format('YYYYMMDD_HHmmss')}.${format}`;
-      const filePath = path.join(this.recordingsPath, filename);
+      if (isHls) {
+        await fs.mkdir(outputDir, { recursive: true });
+      }
+
+      const sources = this.getSourceUrls(recordingData);
+      const sourceUrl = sources[sourceIndex];
 
       logger.info(`Starting recording: ${title} (${id})`);
-      logger.info(`Stream URL: ${stream_url}`);
+      logger.info(`Stream URL: ${sourceUrl}${sourceIndex > 0 ? ` (backup ${sourceIndex} of ${sources.length - 1})` : ''}`);
       logger.info(`Output: ${filePath}`);
 
+      // Resolve the encoding profile before touching FFmpeg so an unknown profile fails fast
+      const audioOnly = this.isAudioOnly(format);
+      const encoding = audioOnly
+        ? await encodingProfileService.getAudioOutputOptions(quality, format)
+        : await encodingProfileService.getOutputOptions(quality);
+      if (encoding.transcode) {
+        logger.info(`Transcoding with profile: ${quality}`);
+      }
+
+      const { request_profile: requestProfile, stream_source: sourceId } = this.parseMetadata(recordingData.metadata);
+      const profile = await requestProfileService.resolveProfile({ sourceId, profile: requestProfile });
+
+      // Page and watch URLs are resolved on every start, so each part gets a freshly signed URL.
+      // Headers the resolver requires override the defaults but not the recording's own profile.
+      const resolution = options.resolution || await streamResolverService.resolve(sourceUrl, { profile });
+      const inputProfile = requestProfileService.mergeProfiles(profile, resolution.profile, requestProfile);
+      if (resolution.url !== sourceUrl) {
+        logger.info(`Resolved via ${resolution.resolver}${resolution.expiresAt ? `, expires ${resolution.expiresAt}` : ''}`);
+      }
+      await this.updateMetadata(id, {
+        resolution: {
+          resolver: resolution.resolver,
+          chain: resolution.chain,
+          live: resolution.live,
+          expiresAt: resolution.expiresAt,
+          resolvedAt: resolution.resolvedAt
+        }
+      }).catch(error => logger.warn(`Could not record resolution for ${id}: ${error.message}`));
+
+      // Probed at most once per start, and only for options that need the stream layout
+      let inputProbe = null;
+      const inspectInput = () => {
+        inputProbe = inputProbe || probeService.inspect(resolution.url, inputProfile, { inputFormat: resolution.inputFormat })
+          .catch((error) => {
+            logger.warn(`Could not inspect the input of ${id}: ${error.message}`);
+            return null;
+          });
+        return inputProbe;
+      };
+
       // Configure FFmpeg command
-      const command = ffmpeg(stream_url)
+      const command = ffmpeg(resolution.url)
         .inputOptions([
-          '-user_agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          '-headers', 'Referer: https://example.com',
+          ...requestProfileService.getFfmpegInputOptions(inputProfile),
           '-timeout', '30000000', // 30 second timeout
           '-reconnect', '1',
           '-reconnect_at_eof', '1',
@@ -66,20 +203,38 @@ class RecordingService {
           '-reconnect_delay_max', '2'
         ])
         .outputOptions([
-          '-c', 'copy', // Copy streams without re-encoding
-          '-bsf:a', 'aac_adtstoasc', // Fix AAC stream
-          '-f', format,
-          '-y' // Overwrite output file
+          ...await this.getStreamMaps(recordingData, inspectInput),
+          ...encoding.options
         ])
         .output(filePath);
 
-      // Set quality-specific options
-      if (quality === 'best') {
-        command.outputOptions(['-q:v', '1']);
-      } else if (quality === 'good') {
-        command.outputOptions(['-q:v', '3']);
-      } else if (quality === 'medium') {
-        command.outputOptions(['-q:v', '5']);
+      if (resolution.inputFormat) {
+        command.inputFormat(resolution.inputFormat);
+      }
+
+      if (isHls) {
+        command.outputOptions(hlsService.getOutputOptions(outputDir));
+      } else {
+        if (!encoding.transcode) {
+          command.outputOptions(['-bsf:a', 'aac_adtstoasc']); // Fix AAC stream
+        }
+        command.outputOptions([
+          ...this.getFragmentOptions(format),
+          '-f', AUDIO_FORMATS[format] || format,
+          '-y' // Overwrite output file
+        ]);
+      }
+
+      if (this.parseMetadata(recordingData.metadata).capture_subtitles && !audioOnly) {
+        const probe = await inspectInput();
+        if (probe) {
+          await this.addSubtitleOutputs(id, command, {
+            probe,
+            basePath: path.join(this.recordingsPath, baseName),
+            previousParts,
+            outputDir
+          });
+        }
       }
 
       // Set up event handlers
@@ -88,30 +243,61 @@ class RecordingService {
       command
         .on('start', (commandLine) => {
           logger.info(`FFmpeg command: ${commandLine}`);
-          this.activeRecordings.set(id, {
+          this.startingRecordings.delete(id);
+          const active = {
             command,
             filePath,
+            outputDir,
             startTime,
-            title
-          });
+            title,
+            recordingData,
+            sources,
+            sourceIndex,
+            resolution,
+            priority,
+            parts: previousParts,
+            telemetry,
+            watchdog: { outputSize: 0, timemark: null, activeAt: Date.now(), stalled: false },
+            // Push finished segments while recording so a crash only loses the tail
+            hlsSync: isHls ? hlsService.startSync(outputDir, hlsService.getS3Prefix(id)) : null
+          };
+          this.activeRecordings.set(id, active);
+          this.scheduleResolutionRefresh(id, active);
+          if (options.gapFrom) this.recordCaptureGap(id, options.gapFrom);
         })
         .on('progress', (progress) => {
           const duration = Date.now() - startTime;
           logger.debug(`Recording progress for ${id}: ${JSON.stringify(progress)}`);
+          this.recordProgress(telemetry, progress);
           
           // Check max duration
           if (duration > this.maxDuration) {
             logger.warn(`Recording ${id} exceeded max duration, stopping`);
-            this.stopRecording(id);
+            this.stopRecording(id, { reason: 'max_duration' }).catch(() => {});
           }
         })
+        .on('stderr', (line) => {
+          this.recordFrameCounters(telemetry, line);
+        })
         .on('error', async (err) => {
+          if (this.abandonedCommands.has(command)) return;
           logger.error(`Recording error for ${id}:`, err.message);
-          await this.handleRecordingError(id, err.message);
+          this.startingRecordings.delete(id);
+          // A recording removed from activeRecordings was stopped on purpose
+          if (this.activeRecordings.has(id)) {
+            await this.handleSourceFailure(id, err.message);
+          } else {
+            await this.handleRecordingError(id, err.message, { retry: true });
+          }
         })
         .on('end', async () => {
+          if (this.abandonedCommands.has(command)) return;
           logger.info(`Recording completed for ${id}`);
-          await this.handleRecordingComplete(id, filePath);
+          if (isHls) {
+            await this.handleHlsRecordingComplete(id, outputDir);
+          } else {
+            await this.handleRecordingComplete(id, filePath);
+          }
         });
 
       // Start the recording
@@ -121,33 +307,68 @@ class RecordingService {
 
     } catch (error) {
       logger.error(`Failed to start recording ${id}:`, error.message);
-      await this.handleRecordingError(id, error.message);
+      this.startingRecordings.delete(id);
+      await this.handleRecordingError(id, error.message, { retry: true });
       throw error;
     }
   }
 
-  async stopRecording(recordingId) {
+  // reason: why capture ended (manual, scheduled_end, max_duration, low_disk_space); every
+  // reason but scheduled_end marks the recording as stopped early
+  // finalize: false discards the output instead of uploading it (used when deleting)
+  async stopRecording(recordingId, { reason = 'manual', finalize = true } = {}) {
     try {
+      if (this.pausedRecordings.has(recordingId)) {
+        return await this.stopPausedRecording(recordingId, { reason, finalize });
+      }
+
       const recording = this.activeRecordings.get(recordingId);
       if (!recording) {
+        // A queued recording is simply taken off the queue
+        if (await this.dequeueRecording(recordingId)) {
+          await database.query(
+            'UPDATE recordings SET status = $1 WHERE id = $2',
+            ['stopped', recordingId]
+          );
+          return { success: true, message: 'Queued recording cancelled' };
+        }
+        // A failed recording waiting for its automatic retry is simply not retried
+        if (await this.cancelRetry(recordingId)) {
+          return { success: true, message: 'Pending retry cancelled' };
+        }
         throw new Error('Recording not found or not active');
       }
 
-      logger.info(`Stopping recording: ${recordingId}`);
-      
-      // Kill the FFmpeg process
-      recording.command.kill('SIGTERM');
-      
-      // Remove from active recordings
-      this.activeRecordings.delete(recordingId);
+      if (recording.stopping) {
+        return { success: true, message: 'Recording is already stopping' };
+      }
+      recording.stopping = true;
 
-      // Update database status
-      await database.query(
-        'UPDATE recordings SET status = $1 WHERE id = $2',
-        ['stopped', recordingId]
-      );
+      logger.info(`Stopping recording: ${recordingId} (${reason})`);
 
-      return { success: true, message: 'Recording stopped' };
+      // Let FFmpeg write the container trailer before touching the output
+      await this.terminateCommand(recording.command, { quit: true });
+
+      if (!finalize) {
+        hlsService.stopSync(recording.hlsSync);
+        this.activeRecordings.delete(recordingId);
+        await subtitleService.discard(recordingId);
+        await database.query(
+          'UPDATE recordings SET status = $1 WHERE id = $2',
+          ['stopped', recordingId]
+        );
+        this.processQueue();
+        return { success: true, message: 'Recording stopped' };
+      }
+
+      await this.updateMetadata(recordingId, {
+        stopped: { at: new Date().toISOString(), reason, early: reason !== 'scheduled_end' }
+      }).catch(error => logger.warn(`Could not record stop for ${recordingId}: ${error.message}`));
+
+      // Upload can take a while, so finalizing carries on after the caller gets its answer
+      this.finalizeStoppedRecording(recordingId, recording);
+
+      return { success: true, message: 'Recording stopped, finalizing' };
 
     } catch (error) {
       logger.error(`Failed to stop recording ${recordingId}:`, error.message);
@@ -155,178 +376,2309 @@ class RecordingService {
     }
   }
 
-  async handleRecordingComplete(recordingId, filePath) {
+  // Pausing finishes the current part; resuming starts a new one, and the parts are joined on
+  // completion like those of a failover. A paused recording keeps its concurrency slot.
+  async pauseRecording(recordingId) {
+    const recording = this.activeRecordings.get(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found or not active');
+    }
+    if (recording.stopping || recording.restarting || recording.watchdog.stalled) {
+      throw new Error('Recording is being stopped or restarted');
+    }
+
+    logger.info(`Pausing recording: ${recordingId}`);
+    recording.stopping = true; // keeps the watchdog and disk monitor away while FFmpeg finishes
+    await this.terminateCommand(recording.command, { quit: true });
+    if (this.activeRecordings.get(recordingId) !== recording) {
+      throw new Error('Recording ended while pausing');
+    }
+
+    hlsService.stopSync(recording.hlsSync);
+    this.activeRecordings.delete(recordingId);
+
+    const { recordingData, filePath, outputDir } = recording;
+    const parts = [...recording.parts];
+    if (!outputDir && await this.isPlayable({ path: filePath, isDirectory: false })) {
+      parts.push(filePath);
+    }
+
+    const pausedAt = Date.now();
+    this.pausedRecordings.set(recordingId, {
+      recordingData,
+      title: recording.title,
+      startTime: recording.startTime,
+      sources: recording.sources,
+      sourceIndex: recording.sourceIndex,
+      priority: recording.priority,
+      telemetry: recording.telemetry,
+      parts,
+      outputDir,
+      pausedAt
+    });
+
+    await database.query(
+      'UPDATE recordings SET status = $1 WHERE id = $2',
+      ['paused', recordingId]
+    );
     try {
-      // Remove from active recordings
-      this.activeRecordings.delete(recordingId);
+      const { pauses = [] } = await this.getRecordingMetadata(recordingId);
+      await this.updateMetadata(recordingId, {
+        pauses: [...pauses, { pausedAt: new Date(pausedAt).toISOString(), resumedAt: null }]
+      });
+    } catch (error) {
+      logger.warn(`Could not record pause for ${recordingId}: ${error.message}`);
+    }
 
-      // Get file stats
-      const stats = await fs.stat(filePath);
-      const fileSize = stats.size;
+    return { success: true, message: 'Recording paused' };
+  }
 
-      // Get video duration using FFprobe
-      const duration = await this.getVideoDuration(filePath);
+  async resumeRecording(recordingId) {
+    const paused = this.pausedRecordings.get(recordingId);
+    if (!paused) {
+      throw new Error('Recording is not paused');
+    }
 
-      // Upload to S3
-      const s3Result = await s3Service.uploadFile(filePath, `recordings/${path.basename(filePath)}`);
+    logger.info(`Resuming recording: ${recordingId}`);
+    // Started before any await so the slot is never free in between
+    this.pausedRecordings.delete(recordingId);
+    const started = this.startRecording(paused.recordingData, {
+      resume: true,
+      previousParts: paused.parts,
+      outputDir: paused.outputDir,
+      sourceIndex: paused.sourceIndex,
+      priority: paused.priority,
+      telemetry: paused.telemetry
+    });
 
-      // Update database with completion info
-      await database.query(
-        `UPDATE recordings SET 
-         status = $1, 
-         completed_at = CURRENT_TIMESTAMP,
-         file_path = $2,
-         s3_key = $3,
-         s3_url = $4,
-         file_size = $5,
-         duration = $6
-         WHERE id = $7`,
-        ['completed', filePath, s3Result.key, s3Result.url, fileSize, duration, recordingId]
-      );
+    await this.closePauseInterval(recordingId);
+    await started;
 
-      // Clean up local file after successful upload
-      if (s3Result.success) {
-        await fs.unlink(filePath);
-        logger.info(`Local file cleaned up: ${filePath}`);
-      }
+    return { success: true, message: 'Recording resumed' };
+  }
 
-      logger.info(`Recording completed successfully: ${recordingId}`);
+  async closePauseInterval(recordingId) {
+    try {
+      const { pauses = [] } = await this.getRecordingMetadata(recordingId);
+      if (pauses.length === 0 || pauses[pauses.length - 1].resumedAt) return;
 
+      const last = { ...pauses[pauses.length - 1], resumedAt: new Date().toISOString() };
+      await this.updateMetadata(recordingId, { pauses: [...pauses.slice(0, -1), last] });
     } catch (error) {
-      logger.error(`Failed to handle recording completion for ${recordingId}:`, error.message);
-      await this.handleRecordingError(recordingId, error.message);
+      logger.warn(`Could not record resume for ${recordingId}: ${error.message}`);
     }
   }
 
-  async handleRecordingError(recordingId, errorMessage) {
-    try {
-      // Remove from active recordings
-      this.activeRecordings.delete(recordingId);
+  async getRecordingMetadata(recordingId) {
+    const recording = await this.getRecordingById(recordingId);
+    return this.parseMetadata(recording && recording.metadata);
+  }
 
-      // Update database with error
+  // Finish a paused recording from the parts captured before the pause
+  async stopPausedRecording(recordingId, { reason, finalize }) {
+    const paused = this.pausedRecordings.get(recordingId);
+    this.pausedRecordings.delete(recordingId);
+    await this.closePauseInterval(recordingId);
+
+    if (!finalize) {
+      for (const part of paused.parts) {
+        await fs.rm(part, { force: true });
+      }
+      await subtitleService.discard(recordingId);
       await database.query(
-        'UPDATE recordings SET status = $1, error_message = $2 WHERE id = $3',
-        ['failed', errorMessage, recordingId]
+        'UPDATE recordings SET status = $1 WHERE id = $2',
+        ['stopped', recordingId]
       );
+      this.processQueue();
+      return { success: true, message: 'Recording stopped' };
+    }
 
-      logger.error(`Recording failed: ${recordingId} - ${errorMessage}`);
+    await this.updateMetadata(recordingId, {
+      stopped: { at: new Date().toISOString(), reason, early: reason !== 'scheduled_end' }
+    }).catch(error => logger.warn(`Could not record stop for ${recordingId}: ${error.message}`));
 
-    } catch (error) {
-      logger.error(`Failed to handle recording error for ${recordingId}:`, error.message);
-    }
+    this.finalizeStoppedRecording(recordingId, { filePath: null, outputDir: paused.outputDir, parts: paused.parts });
+    return { success: true, message: 'Recording stopped, finalizing' };
   }
 
-  async getVideoDuration(filePath) {
-    return new Promise((resolve) => {
-      ffmpeg.ffprobe(filePath, (err, metadata) => {
-        if (err) {
-          logger.warn(`Could not get video duration: ${err.message}`);
-          resolve(0);
-        } else {
-          const duration = metadata.format.duration || 0;
-          resolve(Math.round(duration));
-        }
-      });
+  // A paused recording outlives a backend restart: its parts are picked up from disk again
+  async restorePausedRecording(recording) {
+    subtitleService.restoreSidecars(recording.id, this.parseMetadata(recording.metadata).subtitle_sidecars);
+    const outputs = [];
+    for (const output of await this.findPartialOutputs(recording.id)) {
+      if (await this.isPlayable(output)) outputs.push(output);
+    }
+
+    const hlsOutput = recording.format === 'hls' ? outputs[outputs.length - 1] : null;
+    this.pausedRecordings.set(recording.id, {
+      recordingData: recording,
+      title: recording.title,
+      startTime: Date.now(),
+      sources: this.getSourceUrls(recording),
+      sourceIndex: 0,
+      priority: 'manual',
+      telemetry: this.createTelemetry(),
+      parts: hlsOutput ? [] : outputs.map(output => output.path),
+      outputDir: hlsOutput ? hlsOutput.path : null,
+      pausedAt: Date.now()
     });
+    logger.info(`Restored paused recording ${recording.id} with ${outputs.length} parts`);
   }
 
-  async getActiveRecordings() {
-    const active = [];
-    for (const [id, recording] of this.activeRecordings) {
-      active.push({
-        id,
-        title: recording.title,
-        startTime: recording.startTime,
-        duration: Date.now() - recording.startTime
-      });
+  // Run the normal completion path on what a stopped FFmpeg left behind. A final part that
+  // is not playable (killed before the trailer) is dropped in favour of the earlier parts;
+  // a paused recording has no final part (filePath is null).
+  async finalizeStoppedRecording(recordingId, recording) {
+    const { filePath, outputDir, parts } = recording;
+
+    if (outputDir) {
+      await this.handleHlsRecordingComplete(recordingId, outputDir);
+    } else if (filePath && await this.isPlayable({ path: filePath, isDirectory: false })) {
+      await this.handleRecordingComplete(recordingId, filePath);
+    } else if (parts.length > 0) {
+      logger.warn(`Final part of ${recordingId} is not playable, finalizing ${parts.length} earlier parts`);
+      if (filePath) await fs.rm(filePath, { force: true });
+      await this.handleRecordingComplete(recordingId, parts[parts.length - 1], parts.slice(0, -1));
+    } else {
+      this.activeRecordings.delete(recordingId);
+      this.processQueue();
+      if (filePath) await fs.rm(filePath, { force: true });
+      await this.handleRecordingError(recordingId, 'Stopped before any playable output was written');
     }
-    return active;
   }
 
-  async createRecording(data) {
+  async handleRecordingComplete(recordingId, filePath, parts = null) {
     try {
-      const id = uuidv4();
-      const { title, description, stream_url, quality = 'best', format = 'mp4' } = data;
+      // Parts captured before an interruption are joined with the final part
+      const active = this.activeRecordings.get(recordingId);
+      const previousParts = parts || (active && active.parts) || [];
 
-      const result = await database.query(
-        `INSERT INTO recordings (id, title, description, stream_url, quality, format)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         RETURNING *`,
-        [id, title, description, stream_url, quality, format]
-      );
+      // Remove from active recordings
+      this.activeRecordings.delete(recordingId);
+      this.processQueue();
 
-      return result.rows[0];
+      if (previousParts.length > 0) {
+        const partPaths = [...previousParts, filePath];
+        const joinedPath = filePath.replace(/(\.[^.]+)$/, '_joined$1');
+        await this.concatenateParts(partPaths, joinedPath);
+        for (const partPath of partPaths) {
+          await fs.unlink(partPath);
+        }
+        filePath = joinedPath;
+      }
     } catch (error) {
-      logger.error('Failed to create recording:', error.message);
-      throw error;
+      logger.error(`Failed to handle recording completion for ${recordingId}:`, error.message);
+      await this.handleRecordingError(recordingId, error.message);
+      return;
     }
-  }
 
-  async getRecordings(filters = {}) {
-    try {
-      let query = 'SELECT * FROM recordings';
-      const params = [];
-      const conditions = [];
+    await this.startPipeline(recordingId, { path: filePath });
+  }
 
-      if (filters.status) {
-        conditions.push(`status = $${params.length + 1}`);
-        params.push(filters.status);
-      }
+  async handleHlsRecordingComplete(recordingId, outputDir) {
+    let uploadedSegments;
 
-      if (filters.limit) {
-        query += conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
-        query += ` ORDER BY created_at DESC LIMIT $${params.length + 1}`;
-        params.push(filters.limit);
-      } else {
-        query += conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
-        query += ' ORDER BY created_at DESC';
+    try {
+      const active = this.activeRecordings.get(recordingId);
+      if (active) {
+        hlsService.stopSync(active.hlsSync);
       }
+      this.activeRecordings.delete(recordingId);
+      this.processQueue();
 
-      const result = await database.query(query, params);
-      return result.rows;
+      await hlsService.finalizePlaylist(outputDir);
+      // Segments pushed while recording are not uploaded again
+      uploadedSegments = active && active.hlsSync ? active.hlsSync.uploadedSegments : new Set();
     } catch (error) {
-      logger.error('Failed to get recordings:', error.message);
-      throw error;
+      logger.error(`Failed to handle HLS recording completion for ${recordingId}:`, error.message);
+      await this.handleRecordingError(recordingId, error.message);
+      return;
     }
+
+    await this.startPipeline(recordingId, { path: hlsService.getPlaylistPath(outputDir), dir: outputDir }, { uploadedSegments });
   }
 
-  async getRecordingById(id) {
+  // Hand a finished capture to post-processing. From here on a failure belongs to a stage
+  // and no longer fails the recording.
+  async startPipeline(recordingId, output, { uploadedSegments } = {}) {
     try {
-      const result = await database.query('SELECT * FROM recordings WHERE id = $1', [id]);
-      return result.rows[0];
+      const pipeline = pipelineService.createState(output);
+      await database.query(
+        'UPDATE recordings SET status = $1, file_path = $2 WHERE id = $3',
+        ['processing', output.path, recordingId]
+      );
+      await this.updateMetadata(recordingId, { pipeline });
+
+      await this.runPipeline(recordingId, pipeline, { uploadedSegments });
     } catch (error) {
-      logger.error('Failed to get recording by ID:', error.message);
-      throw error;
+      logger.error(`Failed to post-process recording ${recordingId}:`, error.message);
+      await this.handleRecordingError(recordingId, error.message);
     }
   }
 
-  async deleteRecording(id) {
+  // Runs the stages from `from` on. Stages that already ran are left alone, except `from`
+  // itself. Returns whether the pipeline got to the end.
+  async runPipeline(recordingId, pipeline, { from = pipelineService.stages[0].name, uploadedSegments = new Set() } = {}) {
+    if (this.runningPipelines.has(recordingId)) {
+      throw new Error('Post-processing is already running');
+    }
+    this.runningPipelines.add(recordingId);
+
     try {
-      const recording = await this.getRecordingById(id);
-      if (!recording) {
-        throw new Error('Recording not found');
+      const context = { recordingId, output: pipeline.output, uploadedSegments };
+      const startIndex = pipeline.stages.findIndex(entry => entry.name === from);
+
+      for (const entry of pipeline.stages.slice(startIndex)) {
+        if (entry.name !== from && !['pending', 'running'].includes(entry.status)) continue;
+
+        const succeeded = await this.runPipelineStage(recordingId, pipeline, entry, context);
+        if (!succeeded && pipelineService.getStage(entry.name).required) {
+          await this.handlePipelineHalt(recordingId, entry);
+          return false;
+        }
       }
 
-      // Stop if active
-      if (this.activeRecordings.has(id)) {
-        await this.stopRecording(id);
+      logger.info(`Post-processing completed for ${recordingId}`);
+      return true;
+    } finally {
+      this.runningPipelines.delete(recordingId);
+    }
+  }
+
+  // Returns whether the stage succeeded or had nothing to do
+  async runPipelineStage(recordingId, pipeline, entry, context) {
+    const startedAt = Date.now();
+    Object.assign(entry, {
+      status: 'running', startedAt: new Date(startedAt).toISOString(), finishedAt: null, durationMs: null, error: null
+    });
+    await this.updateMetadata(recordingId, { pipeline });
+
+    try {
+      // Stage handlers return false when the stage does not apply to this output
+      const applied = await this[`${entry.name}Stage`](context);
+      entry.status = applied === false ? 'skipped' : 'completed';
+    } catch (error) {
+      logger.error(`Post-processing stage ${entry.name} failed for ${recordingId}:`, error.message);
+      Object.assign(entry, { status: 'failed', error: error.message });
+    }
+
+    Object.assign(entry, { finishedAt: new Date().toISOString(), durationMs: Date.now() - startedAt });
+    await this.updateMetadata(recordingId, { pipeline });
+    return entry.status !== 'failed';
+  }
+
+  async handlePipelineHalt(recordingId, entry) {
+    const message = `${entry.label} failed: ${entry.error}`;
+    logger.warn(`Post-processing of ${recordingId} halted at ${entry.name}, local output kept`);
+
+    // Once uploaded the recording is playable; a later failure only shows on its stage
+    await database.query(
+      'UPDATE recordings SET error_message = $1 WHERE id = $2 AND status = $3',
+      [message, recordingId, 'processing']
+    );
+
+    const recording = await this.getRecordingById(recordingId);
+    await notificationService.notify(
+      'pipeline_failed',
+      `Post-processing of "${recording ? recording.title : recordingId}" halted. ${message}`,
+      { recordingId, stage: entry.name, error: entry.error }
+    );
+  }
+
+  // Re-run a failed stage in the background; a stage that halted the pipeline continues it
+  async retryPipelineStage(recordingId, stageName) {
+    const recording = await this.getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+
+    const { pipeline } = this.parseMetadata(recording.metadata);
+    if (!pipeline) {
+      throw new Error('Recording has not been post-processed');
+    }
+    const entry = pipeline.stages.find(stage => stage.name === stageName);
+    if (!entry) {
+      throw new Error(`Unknown stage: ${stageName}`);
+    }
+    if (this.runningPipelines.has(recordingId)) {
+      throw new Error('Post-processing is already running');
+    }
+    if (entry.status !== 'failed') {
+      throw new Error(`Only failed stages can be retried (${stageName} is ${entry.status})`);
+    }
+
+    // Every stage but cleanup works on the local output
+    if (stageName !== 'cleanup') {
+      const cleanup = pipeline.stages.find(stage => stage.name === 'cleanup');
+      const exists = await fs.access(pipeline.output.dir || pipeline.output.path).then(() => true, () => false);
+      if (cleanup.status === 'completed' || !exists) {
+        throw new Error('The local output has already been removed');
       }
+    }
 
-      // Delete from S3 if exists
-      if (recording.s3_key) {
-        await s3Service.deleteFile(recording.s3_key);
+    logger.info(`Retrying post-processing stage ${stageName} of ${recordingId}`);
+    this.runPipeline(recordingId, pipeline, { from: stageName })
+      .catch(error => logger.error(`Post-processing retry failed for ${recordingId}:`, error.message));
+
+    return { stage: stageName };
+  }
+
+  // A backend that died mid post-processing: carry on from the stage that was interrupted.
+  // A clip, highlights reel or match-only video that was still being rendered has no pipeline
+  // yet and is rendered again.
+  resumeInterruptedPipeline(recording) {
+    const { pipeline } = this.parseMetadata(recording.metadata);
+    const sourceId = this.getDerivedSourceId(recording);
+    if (!pipeline && sourceId) {
+      this.restartDerivedRecording(recording, sourceId)
+        .catch(error => logger.error(`Failed to restart rendering of ${recording.id}:`, error.message));
+      return;
+    }
+    const from = pipeline && pipelineService.getResumeStage(pipeline);
+    if (!from) return;
+
+    logger.info(`Resuming post-processing of ${recording.id} at ${from}`);
+    this.runPipeline(recording.id, pipeline, { from })
+      .catch(error => logger.error(`Failed to resume post-processing of ${recording.id}:`, error.message));
+  }
+
+  async restartDerivedRecording(recording, sourceId) {
+    const source = await this.getRecordingById(sourceId);
+    if (!source || source.status !== 'completed') {
+      await this.handleRecordingError(recording.id, 'The recording this was cut from is no longer available');
+      return;
+    }
+
+    logger.info(`Rendering ${recording.id} again after an interruption`);
+    const { clip, highlights } = this.parseMetadata(recording.metadata);
+    if (clip) {
+      await this.extractClip(recording, source);
+    } else if (highlights) {
+      await this.renderHighlights(recording, source);
+    } else {
+      await this.renderMatchOnly(recording, source);
+    }
+  }
+
+  // The recording a clip, highlights reel or match-only video was made from; null for captures
+  getDerivedSourceId(recording) {
+    const { clip, highlights, match_only: matchOnly } = this.parseMetadata(recording.metadata);
+    if (clip) return clip.parent_id;
+    if (highlights) return highlights.source_id;
+    return matchOnly ? matchOnly.source_id : null;
+  }
+
+  async probeStage({ recordingId, output }) {
+    let duration;
+    let fileSize;
+
+    if (output.dir) {
+      const playlist = await hlsService.readPlaylist(output.dir);
+      if (playlist.segments.length === 0) {
+        throw new Error('The HLS playlist lists no segments');
       }
+      duration = playlist.duration;
+      fileSize = await hlsService.getDirectorySize(output.dir);
+    } else {
+      duration = await this.getMediaDuration(output.path);
+      if (!duration) {
+        throw new Error('FFprobe could not read the output');
+      }
+      fileSize = (await fs.stat(output.path)).size;
+    }
 
-      // Delete local file if exists
-      if (recording.file_path) {
-        try {
-          await fs.unlink(recording.file_path);
+    await this.recordOutputTracks(recordingId, output.path);
+    await database.query(
+      'UPDATE recordings SET file_size = $1, duration = $2 WHERE id = $3',
+      [fileSize, Math.round(duration), recordingId]
+    );
+  }
+
+  async faststartStage({ recordingId, output }) {
+    if (output.dir || !pipelineService.supportsFaststart(output.path)) return false;
+
+    await pipelineService.remuxFaststart(output.path);
+    const { size } = await fs.stat(output.path);
+    await database.query('UPDATE recordings SET file_size = $1 WHERE id = $2', [size, recordingId]);
+  }
+
+  async thumbnailsStage({ recordingId, output }) {
+    if (this.isAudioOnly(path.extname(output.path).slice(1))) return false;
+
+    const recording = await this.getRecordingById(recordingId);
+    const poster = await thumbnailService.generatePoster(recordingId, output.path, recording.duration);
+    await this.updateMetadata(recordingId, { thumbnail: poster });
+    const sprite = await thumbnailService.generateSprite(recordingId, output.path, recording.duration);
+    await this.updateMetadata(recordingId, { sprite });
+  }
+
+  async checksumStage({ recordingId, output }) {
+    const checksum = await checksumService.computeOutput(output);
+    await this.updateMetadata(recordingId, { checksum });
+  }
+
+  // The upload only counts once the stored objects match the checksum, so a corrupted upload
+  // halts the pipeline before cleanup and keeps the local copy for a retry
+  async uploadStage({ recordingId, output, uploadedSegments }) {
+    const { checksum } = this.parseMetadata((await this.getRecordingById(recordingId)).metadata);
+    if (!checksum) {
+      throw new Error('No checksum to verify the upload against');
+    }
+
+    const s3Result = output.dir
+      ? await hlsService.syncToS3(
+        output.dir, hlsService.getS3Prefix(recordingId), uploadedSegments,
+        checksumService.getFileChecksums(checksum)
+      )
+      : await s3Service.uploadFile(output.path, `recordings/${path.basename(output.path)}`, {
+        metadata: { sha256: checksum.value }
+      });
+    if (!s3Result.success) {
+      throw new Error(`Upload failed: ${s3Result.error}`);
+    }
+
+    const problems = await checksumService.verifyStoredOutput(s3Result.key, checksum);
+    if (problems.length > 0) {
+      throw new Error(`Upload verification failed: ${problems.join('; ')}`);
+    }
+    await this.updateMetadata(recordingId, {
+      integrity: { status: 'verified', verifiedAt: new Date().toISOString(), deep: false, problems: [] }
+    });
+
+    await database.query(
+      `UPDATE recordings SET 
+       status = $1, 
+       completed_at = CURRENT_TIMESTAMP,
+       s3_key = $2,
+       s3_url = $3,
+       error_message = NULL
+       WHERE id = $4`,
+      ['completed', s3Result.key, s3Result.url, recordingId]
+    );
+    logger.info(`Recording completed successfully: ${recordingId}`);
+
+    // Captions are read from the local copy, so they go up with the video
+    await this.finalizeSubtitles(recordingId, output.path);
+  }
+
+  // Candidate highlights and match boundaries from the local copy while it is still there.
+  // Videos made from another recording get their markers and chapters from it.
+  async analysisStage({ recordingId, output }) {
+    const recording = await this.getRecordingById(recordingId);
+    if (this.getDerivedSourceId(recording) || !(await this.isHighlightDetectionEnabled())) return false;
+
+    await this.analyzeRecording(recording, { input: output.path, inputOptions: [] });
+  }
+
+  async abrStage({ recordingId, output }) {
+    if (!abrService.isEnabled() || this.isAudioOnly(path.extname(output.path).slice(1))) return false;
+
+    await this.generateAbrLadder(recordingId, output.path);
+  }
+
+  async cleanupStage({ output }) {
+    if (output.dir) {
+      await fs.rm(output.dir, { recursive: true, force: true });
+      logger.info(`Local HLS directory cleaned up: ${output.dir}`);
+    } else {
+      await fs.rm(output.path, { force: true });
+      logger.info(`Local file cleaned up: ${output.path}`);
+    }
+  }
+
+  getSourceUrls(recording) {
+    const { backup_urls: backupUrls = [] } = this.parseMetadata(recording.metadata);
+    return [recording.stream_url, ...backupUrls];
+  }
+
+  isAudioOnly(format) {
+    return Object.prototype.hasOwnProperty.call(AUDIO_FORMATS, format);
+  }
+
+  // MP4 and M4A captures are written as fragments with the index up front, so a capture killed
+  // mid-match (a redeploy, a crash) leaves a playable file; the faststart remux or joining the
+  // parts turns them back into a regular file
+  getFragmentOptions(format) {
+    if (format === 'mp4') return ['-movflags', '+frag_keyframe+empty_moov+default_base_moof'];
+    // Every audio frame is a keyframe, so audio is cut into fragments by duration instead
+    if (format === 'm4a') return ['-movflags', '+empty_moov+default_base_moof', '-frag_duration', '2000000'];
+    return [];
+  }
+
+  // -map options for the tracks chosen at creation. Without a choice none are passed and FFmpeg
+  // keeps its default of the best video plus one audio track. Audio tracks are picked by stream
+  // index or language tag; indices are specific to the primary source, languages also hold
+  // after a failover, and a missing language is skipped rather than failing the capture.
+  async getStreamMaps(recordingData, inspectInput) {
+    const {
+      audio_tracks: audioTracks = [], video_variant: videoVariant = null
+    } = this.parseMetadata(recordingData.metadata);
+    const audioOnly = this.isAudioOnly(recordingData.format);
+    if (!audioOnly && audioTracks.length === 0 && !videoVariant) return [];
+
+    const maps = [];
+    if (!audioOnly) {
+      // Any -map turns off FFmpeg's choice of the best video, so it is looked up instead
+      const programId = videoVariant ? videoVariant.program_id : await this.getBestProgramId(inspectInput);
+      maps.push('-map', programId === null ? '0:v:0' : `0:p:${programId}:v`);
+    }
+
+    if (audioTracks.length === 0) {
+      maps.push('-map', audioOnly ? '0:a:0' : '0:a:0?');
+    }
+    for (const track of audioTracks) {
+      maps.push('-map', typeof track === 'number' ? `0:${track}` : `0:a:m:language:${track}?`);
+    }
+    return maps;
+  }
+
+  // Highest bandwidth HLS variant, or null for inputs without variants
+  async getBestProgramId(inspectInput) {
+    const probe = await inspectInput();
+    const [best] = probe ? probeService.getVariants(probe.programs || []) : [];
+    return best ? best.programId : null;
+  }
+
+  // Subtitle sidecars are timed from the start of their part, so each part records where it
+  // starts in the final video: after the earlier parts, or the segments already in the playlist
+  async addSubtitleOutputs(recordingId, command, { probe, basePath, previousParts, outputDir }) {
+    let offset = 0;
+    if (outputDir) {
+      offset = (await hlsService.readPlaylist(outputDir)).duration;
+    } else {
+      for (const part of previousParts) {
+        offset += await this.getMediaDuration(part);
+      }
+    }
+
+    const tracks = subtitleService.addSidecarOutputs(recordingId, command, { probe, basePath, offset });
+    if (tracks > 0) {
+      logger.info(`Capturing ${tracks} subtitle tracks for ${recordingId}`);
+    }
+    await this.updateMetadata(recordingId, { subtitle_sidecars: subtitleService.getSidecars(recordingId) })
+      .catch(error => logger.warn(`Could not record subtitle sidecars for ${recordingId}: ${error.message}`));
+    if (subtitleService.hasClosedCaptions(probe)) {
+      await this.updateMetadata(recordingId, { closed_captions: true })
+        .catch(error => logger.warn(`Could not record closed captions for ${recordingId}: ${error.message}`));
+    }
+  }
+
+  async finalizeSubtitles(recordingId, videoPath) {
+    try {
+      const metadata = await this.getRecordingMetadata(recordingId);
+      if (!metadata.capture_subtitles) return;
+
+      // Post-processing resumed after a restart only knows the sidecars from metadata
+      subtitleService.restoreSidecars(recordingId, metadata.subtitle_sidecars);
+      const subtitles = await subtitleService.finalize(recordingId, videoPath, { closedCaptions: !!metadata.closed_captions });
+      await this.updateMetadata(recordingId, { subtitles, subtitle_sidecars: [] });
+    } catch (error) {
+      logger.error(`Failed to store subtitles for ${recordingId}:`, error.message);
+    }
+  }
+
+  // Move a failed capture to the next source URL. What was captured so far is kept as a
+  // part (HLS keeps appending to the same directory) and joined on completion.
+  async handleSourceFailure(recordingId, errorMessage) {
+    const active = this.activeRecordings.get(recordingId);
+    hlsService.stopSync(active.hlsSync);
+    this.activeRecordings.delete(recordingId);
+
+    const { recordingData, sources, sourceIndex, filePath, outputDir } = active;
+    const parts = [...active.parts];
+    if (!outputDir && await this.isPlayable({ path: filePath, isDirectory: false })) {
+      parts.push(filePath);
+    }
+
+    const nextIndex = sourceIndex + 1;
+    const exhausted = nextIndex >= sources.length;
+
+    try {
+      const recording = await this.getRecordingById(recordingId);
+      const { failovers = [] } = this.parseMetadata(recording && recording.metadata);
+      await this.updateMetadata(recordingId, {
+        failovers: [...failovers, {
+          at: new Date().toISOString(),
+          from: sources[sourceIndex],
+          to: exhausted ? null : sources[nextIndex],
+          reason: errorMessage
+        }]
+      });
+    } catch (error) {
+      logger.warn(`Could not record failover for ${recordingId}: ${error.message}`);
+    }
+
+    if (!exhausted) {
+      logger.warn(`Switching recording ${recordingId} to backup source ${nextIndex}: ${errorMessage}`);
+      try {
+        await this.startRecording(recordingData, {
+          resume: true,
+          previousParts: parts,
+          outputDir,
+          sourceIndex: nextIndex,
+          priority: active.priority,
+          telemetry: active.telemetry,
+          gapFrom: active.watchdog.activeAt
+        });
+      } catch (error) {
+        logger.error(`Failover failed for ${recordingId}:`, error.message);
+      }
+      return;
+    }
+
+    // Out of sources: keep whatever the earlier sources delivered rather than failing the match
+    if (sourceIndex > 0 && outputDir && (await hlsService.readPlaylist(outputDir)).segments.length > 0) {
+      logger.warn(`All sources failed for ${recordingId}, finalizing captured segments`);
+      await this.handleHlsRecordingComplete(recordingId, outputDir);
+    } else if (sourceIndex > 0 && parts.length > 0) {
+      logger.warn(`All sources failed for ${recordingId}, finalizing ${parts.length} captured parts`);
+      await this.handleRecordingComplete(recordingId, parts[parts.length - 1], parts.slice(0, -1));
+    } else {
+      await this.handleRecordingError(recordingId, errorMessage, { retry: true });
+    }
+  }
+
+  // Runs after the upload; the recording stays playable from the original upload whether
+  // or not the ladder succeeds
+  async generateAbrLadder(recordingId, sourcePath) {
+    try {
+      await this.updateMetadata(recordingId, { abr: { status: 'processing' } });
+      const ladder = await abrService.generateLadder(recordingId, sourcePath);
+      await this.updateMetadata(recordingId, { abr: { status: 'completed', ...ladder } });
+    } catch (error) {
+      logger.error(`Failed to generate ABR ladder for ${recordingId}:`, error.message);
+      await this.updateMetadata(recordingId, { abr: { status: 'failed', error: error.message } })
+        .catch(() => {});
+      throw error;
+    }
+  }
+
+  // retry: the capture itself failed, so it may be started again under the retry policy
+  async handleRecordingError(recordingId, errorMessage, { retry = false } = {}) {
+    try {
+      // Remove from active recordings
+      const active = this.activeRecordings.get(recordingId);
+      if (active) {
+        hlsService.stopSync(active.hlsSync);
+      }
+      this.activeRecordings.delete(recordingId);
+      this.processQueue();
+      await subtitleService.discard(recordingId);
+
+      // Update database with error
+      await database.query(
+        'UPDATE recordings SET status = $1, error_message = $2 WHERE id = $3',
+        ['failed', errorMessage, recordingId]
+      );
+
+      logger.error(`Recording failed: ${recordingId} - ${errorMessage}`);
+
+      const attempt = await this.recordAttemptFailure(recordingId, errorMessage);
+      if (retry) {
+        await this.scheduleRetry(recordingId, attempt, errorMessage);
+      }
+
+    } catch (error) {
+      logger.error(`Failed to handle recording error for ${recordingId}:`, error.message);
+    }
+  }
+
+  // Every start that is not the continuation of a running capture counts as an attempt
+  async startAttempt(recordingId) {
+    const result = await database.query(
+      'SELECT COUNT(*) AS count FROM recording_attempts WHERE recording_id = $1',
+      [recordingId]
+    );
+    const attempt = parseInt(result.rows[0].count) + 1;
+
+    await database.query(
+      'INSERT INTO recording_attempts (id, recording_id, attempt) VALUES ($1, $2, $3)',
+      [uuidv4(), recordingId, attempt]
+    );
+    return attempt;
+  }
+
+  // Returns the number of the failed attempt
+  async recordAttemptFailure(recordingId, errorMessage) {
+    const result = await database.query(
+      'SELECT attempt, failed_at FROM recording_attempts WHERE recording_id = $1 ORDER BY attempt DESC LIMIT 1',
+      [recordingId]
+    );
+    const latest = result.rows[0];
+    // Recordings started before attempts were tracked, or failing again while finalizing
+    const attempt = latest && !latest.failed_at ? latest.attempt : await this.startAttempt(recordingId);
+
+    await database.query(
+      `UPDATE recording_attempts SET failed_at = CURRENT_TIMESTAMP, error_message = $1
+       WHERE recording_id = $2 AND attempt = $3`,
+      [errorMessage, recordingId, attempt]
+    );
+    return attempt;
+  }
+
+  async getAttempts(recordingId) {
+    const result = await database.query(
+      'SELECT * FROM recording_attempts WHERE recording_id = $1 ORDER BY attempt ASC',
+      [recordingId]
+    );
+    return result.rows;
+  }
+
+  async getRetryPolicy() {
+    const read = async (key, defaultValue) => {
+      const value = parseInt(await settingsService.getValue(key, defaultValue));
+      return value >= 0 ? value : defaultValue;
+    };
+    const defaults = this.defaultRetryPolicy;
+
+    return {
+      maxAttempts: await read('retry_max_attempts', defaults.maxAttempts),
+      backoff: await read('retry_backoff_seconds', defaults.backoff),
+      maxBackoff: await read('retry_max_backoff_seconds', defaults.maxBackoff)
+    };
+  }
+
+  // ms to wait after the given failed attempt: backoff, 2x backoff, 4x backoff... up to maxBackoff
+  getRetryDelay(policy, attempt) {
+    return Math.min(policy.backoff * 2 ** (attempt - 1), policy.maxBackoff) * 1000;
+  }
+
+  // End of the latest schedule attached to the recording, or null for unscheduled recordings
+  async getScheduledEnd(recordingId) {
+    const result = await database.query(
+      `SELECT scheduled_end FROM schedules
+       WHERE recording_id = $1 AND scheduled_end IS NOT NULL
+       ORDER BY scheduled_end DESC LIMIT 1`,
+      [recordingId]
+    );
+    const value = result.rows[0] && result.rows[0].scheduled_end;
+    if (!value) return null;
+    return value instanceof Date ? value : moment.utc(value).toDate();
+  }
+
+  // A retry is only scheduled while attempts are left and it would start before the match
+  // ends. Returns when the retry will run, or null when the recording stays failed.
+  async scheduleRetry(recordingId, attempt, errorMessage) {
+    if (this.activeRecordings.has(recordingId) || this.pausedRecordings.has(recordingId)) return null;
+    const recording = await this.getRecordingById(recordingId);
+    if (!recording) return null;
+
+    const policy = await this.getRetryPolicy();
+    const retryAt = new Date(Date.now() + this.getRetryDelay(policy, attempt));
+    const scheduledEnd = await this.getScheduledEnd(recordingId);
+
+    if (attempt >= policy.maxAttempts || (scheduledEnd && retryAt >= scheduledEnd)) {
+      const reason = attempt >= policy.maxAttempts
+        ? `after ${attempt} attempt${attempt > 1 ? 's' : ''}`
+        : 'and the scheduled end has passed';
+      await notificationService.notify(
+        'recording_failed',
+        `"${recording.title}" failed ${reason}: ${errorMessage}`,
+        { recordingId, attempts: attempt, error: errorMessage }
+      );
+      return null;
+    }
+
+    await database.query(
+      'UPDATE recording_attempts SET retry_at = $1 WHERE recording_id = $2 AND attempt = $3',
+      [retryAt.toISOString(), recordingId, attempt]
+    );
+    this.setRetryTimer(recordingId, retryAt);
+
+    await notificationService.notify(
+      'recording_retry',
+      `"${recording.title}" failed (${errorMessage}), attempt ${attempt + 1} of ${policy.maxAttempts} at ${retryAt.toISOString()}`,
+      { recordingId, attempt: attempt + 1, retryAt: retryAt.toISOString(), error: errorMessage }
+    );
+    return retryAt;
+  }
+
+  setRetryTimer(recordingId, retryAt) {
+    this.clearRetryTimer(recordingId);
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(recordingId);
+      this.retryRecording(recordingId)
+        .catch(error => logger.error(`Automatic retry of ${recordingId} failed:`, error.message));
+    }, Math.max(0, retryAt.getTime() - Date.now()));
+    this.retryTimers.set(recordingId, timer);
+  }
+
+  clearRetryTimer(recordingId) {
+    clearTimeout(this.retryTimers.get(recordingId));
+    return this.retryTimers.delete(recordingId);
+  }
+
+  hasPendingRetry(recordingId) {
+    return this.retryTimers.has(recordingId);
+  }
+
+  // Returns whether a retry was pending
+  async cancelRetry(recordingId) {
+    if (!this.clearRetryTimer(recordingId)) return false;
+    await database.query(
+      'UPDATE recording_attempts SET retry_at = NULL WHERE recording_id = $1 AND retry_at IS NOT NULL',
+      [recordingId]
+    );
+    logger.info(`Pending retry of ${recordingId} cancelled`);
+    return true;
+  }
+
+  // Start a failed recording again, automatically or by hand. Output of earlier attempts
+  // is joined with the new capture like the parts of a failover.
+  async retryRecording(recordingId) {
+    this.clearRetryTimer(recordingId);
+
+    const recording = await this.getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (recording.status !== 'failed') {
+      throw new Error(`Only failed recordings can be retried (status: ${recording.status})`);
+    }
+    if (this.getDerivedSourceId(recording)) {
+      throw new Error('Clips, highlights and match-only videos are not captured; create them again from their recording');
+    }
+
+    const playable = [];
+    for (const output of await this.findPartialOutputs(recordingId)) {
+      if (await this.isPlayable(output)) {
+        playable.push(output);
+      } else {
+        await fs.rm(output.path, { recursive: true, force: true });
+      }
+    }
+    const hlsOutput = recording.format === 'hls' ? playable.find(output => output.isDirectory) : null;
+    const scheduledEnd = await this.getScheduledEnd(recordingId);
+
+    logger.info(`Retrying recording ${recordingId}${playable.length > 0 ? ` with ${playable.length} earlier outputs` : ''}`);
+    return this.startRecording(recording, {
+      priority: scheduledEnd ? 'scheduled' : 'manual',
+      outputDir: hlsOutput ? hlsOutput.path : undefined,
+      previousParts: hlsOutput ? [] : playable.filter(output => !output.isDirectory).map(output => output.path),
+      gapFrom: await this.getLastOutputTime(playable)
+    });
+  }
+
+  async getIntegrityCheckInterval() {
+    const hours = parseInt(await settingsService.getValue('integrity_check_interval_hours', this.defaultIntegrityCheckInterval));
+    return (hours > 0 ? hours : this.defaultIntegrityCheckInterval) * 3600000;
+  }
+
+  // Periodic re-check of stored recordings: the ones verified longest ago are downloaded and
+  // hashed again, a few per run so a large library is spread over several runs
+  async verifyStoredRecordings() {
+    const interval = await this.getIntegrityCheckInterval();
+    const result = await database.query(
+      'SELECT * FROM recordings WHERE status = $1 AND s3_key IS NOT NULL',
+      ['completed']
+    );
+
+    const verifiedAt = recording => {
+      const { integrity } = this.parseMetadata(recording.metadata);
+      return integrity && integrity.verifiedAt ? new Date(integrity.verifiedAt).getTime() : 0;
+    };
+    const due = result.rows
+      .filter(recording => this.parseMetadata(recording.metadata).checksum)
+      .filter(recording => Date.now() - verifiedAt(recording) >= interval)
+      .sort((a, b) => verifiedAt(a) - verifiedAt(b))
+      .slice(0, this.integrityBatchSize);
+
+    for (const recording of due) {
+      try {
+        await this.verifyRecording(recording);
+      } catch (error) {
+        logger.error(`Integrity check of ${recording.id} failed:`, error.message);
+      }
+    }
+
+    return due.length;
+  }
+
+  async verifyRecording(recording, { deep = true } = {}) {
+    const { checksum, integrity: previous } = this.parseMetadata(recording.metadata);
+    const problems = await checksumService.verifyStoredOutput(recording.s3_key, checksum, { deep });
+    const integrity = {
+      status: problems.length === 0 ? 'verified' : 'corrupted',
+      verifiedAt: new Date().toISOString(),
+      deep,
+      problems
+    };
+    await this.updateMetadata(recording.id, { integrity });
+
+    if (integrity.status === 'corrupted') {
+      logger.warn(`Stored recording ${recording.id} is corrupted: ${problems.join('; ')}`);
+      if (!previous || previous.status !== 'corrupted') {
+        await notificationService.notify(
+          'recording_corrupted',
+          `"${recording.title}" no longer matches its checksum: ${problems.join('; ')}`,
+          { recordingId: recording.id, problems }
+        );
+      }
+    }
+
+    return integrity;
+  }
+
+  async isHighlightDetectionEnabled() {
+    return (await settingsService.getValue('highlight_detection_enabled', 'true')) === 'true';
+  }
+
+  // Tracks from the probe of the output; without one, the format says whether there is video
+  getOutputTrackTypes(recording) {
+    const { output_tracks: tracks } = this.parseMetadata(recording.metadata);
+    if (!tracks || tracks.length === 0) {
+      return { hasAudio: true, hasVideo: !this.isAudioOnly(recording.format) };
+    }
+    return {
+      hasAudio: tracks.some(track => track.type === 'audio'),
+      hasVideo: tracks.some(track => track.type === 'video')
+    };
+  }
+
+  // Searches a recording for candidate highlights, kept in metadata.analysis. Candidates an
+  // analyst already accepted or rejected survive a new run; new ones close to them are dropped.
+  async analyzeRecording(recording, source) {
+    if (this.runningAnalyses.has(recording.id)) {
+      throw new Error('Highlight detection is already running');
+    }
+    this.runningAnalyses.add(recording.id);
+
+    // Reviews can land while the run is under way, so every write takes them from the stored
+    // metadata rather than from what was there when it started
+    const getReviewed = ({ analysis }) => ((analysis && analysis.candidates) || [])
+      .filter(candidate => candidate.status !== 'pending');
+    const startedAt = new Date().toISOString();
+    let lastSaved = 0;
+    let saving = Promise.resolve(); // a progress write, awaited so it cannot land after the result
+
+    try {
+      await this.updateMetadata(recording.id, current => ({
+        analysis: { status: 'running', startedAt, progress: 0, candidates: getReviewed(current) }
+      }));
+
+      const result = await analysisService.analyze(recording.id, source, {
+        ...this.getOutputTrackTypes(recording),
+        duration: recording.duration,
+        onProgress: percent => {
+          if (Date.now() - lastSaved < 5000) return;
+          lastSaved = Date.now();
+          saving = saving.then(() => this.updateMetadata(recording.id, current => ({
+            analysis: { status: 'running', startedAt, progress: percent, candidates: getReviewed(current) }
+          }))).catch(error => logger.warn(`Could not record analysis progress for ${recording.id}: ${error.message}`));
+        }
+      });
+      await saving;
+
+      const { analysis } = await this.updateMetadata(recording.id, current => {
+        const reviewed = getReviewed(current);
+        const candidates = [
+          ...reviewed,
+          ...result.candidates.filter(candidate => !reviewed.some(other =>
+            Math.abs(other.offset_seconds - candidate.offset_seconds) < analysisService.minGap))
+        ].sort((a, b) => b.confidence - a.confidence);
+
+        return {
+          analysis: {
+            status: 'completed',
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            signals: result.signals,
+            candidates
+          },
+          ...this.getDetectedBoundaries(current, recording.duration, result.boundaries)
+        };
+      });
+      logger.info(`Highlight detection found ${result.candidates.length} candidates in ${recording.id}`);
+      return analysis;
+    } catch (error) {
+      await saving;
+      await this.updateMetadata(recording.id, current => ({
+        analysis: {
+          status: 'failed',
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          error: error.message,
+          candidates: getReviewed(current)
+        }
+      }));
+      throw error;
+    } finally {
+      this.runningAnalyses.delete(recording.id);
+    }
+  }
+
+  // Detected boundaries replace earlier detected ones, never ones an analyst has set
+  getDetectedBoundaries({ boundaries }, duration, detected) {
+    if (!detected || (boundaries && boundaries.source === 'manual')) return {};
+
+    return {
+      boundaries: { ...detected, source: 'detected', updatedAt: new Date().toISOString() },
+      chapters: boundaryService.getChapters(detected, duration)
+    };
+  }
+
+  async updateBoundaries(recordingId, values) {
+    const recording = await this.getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (this.getDerivedSourceId(recording)) {
+      throw new Error('Boundaries are only kept for captured recordings');
+    }
+    boundaryService.validateBoundaries(values, recording.duration);
+
+    const { boundaries, chapters } = await this.updateMetadata(recordingId, ({ boundaries: previous }) => {
+      const updated = {
+        ...values,
+        truncated: Boolean(recording.duration) && values.full_time >= recording.duration,
+        confidence: previous ? previous.confidence : null, // of the detected values, for reference
+        source: 'manual',
+        updatedAt: new Date().toISOString()
+      };
+      return { boundaries: updated, chapters: boundaryService.getChapters(updated, recording.duration) };
+    });
+
+    logger.info(`Match boundaries of ${recordingId} set by hand`);
+    return { boundaries, chapters };
+  }
+
+  // Run highlight detection again on a stored recording, e.g. one recorded before it existed.
+  // The source is read from S3 like a clip's.
+  async startAnalysis(recordingId) {
+    const recording = await this.getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (recording.status !== 'completed' || !recording.s3_key) {
+      throw new Error('Only completed recordings can be analysed');
+    }
+    if (this.runningAnalyses.has(recordingId)) {
+      throw new Error('Highlight detection is already running');
+    }
+
+    const source = await clipService.getSourceInput(recording, path.join(os.tmpdir(), `analysis_${recordingId}`));
+    this.analyzeRecording(recording, source)
+      .catch(error => logger.error(`Highlight detection failed for ${recordingId}:`, error.message))
+      .finally(() => source.playlistPath && fs.rm(source.playlistPath, { force: true }));
+
+    return { recordingId };
+  }
+
+  // Retry timers are lost with the process; failed recordings still due a retry get theirs
+  // back. Returns them with their scheduled end so the caller can restore the stop as well.
+  async restorePendingRetries() {
+    const restored = [];
+
+    try {
+      const result = await database.query(
+        `SELECT a.recording_id, a.retry_at FROM recording_attempts a
+         JOIN recordings r ON r.id = a.recording_id
+         WHERE r.status = $1 AND a.retry_at IS NOT NULL
+           AND a.attempt = (SELECT MAX(attempt) FROM recording_attempts WHERE recording_id = a.recording_id)`,
+        ['failed']
+      );
+
+      for (const row of result.rows) {
+        const retryAt = row.retry_at instanceof Date ? row.retry_at : new Date(row.retry_at);
+        const scheduledEnd = await this.getScheduledEnd(row.recording_id);
+        if (scheduledEnd && Math.max(retryAt.getTime(), Date.now()) >= scheduledEnd.getTime()) continue;
+
+        this.setRetryTimer(row.recording_id, retryAt);
+        restored.push({ id: row.recording_id, scheduledEnd });
+      }
+
+      if (restored.length > 0) {
+        logger.info(`Restored ${restored.length} pending recording retries`);
+      }
+    } catch (error) {
+      logger.error('Failed to restore pending retries:', error.message);
+    }
+
+    return restored;
+  }
+
+  // chapters ({ title, start, end } in seconds of the joined file) are muxed in when given
+  async concatenateParts(partPaths, outputPath, { chapters = null } = {}) {
+    const listPath = `${outputPath}.parts.txt`;
+    const chaptersPath = `${outputPath}.chapters.txt`;
+    const list = partPaths.map(partPath => `file '${partPath.replace(/'/g, "'\\''")}'`).join('\n');
+    await fs.writeFile(listPath, list);
+    if (chapters) {
+      await fs.writeFile(chaptersPath, boundaryService.buildChapterMetadata(chapters));
+    }
+
+    logger.info(`Joining ${partPaths.length} parts into ${outputPath}`);
+
+    try {
+      await new Promise((resolve, reject) => {
+        const command = ffmpeg()
+          .input(listPath)
+          .inputOptions(['-f', 'concat', '-safe', '0']);
+        if (chapters) {
+          command.input(chaptersPath).outputOptions(['-map', '0', '-map_metadata', '1', '-map_chapters', '1']);
+        }
+        command
+          .outputOptions(['-c', 'copy', '-y'])
+          .output(outputPath)
+          .on('end', resolve)
+          .on('error', reject)
+          .run();
+      });
+    } finally {
+      await fs.unlink(listPath).catch(() => {});
+      await fs.unlink(chaptersPath).catch(() => {});
+    }
+  }
+
+  parseMetadata(metadata) {
+    if (!metadata) return {};
+    if (typeof metadata === 'string') {
+      try {
+        return JSON.parse(metadata);
+      } catch (error) {
+        return {};
+      }
+    }
+    return metadata;
+  }
+
+  // Writes to one recording's metadata run one at a time, each reading what the last one
+  // stored, so concurrent pipeline, highlight and analysis updates keep each other's keys.
+  // patch is an object of top-level keys, or a (possibly async) function from the current
+  // metadata to one; a function returning null leaves the metadata as it is.
+  updateMetadata(recordingId, patch) {
+    const previous = this.metadataWrites.get(recordingId) || Promise.resolve();
+    const write = previous.catch(() => {}).then(() => this.writeMetadata(recordingId, patch));
+
+    this.metadataWrites.set(recordingId, write);
+    write.catch(() => {}).finally(() => {
+      if (this.metadataWrites.get(recordingId) === write) this.metadataWrites.delete(recordingId);
+    });
+    return write;
+  }
+
+  async writeMetadata(recordingId, patch) {
+    const result = await database.query('SELECT metadata FROM recordings WHERE id = $1', [recordingId]);
+    const current = this.parseMetadata(result.rows[0] && result.rows[0].metadata);
+    const changes = typeof patch === 'function' ? await patch(current) : patch;
+    if (!changes) return current;
+
+    const metadata = { ...current, ...changes };
+    await database.query(
+      'UPDATE recordings SET metadata = $1 WHERE id = $2',
+      [JSON.stringify(metadata), recordingId]
+    );
+
+    return metadata;
+  }
+
+  // Files and HLS directories left in RECORDINGS_PATH by an earlier run of this recording
+  async findPartialOutputs(recordingId) {
+    const entries = await fs.readdir(this.recordingsPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.name.startsWith(`${recordingId}_`) && !/\.(parts\.txt|vtt|jpg)$/.test(entry.name))
+      .map(entry => ({
+        path: path.join(this.recordingsPath, entry.name),
+        isDirectory: entry.isDirectory()
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async isPlayable(output) {
+    if (output.isDirectory) {
+      const playlist = await hlsService.readPlaylist(output.path);
+      return playlist.segments.length > 0;
+    }
+    const duration = await this.getVideoDuration(output.path);
+    return duration > 0;
+  }
+
+  // Reconcile rows left in 'recording' by a backend that died mid-capture (or in 'paused' or
+  // 'processing', which are picked up where they were).
+  // Returns the recordings whose capture was restarted along with their scheduled end.
+  async recoverInterruptedRecordings() {
+    const resumed = [];
+
+    try {
+      const result = await database.query(
+        'SELECT * FROM recordings WHERE status IN ($1, $2, $3)',
+        ['recording', 'paused', 'processing']
+      );
+
+      for (const recording of result.rows) {
+        if (this.activeRecordings.has(recording.id) || this.pausedRecordings.has(recording.id)) continue;
+
+        try {
+          if (recording.status === 'paused') {
+            await this.restorePausedRecording(recording);
+            continue;
+          }
+          if (recording.status === 'processing') {
+            this.resumeInterruptedPipeline(recording);
+            continue;
+          }
+
+          const outcome = await this.recoverRecording(recording);
+          if (outcome.action === 'resumed') {
+            resumed.push({ id: recording.id, scheduledEnd: outcome.scheduledEnd });
+          }
+        } catch (error) {
+          logger.error(`Failed to recover recording ${recording.id}:`, error.message);
+          await this.handleRecordingError(recording.id, `Recovery failed: ${error.message}`);
+        }
+      }
+
+      if (result.rows.length > 0) {
+        logger.info(`Recovered ${result.rows.length} interrupted recordings (${resumed.length} resumed)`);
+      }
+    } catch (error) {
+      logger.error('Failed to recover interrupted recordings:', error.message);
+    }
+
+    return resumed;
+  }
+
+  async recoverRecording(recording) {
+    // Sidecars of the interrupted capture, to be joined with the next part or finalized
+    subtitleService.restoreSidecars(recording.id, this.parseMetadata(recording.metadata).subtitle_sidecars);
+    const outputs = await this.findPartialOutputs(recording.id);
+    const playable = [];
+    const discarded = [];
+
+    for (const output of outputs) {
+      if (await this.isPlayable(output)) {
+        playable.push(output);
+      } else {
+        discarded.push(output.path);
+      }
+    }
+    // Nothing can be made of them, and left in place they would count against the disk reserve
+    for (const discardedPath of discarded) {
+      await fs.rm(discardedPath, { recursive: true, force: true });
+    }
+    if (discarded.length > 0) {
+      logger.warn(`Deleted ${discarded.length} unplayable outputs of interrupted recording ${recording.id}`);
+    }
+
+    const scheduleResult = await database.query(
+      `SELECT scheduled_end FROM schedules 
+       WHERE recording_id = $1 AND status = $2 AND scheduled_end > $3
+       ORDER BY scheduled_end DESC LIMIT 1`,
+      [recording.id, 'active', new Date()]
+    );
+    const scheduledEnd = scheduleResult.rows[0] && scheduleResult.rows[0].scheduled_end;
+
+    const recovery = {
+      recoveredAt: new Date().toISOString(),
+      partialFiles: playable.map(output => output.path),
+      discardedFiles: discarded
+    };
+
+    if (scheduledEnd) {
+      // The match is still on: capture again and keep what was already recorded
+      const hlsOutput = recording.format === 'hls' ? playable[playable.length - 1] : null;
+      await this.updateMetadata(recording.id, {
+        recovery: { ...recovery, action: 'resumed', scheduledEnd }
+      });
+      await this.startRecording(recording, {
+        resume: true,
+        priority: 'scheduled',
+        outputDir: hlsOutput ? hlsOutput.path : undefined,
+        previousParts: hlsOutput ? [] : playable.map(output => output.path),
+        gapFrom: await this.getLastOutputTime(playable)
+      });
+      logger.info(`Resumed interrupted recording ${recording.id} until ${scheduledEnd}`);
+      return { action: 'resumed', scheduledEnd };
+    }
+
+    if (playable.length > 0) {
+      await this.updateMetadata(recording.id, {
+        recovery: { ...recovery, action: 'finalized' }
+      });
+
+      const last = playable[playable.length - 1];
+      if (last.isDirectory) {
+        await this.handleHlsRecordingComplete(recording.id, last.path);
+      } else {
+        const parts = playable.slice(0, -1).map(output => output.path);
+        await this.handleRecordingComplete(recording.id, last.path, parts);
+      }
+      logger.info(`Finalized partial output of interrupted recording ${recording.id}`);
+      return { action: 'finalized' };
+    }
+
+    await this.updateMetadata(recording.id, {
+      recovery: { ...recovery, action: 'failed' }
+    });
+    await this.handleRecordingError(
+      recording.id,
+      outputs.length > 0
+        ? 'Interrupted by backend restart; partial output is not playable'
+        : 'Interrupted by backend restart; no partial output found'
+    );
+    return { action: 'failed' };
+  }
+
+  async getVideoDuration(filePath) {
+    return Math.round(await this.getMediaDuration(filePath));
+  }
+
+  async getMediaDuration(filePath) {
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(filePath, (err, metadata) => {
+        if (err) {
+          logger.warn(`Could not get video duration: ${err.message}`);
+          resolve(0);
+        } else {
+          resolve(Number(metadata.format.duration) || 0);
+        }
+      });
+    });
+  }
+
+  // The tracks that ended up in the output, listed with the video info once the local copy is gone
+  async recordOutputTracks(recordingId, filePath) {
+    const probe = await new Promise((resolve) => {
+      ffmpeg.ffprobe(filePath, (err, metadata) => resolve(err ? null : metadata));
+    });
+    if (!probe) {
+      logger.warn(`Could not list output tracks of ${recordingId}`);
+      return;
+    }
+
+    const tracks = probe.streams
+      .filter(stream => stream.codec_type === 'video' || stream.codec_type === 'audio')
+      .map(stream => ({
+        index: stream.index,
+        type: stream.codec_type,
+        codec: stream.codec_name,
+        language: (stream.tags && stream.tags.language) || null,
+        ...(stream.codec_type === 'video'
+          ? { resolution: `${stream.width}x${stream.height}` }
+          : { channels: stream.channels })
+      }));
+    await this.updateMetadata(recordingId, { output_tracks: tracks })
+      .catch(error => logger.warn(`Could not record output tracks of ${recordingId}: ${error.message}`));
+  }
+
+  createTelemetry() {
+    return { samples: [], latest: null, droppedFrames: 0, duplicatedFrames: 0, lastSampleAt: 0 };
+  }
+
+  // fluent-ffmpeg's progress event leaves out dup/drop, so they are read from the status line
+  recordFrameCounters(telemetry, line) {
+    const duplicated = /dup=\s*(\d+)/.exec(line);
+    const dropped = /drop=\s*(\d+)/.exec(line);
+    if (duplicated) telemetry.duplicatedFrames = parseInt(duplicated[1]);
+    if (dropped) telemetry.droppedFrames = parseInt(dropped[1]);
+  }
+
+  recordProgress(telemetry, progress) {
+    const sample = {
+      at: Date.now(),
+      bitrate: progress.currentKbps || 0, // kbit/s
+      fps: progress.currentFps || 0,
+      size: (progress.targetSize || 0) * 1024, // bytes, reported by ffmpeg in kB
+      timemark: progress.timemark || null,
+      droppedFrames: telemetry.droppedFrames,
+      duplicatedFrames: telemetry.duplicatedFrames
+    };
+
+    telemetry.latest = sample;
+    if (sample.at - telemetry.lastSampleAt >= this.telemetryInterval) {
+      telemetry.samples.push(sample);
+      if (telemetry.samples.length > this.telemetryWindow) {
+        telemetry.samples.shift();
+      }
+      telemetry.lastSampleAt = sample.at;
+    }
+  }
+
+  getProgress(recordingId) {
+    const recording = this.activeRecordings.get(recordingId) || this.pausedRecordings.get(recordingId);
+    if (!recording) return null;
+
+    return {
+      ...this.summarizeActiveRecording(recordingId, recording),
+      samples: recording.telemetry.samples
+    };
+  }
+
+  summarizeActiveRecording(id, recording) {
+    const { telemetry } = recording;
+    const latest = telemetry.latest || {};
+    return {
+      id,
+      title: recording.title,
+      status: recording.pausedAt ? 'paused' : 'recording',
+      startTime: recording.startTime,
+      pausedAt: recording.pausedAt || null,
+      duration: (recording.pausedAt || Date.now()) - recording.startTime,
+      bitrate: latest.bitrate || 0,
+      fps: latest.fps || 0,
+      size: latest.size || 0,
+      timemark: latest.timemark || null,
+      droppedFrames: telemetry.droppedFrames,
+      duplicatedFrames: telemetry.duplicatedFrames
+    };
+  }
+
+  getRunningCount() {
+    return new Set([
+      ...this.activeRecordings.keys(),
+      ...this.startingRecordings,
+      ...this.pausedRecordings.keys()
+    ]).size;
+  }
+
+  async getMaxConcurrent() {
+    const value = parseInt(await settingsService.getValue('max_concurrent_recordings', this.defaultMaxConcurrent));
+    return value > 0 ? value : this.defaultMaxConcurrent;
+  }
+
+  getPriorityName(weight) {
+    return weight >= this.queuePriorities.scheduled ? 'scheduled' : 'manual';
+  }
+
+  async enqueueRecording(recordingId, priority = 'manual') {
+    const weight = this.queuePriorities[priority] !== undefined ? this.queuePriorities[priority] : this.queuePriorities.manual;
+
+    await database.query(
+      `INSERT INTO recording_queue (id, recording_id, priority)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (recording_id) DO NOTHING`,
+      [uuidv4(), recordingId, weight]
+    );
+    await database.query(
+      'UPDATE recordings SET status = $1 WHERE id = $2',
+      ['queued', recordingId]
+    );
+
+    logger.info(`Recording ${recordingId} queued (${priority}), concurrent recording limit reached`);
+    return { success: true, queued: true, message: 'Recording queued', recordingId };
+  }
+
+  // Returns whether the recording was on the queue
+  async dequeueRecording(recordingId) {
+    const result = await database.query(
+      'DELETE FROM recording_queue WHERE recording_id = $1 RETURNING id',
+      [recordingId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async getQueue() {
+    const result = await database.query(
+      `SELECT q.recording_id, q.priority, q.queued_at, r.title, r.stream_url, r.format, r.quality
+       FROM recording_queue q
+       JOIN recordings r ON r.id = q.recording_id
+       ORDER BY q.priority DESC, q.queued_at ASC`
+    );
+
+    return result.rows.map((entry, index) => ({
+      ...entry,
+      position: index + 1,
+      priority_name: this.getPriorityName(entry.priority)
+    }));
+  }
+
+  // Start queued recordings while slots are free. Drains are chained so two finishing
+  // recordings can't both hand their slot to the same queue entry.
+  processQueue() {
+    this.queueDrain = this.queueDrain
+      .then(() => this.drainQueue())
+      .catch(error => logger.error('Failed to process recording queue:', error.message));
+    return this.queueDrain;
+  }
+
+  async drainQueue() {
+    const maxConcurrent = await this.getMaxConcurrent();
+
+    while (this.getRunningCount() < maxConcurrent) {
+      const result = await database.query(
+        `SELECT recording_id, priority FROM recording_queue
+         ORDER BY priority DESC, queued_at ASC LIMIT 1`
+      );
+      const next = result.rows[0];
+      if (!next) break;
+
+      await this.dequeueRecording(next.recording_id);
+      const recording = await this.getRecordingById(next.recording_id);
+      if (!recording || recording.status !== 'queued') continue;
+
+      logger.info(`Starting queued recording: ${recording.title} (${recording.id})`);
+      try {
+        await this.startRecording(recording, { priority: this.getPriorityName(next.priority) });
+      } catch (error) {
+        logger.error(`Failed to start queued recording ${recording.id}:`, error.message);
+      }
+    }
+  }
+
+  startDiskMonitor() {
+    if (this.diskMonitor) return;
+    this.diskMonitor = setInterval(() => this.checkDiskSpace(), this.diskCheckInterval);
+  }
+
+  startWatchdog() {
+    if (this.watchdog) return;
+    this.watchdog = setInterval(() => this.checkForStalls(), this.watchdogInterval);
+  }
+
+  async getStallTimeout() {
+    const seconds = parseInt(await settingsService.getValue('stall_timeout_seconds', this.defaultStallTimeout));
+    return (seconds > 0 ? seconds : this.defaultStallTimeout) * 1000;
+  }
+
+  // A capture counts as alive while either its output grows or FFmpeg's timemark advances
+  async checkForStalls() {
+    if (this.getRunningCount() === 0) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+      return;
+    }
+
+    try {
+      const stallTimeout = await this.getStallTimeout();
+      const now = Date.now();
+
+      for (const [id, recording] of this.activeRecordings) {
+        const { watchdog } = recording;
+        if (watchdog.stalled || recording.stopping || recording.restarting) continue;
+
+        const outputSize = await this.getOutputSize(recording);
+        const timemark = recording.telemetry.latest ? recording.telemetry.latest.timemark : null;
+        if (outputSize > watchdog.outputSize || timemark !== watchdog.timemark) {
+          Object.assign(watchdog, { outputSize, timemark, activeAt: now });
+        } else if (now - watchdog.activeAt >= stallTimeout) {
+          watchdog.stalled = true;
+          this.handleStall(id, now - watchdog.activeAt);
+        }
+      }
+    } catch (error) {
+      logger.error('Stall check failed:', error.message);
+    }
+  }
+
+  async getOutputSize(recording) {
+    try {
+      if (recording.outputDir) {
+        return await hlsService.getDirectorySize(recording.outputDir);
+      }
+      return (await fs.stat(recording.filePath)).size;
+    } catch (error) {
+      return 0; // FFmpeg has not created the output yet
+    }
+  }
+
+  // Ask FFmpeg to finish and wait for it to exit; both 'q' on stdin and SIGTERM make it write
+  // the container trailer. 'q' is only read between packets, so SIGTERM follows if FFmpeg is
+  // blocked on the source, and SIGKILL if even that does not end it.
+  terminateCommand(command, { quit = false, timeoutMs = 10000 } = {}) {
+    // A stop during a stall restart waits for the same exit
+    if (this.terminations.has(command)) {
+      return this.terminations.get(command);
+    }
+
+    this.abandonedCommands.add(command);
+    const termination = new Promise((resolve) => {
+      const timers = [];
+      const done = () => {
+        timers.forEach(clearTimeout);
+        resolve();
+      };
+      command.once('end', done);
+      command.once('error', done);
+
+      const proc = command.ffmpegProc;
+      if (quit && proc && proc.stdin && proc.stdin.writable) {
+        proc.stdin.write('q');
+        timers.push(setTimeout(() => command.kill('SIGTERM'), timeoutMs));
+      } else {
+        command.kill('SIGTERM');
+      }
+      timers.push(setTimeout(() => {
+        command.kill('SIGKILL');
+        done();
+      }, timeoutMs * 2));
+    });
+    this.terminations.set(command, termination);
+    return termination;
+  }
+
+  // Restart a frozen capture from the same source. What was written so far is kept as a
+  // part (HLS keeps appending to the same directory), as with a source failover.
+  async handleStall(recordingId, stalledFor) {
+    const active = this.activeRecordings.get(recordingId);
+    const stalledSeconds = Math.round(stalledFor / 1000);
+    logger.warn(`Recording ${recordingId} stalled for ${stalledSeconds}s, restarting capture`);
+
+    await this.terminateCommand(active.command);
+    if (this.activeRecordings.get(recordingId) !== active || active.stopping) return; // stopped meanwhile
+
+    let stalls = [];
+    try {
+      const recording = await this.getRecordingById(recordingId);
+      stalls = this.parseMetadata(recording && recording.metadata).stalls || [];
+    } catch (error) {
+      logger.warn(`Could not read stall history for ${recordingId}: ${error.message}`);
+    }
+
+    // A source that keeps freezing is handed to the failover logic
+    if (stalls.length >= this.maxStallRestarts) {
+      await this.handleSourceFailure(recordingId, `Capture stalled ${stalls.length + 1} times`);
+      return;
+    }
+
+    const stall = {
+      at: new Date().toISOString(),
+      stalledFor: stalledSeconds,
+      timemark: active.watchdog.timemark,
+      source: active.sources[active.sourceIndex]
+    };
+    await this.updateMetadata(recordingId, {
+      stalls: [...stalls, stall],
+      stall_restarts: stalls.length + 1
+    }).catch(error => logger.warn(`Could not record stall for ${recordingId}: ${error.message}`));
+
+    try {
+      await this.restartCapture(recordingId, active);
+    } catch (error) {
+      logger.error(`Restart after stall failed for ${recordingId}:`, error.message);
+    }
+  }
+
+  // Continue an interrupted capture from the same source in a new part
+  async restartCapture(recordingId, active, { resolution = null } = {}) {
+    hlsService.stopSync(active.hlsSync);
+    this.activeRecordings.delete(recordingId);
+
+    const { recordingData, sourceIndex, filePath, outputDir } = active;
+    const parts = [...active.parts];
+    if (!outputDir && await this.isPlayable({ path: filePath, isDirectory: false })) {
+      parts.push(filePath);
+    }
+
+    await this.startRecording(recordingData, {
+      resume: true,
+      previousParts: parts,
+      outputDir,
+      sourceIndex,
+      priority: active.priority,
+      telemetry: active.telemetry,
+      resolution,
+      gapFrom: active.watchdog.activeAt
+    });
+  }
+
+  // Wall-clock time between two parts that is not in the joined video, left out of live
+  // marker offsets like pauses (see markerService.getLiveOffset)
+  recordCaptureGap(recordingId, from) {
+    const gap = { from: new Date(from).toISOString(), to: new Date().toISOString() };
+    return this.updateMetadata(recordingId, ({ capture_gaps: gaps = [] }) => ({ capture_gaps: [...gaps, gap] }))
+      .catch(error => logger.warn(`Could not record capture gap for ${recordingId}: ${error.message}`));
+  }
+
+  // When the last of the partial outputs was written, i.e. when an interrupted capture stopped
+  async getLastOutputTime(outputs) {
+    let last = null;
+    for (const output of outputs) {
+      const stats = await fs.stat(output.path).catch(() => null);
+      if (stats && (last === null || stats.mtimeMs > last)) last = stats.mtimeMs;
+    }
+    return last;
+  }
+
+  scheduleResolutionRefresh(recordingId, active) {
+    if (!active.resolution.expiresAt) return;
+
+    const untilExpiry = new Date(active.resolution.expiresAt).getTime() - Date.now();
+    const delay = Math.min(
+      Math.max(untilExpiry - this.resolutionRefreshMargin, this.minResolutionRefreshDelay),
+      2147483647 // longest setTimeout delay
+    );
+    setTimeout(() => this.refreshResolution(recordingId, active), delay).unref();
+  }
+
+  // A signed URL stops working once it expires, so the capture is moved to a freshly resolved
+  // URL shortly before. The new URL is resolved while the old capture keeps running, which
+  // keeps the gap between the two parts to an FFmpeg restart.
+  async refreshResolution(recordingId, active) {
+    const isCurrent = () => this.activeRecordings.get(recordingId) === active &&
+      !active.stopping && !active.restarting && !active.watchdog.stalled;
+    if (!isCurrent()) return;
+
+    const source = active.sources[active.sourceIndex];
+    let resolution;
+    try {
+      const { request_profile: requestProfile, stream_source: sourceId } = this.parseMetadata(active.recordingData.metadata);
+      const profile = await requestProfileService.resolveProfile({ sourceId, profile: requestProfile });
+      resolution = await streamResolverService.resolve(source, { profile });
+    } catch (error) {
+      // The current URL may outlive its stated expiry; if not, the stall watchdog takes over
+      logger.warn(`Could not re-resolve stream URL for ${recordingId}: ${error.message}`);
+      return;
+    }
+
+    if (!isCurrent()) return;
+    if (resolution.url === active.resolution.url) {
+      if (resolution.expiresAt && resolution.expiresAt > active.resolution.expiresAt) {
+        active.resolution = resolution;
+        this.scheduleResolutionRefresh(recordingId, active);
+      }
+      return;
+    }
+
+    logger.info(`Stream URL for ${recordingId} expires at ${active.resolution.expiresAt}, switching to a fresh URL`);
+    active.restarting = true;
+    await this.terminateCommand(active.command, { quit: true });
+    if (this.activeRecordings.get(recordingId) !== active || active.stopping) return; // stopped meanwhile
+
+    try {
+      const { url_refreshes: refreshes = [] } = await this.getRecordingMetadata(recordingId);
+      await this.updateMetadata(recordingId, {
+        url_refreshes: [...refreshes, {
+          at: new Date().toISOString(),
+          source,
+          resolver: resolution.resolver,
+          expiredAt: active.resolution.expiresAt
+        }]
+      });
+    } catch (error) {
+      logger.warn(`Could not record URL refresh for ${recordingId}: ${error.message}`);
+    }
+
+    try {
+      await this.restartCapture(recordingId, active, { resolution });
+    } catch (error) {
+      logger.error(`Restart with refreshed URL failed for ${recordingId}:`, error.message);
+    }
+  }
+
+  // Stops one recording per check while free space is below the reserve, so each
+  // stop gets a chance to free space before the next one is sacrificed
+  async checkDiskSpace() {
+    if (this.getRunningCount() === 0) {
+      clearInterval(this.diskMonitor);
+      this.diskMonitor = null;
+      return;
+    }
+
+    try {
+      const space = await diskSpaceService.getDiskSpace();
+      if (!space.low || this.activeRecordings.size === 0) return;
+
+      const [id, victim] = this.selectRecordingToShed();
+      if (!id) return;
+      const free = diskSpaceService.formatMb(space.free);
+      const reserve = diskSpaceService.formatMb(space.reserve);
+
+      logger.warn(`Low disk space (${free} free, ${reserve} reserved), stopping recording ${id}`);
+      await this.updateMetadata(id, {
+        disk_space_stop: { at: new Date().toISOString(), free: space.free, reserve: space.reserve }
+      }).catch(() => {});
+      await this.stopRecording(id, { reason: 'low_disk_space' });
+
+      await notificationService.notify(
+        'disk_space_low',
+        `Stopped "${victim.title}": ${free} free in ${space.path}, ${reserve} reserved`,
+        { recordingId: id, free: space.free, reserve: space.reserve, path: space.path }
+      );
+    } catch (error) {
+      logger.error('Disk space check failed:', error.message);
+    }
+  }
+
+  // Manual recordings go before scheduled ones; within a priority, the most recent start
+  // has the least footage to lose
+  selectRecordingToShed() {
+    const weight = entry => this.queuePriorities[entry.priority] || 0;
+    const candidates = [...this.activeRecordings.entries()].filter(([, entry]) => !entry.stopping);
+    if (candidates.length === 0) return [null, null];
+    return candidates.reduce((selected, candidate) => {
+      const [, current] = selected;
+      const [, next] = candidate;
+      if (weight(next) !== weight(current)) {
+        return weight(next) < weight(current) ? candidate : selected;
+      }
+      return next.startTime > current.startTime ? candidate : selected;
+    });
+  }
+
+  async getActiveRecordings() {
+    const active = [];
+    for (const [id, recording] of this.activeRecordings) {
+      active.push(this.summarizeActiveRecording(id, recording));
+    }
+    for (const [id, recording] of this.pausedRecordings) {
+      active.push(this.summarizeActiveRecording(id, recording));
+    }
+    return active;
+  }
+
+  async createRecording(data) {
+    try {
+      const id = uuidv4();
+      const {
+        title, description, stream_url, quality = 'best', format = 'mp4',
+        backup_urls = [], source_id = null, request_profile = {}, audio_tracks = [], video_variant = null,
+        subtitles = false
+      } = data;
+
+      if (!encodingProfileService.isPassThrough(quality)) {
+        const profile = await encodingProfileService.getProfileByName(quality);
+        if (!profile) {
+          throw new Error(`Unknown encoding profile: ${quality}`);
+        }
+      }
+
+      const result = await database.query(
+        `INSERT INTO recordings (id, title, description, stream_url, quality, format, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [id, title, description, stream_url, quality, format, JSON.stringify({
+          backup_urls, stream_source: source_id, request_profile, audio_tracks, video_variant,
+          capture_subtitles: subtitles
+        })]
+      );
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create recording:', error.message);
+      throw error;
+    }
+  }
+
+  // Markers of a recording carried into a video made from it. segments are the ranges of the
+  // recording the video is made of, in order, each optionally behind a lead-in that is not
+  // from the recording (a title card); offsets move to where the moment lands in the video.
+  // Markers outside every segment are left behind. Returns how many were copied.
+  async copyMarkers(fromRecordingId, toRecordingId, segments) {
+    const result = await database.query(
+      'SELECT * FROM recording_markers WHERE recording_id = $1 ORDER BY offset_seconds ASC',
+      [fromRecordingId]
+    );
+
+    let position = 0;
+    let copied = 0;
+    for (const { start, end, lead = 0 } of segments) {
+      position += lead;
+      for (const marker of result.rows.filter(entry => entry.offset_seconds >= start && entry.offset_seconds <= end)) {
+        await database.query(
+          `INSERT INTO recording_markers (id, recording_id, type, note, offset_seconds)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [uuidv4(), toRecordingId, marker.type, marker.note, Math.round((position + marker.offset_seconds - start) * 10) / 10]
+        );
+        copied += 1;
+      }
+      position += end - start;
+    }
+
+    return copied;
+  }
+
+  // A clip is a recording of its own, cut from a completed one and linked to it through
+  // metadata.clip. It is cut in the background and then post-processed like a capture.
+  async createClip(parent, { start, end, reencode = false, quality = 'best', title }) {
+    try {
+      if (parent.status !== 'completed' || !parent.s3_key) {
+        throw new Error(`Clips can only be cut from completed recordings (status: ${parent.status})`);
+      }
+      if (parent.duration && start >= parent.duration) {
+        throw new Error(`The clip starts after the end of the recording (${parent.duration}s)`);
+      }
+      if (reencode && !encodingProfileService.isPassThrough(quality)) {
+        const profile = await encodingProfileService.getProfileByName(quality);
+        if (!profile) {
+          throw new Error(`Unknown encoding profile: ${quality}`);
+        }
+      }
+
+      const id = uuidv4();
+      const clipEnd = parent.duration ? Math.min(end, parent.duration) : end;
+      const format = clipService.getFormat(parent);
+      const clip = { parent_id: parent.id, start, end: clipEnd, reencode };
+
+      const result = await database.query(
+        `INSERT INTO recordings (id, title, description, stream_url, status, quality, format, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          id,
+          title || `${parent.title} (${this.formatOffset(start)}-${this.formatOffset(clipEnd)})`,
+          parent.description,
+          parent.stream_url,
+          'processing',
+          reencode ? quality : parent.quality,
+          format,
+          JSON.stringify({ clip })
+        ]
+      );
+
+      const markers = await this.copyMarkers(parent.id, id, [{ start, end: clipEnd }]);
+      logger.info(`Clip ${id} of ${parent.id} created (${start}s-${clipEnd}s${reencode ? ', re-encoded' : ''}, ${markers} markers)`);
+      this.trackRender(id, () => this.extractClip(result.rows[0], parent))
+        .catch(error => logger.error(`Failed to extract clip ${id}:`, error.message));
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create clip:', error.message);
+      throw error;
+    }
+  }
+
+  // Covers the render and the post-processing started after it, so the recording is not
+  // deleted from under either (see deleteRecording)
+  async trackRender(recordingId, render) {
+    this.runningRenders.add(recordingId);
+    try {
+      await render();
+    } finally {
+      this.runningRenders.delete(recordingId);
+    }
+  }
+
+  async extractClip(recording, parent) {
+    const { clip } = this.parseMetadata(recording.metadata);
+    const outputPath = path.join(this.recordingsPath, `${recording.id}_clip.${recording.format}`);
+
+    try {
+      const options = await clipService.getOutputOptions({
+        reencode: clip.reencode,
+        quality: recording.quality,
+        audioOnly: this.isAudioOnly(recording.format),
+        format: recording.format
+      });
+      await clipService.cut(parent, outputPath, { start: clip.start, end: clip.end, options });
+    } catch (error) {
+      await fs.rm(outputPath, { force: true });
+      await this.handleRecordingError(recording.id, `Clip extraction failed: ${error.message}`);
+      return;
+    }
+
+    await this.startPipeline(recording.id, { path: outputPath });
+  }
+
+  // Clips of a recording, newest first
+  async getClips(parentId) {
+    const recordings = await this.getRecordings();
+    return recordings.filter(recording => {
+      const { clip } = this.parseMetadata(recording.metadata);
+      return clip && clip.parent_id === parentId;
+    });
+  }
+
+  // A highlights reel is rendered in the background into a recording of its own, linked to
+  // the source recording and to the match it was recorded for. Ranges come from the given
+  // markers unless explicit ranges are passed.
+  async createHighlights(source, {
+    markers = [], ranges = [], padding_before: before = 5, padding_after: after = 5,
+    title_cards: titleCards = false, title_card_duration: cardDuration = 3, title
+  }) {
+    try {
+      if (source.status !== 'completed' || !source.s3_key) {
+        throw new Error(`Highlights can only be built from completed recordings (status: ${source.status})`);
+      }
+      if (this.isAudioOnly(source.format)) {
+        throw new Error('Highlights need a recording with video');
+      }
+
+      const reelRanges = highlightService.buildRanges({ markers, ranges }, { before, after, duration: source.duration });
+      if (reelRanges.length === 0) {
+        throw new Error(ranges.length > 0 ? 'None of the ranges is within the recording' : 'The recording has no markers to build highlights from');
+      }
+
+      const id = uuidv4();
+      const highlights = {
+        source_id: source.id,
+        match_id: await this.getMatchId(source.id),
+        ranges: reelRanges,
+        padding: { before, after },
+        title_cards: titleCards,
+        title_card_duration: cardDuration,
+        progress: { percent: 0, step: 0, steps: 0 }
+      };
+
+      const result = await database.query(
+        `INSERT INTO recordings (id, title, description, stream_url, status, quality, format, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [id, title || `${source.title} - Highlights`, source.description, source.stream_url, 'processing', 'best', 'mp4',
+          JSON.stringify({ highlights })]
+      );
+
+      const markers = await this.copyMarkers(source.id, id, reelRanges.map(range => ({
+        ...range,
+        lead: titleCards && range.label ? cardDuration : 0
+      })));
+      logger.info(`Highlights ${id} of ${source.id} created (${reelRanges.length} ranges, ${markers} markers)`);
+      this.trackRender(id, () => this.renderHighlights(result.rows[0], source))
+        .catch(error => logger.error(`Failed to render highlights ${id}:`, error.message));
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create highlights:', error.message);
+      throw error;
+    }
+  }
+
+  // Renders every range (behind its title card) to a work directory, then joins them. Progress
+  // is stored in metadata.highlights.progress as the share of the reel rendered so far.
+  async renderHighlights(recording, source) {
+    const { highlights } = this.parseMetadata(recording.metadata);
+    const workDir = path.join(this.recordingsPath, `${recording.id}_highlights_work`);
+    const outputPath = path.join(this.recordingsPath, `${recording.id}_highlights.mp4`);
+    const cardDuration = highlights.title_cards ? highlights.title_card_duration : 0;
+    const total = highlightService.getTotalDuration(highlights.ranges, cardDuration);
+    const steps = highlights.ranges.length + (cardDuration ? highlights.ranges.filter(range => range.label).length : 0);
+    let rendered = 0;
+    let step = 0;
+    let lastSaved = 0;
+
+    const saveProgress = (current, force = false) => {
+      if (!force && Date.now() - lastSaved < 5000) return Promise.resolve();
+      lastSaved = Date.now();
+      const percent = total > 0 ? Math.min(100, Math.round(((rendered + current) / total) * 100)) : 0;
+      return this.updateMetadata(recording.id, { highlights: { ...highlights, progress: { percent, step, steps } } })
+        .catch(error => logger.warn(`Could not record highlights progress for ${recording.id}: ${error.message}`));
+    };
+
+    try {
+      await fs.rm(workDir, { recursive: true, force: true });
+      await fs.mkdir(workDir, { recursive: true });
+      // A signed HLS playlist is written into the work directory and goes with it
+      const input = await clipService.getSourceInput(source, path.join(workDir, 'source'));
+      const hasAudio = await highlightService.probeAudio(input);
+      const parts = [];
+
+      for (const [index, range] of highlights.ranges.entries()) {
+        if (cardDuration && range.label) {
+          step += 1;
+          const cardPath = path.join(workDir, `${index}_card.mp4`);
+          await highlightService.renderTitleCard(range.label, cardDuration, cardPath);
+          parts.push(cardPath);
+          rendered += cardDuration;
+          await saveProgress(0, true);
+        }
+
+        step += 1;
+        const segmentPath = path.join(workDir, `${index}_segment.mp4`);
+        await highlightService.renderSegment(input, range, segmentPath, {
+          hasAudio,
+          onProgress: current => saveProgress(current)
+        });
+        parts.push(segmentPath);
+        rendered += range.end - range.start;
+        await saveProgress(0, true);
+      }
+
+      await this.concatenateParts(parts, outputPath);
+    } catch (error) {
+      await fs.rm(outputPath, { force: true });
+      await this.handleRecordingError(recording.id, `Highlights rendering failed: ${error.message}`);
+      return;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+
+    await this.startPipeline(recording.id, { path: outputPath });
+  }
+
+  // Highlights reels built from a recording or for a match, newest first
+  async getHighlights({ sourceId, matchId }) {
+    const recordings = await this.getRecordings();
+    return recordings.filter(recording => {
+      const { highlights } = this.parseMetadata(recording.metadata);
+      return highlights && (sourceId ? highlights.source_id === sourceId : highlights.match_id === matchId);
+    });
+  }
+
+  // A match-only video keeps the two halves of a recording and drops what is before kickoff,
+  // after full time and in the halftime break. It is cut with stream copy, so each half starts
+  // at the keyframe before its boundary, and carries the halves as chapters.
+  async createMatchOnly(source, { title } = {}) {
+    try {
+      if (source.status !== 'completed' || !source.s3_key) {
+        throw new Error(`A match-only video can only be made from a completed recording (status: ${source.status})`);
+      }
+      const { boundaries } = this.parseMetadata(source.metadata);
+      if (!boundaries) {
+        throw new Error('The recording has no match boundaries; run highlight detection or set them by hand');
+      }
+
+      const id = uuidv4();
+      const segments = boundaryService.getMatchSegments(boundaries);
+      const matchOnly = {
+        source_id: source.id,
+        match_id: await this.getMatchId(source.id),
+        segments
+      };
+      const chapters = boundaryService.getJoinedChapters(segments);
+
+      const result = await database.query(
+        `INSERT INTO recordings (id, title, description, stream_url, status, quality, format, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [id, title || `${source.title} - Match only`, source.description, source.stream_url, 'processing',
+          source.quality, clipService.getFormat(source), JSON.stringify({ match_only: matchOnly, chapters })]
+      );
+
+      const markers = await this.copyMarkers(source.id, id, segments);
+      logger.info(`Match-only video ${id} of ${source.id} created with ${markers} markers`);
+      this.trackRender(id, () => this.renderMatchOnly(result.rows[0], source))
+        .catch(error => logger.error(`Failed to render match-only video ${id}:`, error.message));
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create match-only video:', error.message);
+      throw error;
+    }
+  }
+
+  async renderMatchOnly(recording, source) {
+    const { match_only: matchOnly, chapters } = this.parseMetadata(recording.metadata);
+    const workDir = path.join(this.recordingsPath, `${recording.id}_match_work`);
+    const outputPath = path.join(this.recordingsPath, `${recording.id}_match.${recording.format}`);
+
+    try {
+      await fs.rm(workDir, { recursive: true, force: true });
+      await fs.mkdir(workDir, { recursive: true });
+      const parts = [];
+
+      for (const [index, segment] of matchOnly.segments.entries()) {
+        const partPath = path.join(workDir, `${index}_half.${recording.format}`);
+        await clipService.cut(source, partPath, { start: segment.start, end: segment.end, options: ['-c', 'copy'] });
+        parts.push(partPath);
+      }
+
+      await this.concatenateParts(parts, outputPath, { chapters });
+    } catch (error) {
+      await fs.rm(outputPath, { force: true });
+      await this.handleRecordingError(recording.id, `Match-only rendering failed: ${error.message}`);
+      return;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+
+    await this.startPipeline(recording.id, { path: outputPath });
+  }
+
+  // Match-only videos made from a recording, newest first
+  async getMatchOnly(sourceId) {
+    const recordings = await this.getRecordings();
+    return recordings.filter(recording => {
+      const { match_only: matchOnly } = this.parseMetadata(recording.metadata);
+      return matchOnly && matchOnly.source_id === sourceId;
+    });
+  }
+
+  // The match a recording was made for: set on the match itself, or through its schedule
+  async getMatchId(recordingId) {
+    const match = await database.query('SELECT id FROM matches WHERE recording_id = $1 LIMIT 1', [recordingId]);
+    if (match.rows.length > 0) return match.rows[0].id;
+
+    const schedule = await database.query(
+      'SELECT match_id FROM schedules WHERE recording_id = $1 AND match_id IS NOT NULL LIMIT 1',
+      [recordingId]
+    );
+    return schedule.rows.length > 0 ? schedule.rows[0].match_id : null;
+  }
+
+  formatOffset(seconds) {
+    const total = Math.floor(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  }
+
+  async getRecordings(filters = {}) {
+    try {
+      let query = 'SELECT * FROM recordings';
+      const params = [];
+      const conditions = [];
+
+      if (filters.status) {
+        conditions.push(`status = $${params.length + 1}`);
+        params.push(filters.status);
+      }
+
+      if (filters.limit) {
+        query += conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+        query += ` ORDER BY created_at DESC LIMIT $${params.length + 1}`;
+        params.push(filters.limit);
+      } else {
+        query += conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+        query += ' ORDER BY created_at DESC';
+      }
+
+      const result = await database.query(query, params);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get recordings:', error.message);
+      throw error;
+    }
+  }
+
+  async getRecordingById(id) {
+    try {
+      const result = await database.query('SELECT * FROM recordings WHERE id = $1', [id]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to get recording by ID:', error.message);
+      throw error;
+    }
+  }
+
+  async deleteRecording(id) {
+    try {
+      const recording = await this.getRecordingById(id);
+      if (!recording) {
+        throw new Error('Recording not found');
+      }
+
+      if (this.runningRenders.has(id) || this.runningPipelines.has(id)) {
+        throw new Error('Recording is still being processed; delete it once processing has finished');
+      }
+
+      // Stop if active
+      if (this.activeRecordings.has(id) || this.pausedRecordings.has(id)) {
+        await this.stopRecording(id, { finalize: false });
+      }
+
+      const isHls = recording.format === 'hls';
+
+      // Delete from S3 if exists
+      if (this.parseMetadata(recording.metadata).thumbnail) {
+        await s3Service.deletePrefix(`${thumbnailService.getS3Prefix(id)}/`);
+      }
+      if ((this.parseMetadata(recording.metadata).subtitles || []).length > 0) {
+        await s3Service.deletePrefix(`${subtitleService.getS3Prefix(id)}/`);
+      }
+      if (isHls && recording.s3_key) {
+        await s3Service.deletePrefix(`${hlsService.getS3Prefix(id)}/`);
+      } else if (recording.s3_key) {
+        await s3Service.deleteFile(recording.s3_key);
+        if (this.parseMetadata(recording.metadata).abr) {
+          await s3Service.deletePrefix(`${abrService.getS3Prefix(id)}/`);
+        }
+      }
+
+      // Delete local file if exists
+      if (recording.file_path) {
+        try {
+          if (isHls) {
+            await fs.rm(path.dirname(recording.file_path), { recursive: true, force: true });
+          } else {
+            await fs.unlink(recording.file_path);
+          }
         } catch (error) {
           logger.warn(`Could not delete local file: ${error.message}`);
         }
       }
 
       // Delete from database
+      await this.dequeueRecording(id);
+      await this.cancelRetry(id);
+      await database.query('DELETE FROM recording_markers WHERE recording_id = $1', [id]);
+      await database.query('DELETE FROM recording_attempts WHERE recording_id = $1', [id]);
       await database.query('DELETE FROM recordings WHERE id = $1', [id]);
 
       return { success: true, message: 'Recording deleted' };
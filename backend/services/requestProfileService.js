@@ -0,0 +1,111 @@
+const { SocksProxyAgent } = require('socks-proxy-agent');
+const settingsService = require('./settingsService');
+
+// Used until the default_user_agent setting has been seeded
+const FALLBACK_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+// A request profile describes how to talk to a stream host:
+// { user_agent, referer, cookies, headers: { name: value }, proxy }
+class RequestProfileService {
+  getSourceKey(sourceId) {
+    return `request_profile.${sourceId}`;
+  }
+
+  async getSourceProfile(sourceId) {
+    return settingsService.getJsonValue(this.getSourceKey(sourceId), {});
+  }
+
+  async setSourceProfile(sourceId, profile) {
+    await settingsService.setValue(this.getSourceKey(sourceId), profile, {
+      description: `HTTP request profile for the ${sourceId} stream source`,
+      category: 'streaming'
+    });
+    return profile;
+  }
+
+  // Layers are applied default -> stream source -> recording
+  async resolveProfile({ sourceId = null, profile = {} } = {}) {
+    const userAgent = await settingsService.getValue('default_user_agent', FALLBACK_USER_AGENT);
+    const sourceProfile = sourceId ? await this.getSourceProfile(sourceId) : {};
+    return this.mergeProfiles({ user_agent: userAgent }, sourceProfile, profile);
+  }
+
+  // Empty fields never override; headers are merged so a layer can add one without repeating the rest
+  mergeProfiles(...profiles) {
+    return profiles.reduce((merged, profile) => {
+      const result = { ...merged, headers: { ...merged.headers } };
+      for (const [key, value] of Object.entries(profile || {})) {
+        if (key === 'headers') {
+          Object.assign(result.headers, value);
+        } else if (value !== undefined && value !== null && value !== '') {
+          result[key] = value;
+        }
+      }
+      return result;
+    }, { headers: {} });
+  }
+
+  isSocksProxy(proxy) {
+    return /^socks[45]?h?:\/\//i.test(proxy || '');
+  }
+
+  getHeaders(profile) {
+    const headers = { ...profile.headers };
+    if (profile.referer) headers.Referer = profile.referer;
+    if (profile.cookies) headers.Cookie = profile.cookies;
+    return headers;
+  }
+
+  getFfmpegInputOptions(profile) {
+    // libavformat's http protocol only speaks HTTP proxies
+    if (this.isSocksProxy(profile.proxy)) {
+      throw new Error('SOCKS proxies are not supported for capture, use an HTTP proxy');
+    }
+
+    const options = ['-user_agent', profile.user_agent || FALLBACK_USER_AGENT];
+
+    const headers = Object.entries(this.getHeaders(profile));
+    if (headers.length > 0) {
+      options.push('-headers', headers.map(([name, value]) => `${name}: ${value}\r\n`).join(''));
+    }
+
+    if (profile.proxy) {
+      options.push('-http_proxy', profile.proxy);
+    }
+
+    return options;
+  }
+
+  getAxiosConfig(profile) {
+    const config = {
+      headers: {
+        'User-Agent': profile.user_agent || FALLBACK_USER_AGENT,
+        ...this.getHeaders(profile)
+      }
+    };
+
+    if (this.isSocksProxy(profile.proxy)) {
+      const agent = new SocksProxyAgent(profile.proxy);
+      config.httpAgent = agent;
+      config.httpsAgent = agent;
+      config.proxy = false;
+    } else if (profile.proxy) {
+      const url = new URL(profile.proxy);
+      config.proxy = {
+        protocol: url.protocol.replace(':', ''),
+        host: url.hostname,
+        port: parseInt(url.port) || (url.protocol === 'https:' ? 443 : 80)
+      };
+      if (url.username) {
+        config.proxy.auth = {
+          username: decodeURIComponent(url.username),
+          password: decodeURIComponent(url.password)
+        };
+      }
+    }
+
+    return config;
+  }
+}
+
+module.exports = new RequestProfileService();
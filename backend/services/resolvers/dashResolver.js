@@ -0,0 +1,36 @@
+// MPEG-DASH manifests. The manifest is fetched once so a login page, an expired link or
+// DRM fails before FFmpeg is started instead of as an opaque demuxer error.
+const parseManifest = (xml) => {
+  if (!/<MPD[\s>]/.test(xml || '')) {
+    throw new Error('URL did not return a DASH manifest');
+  }
+  if (/<ContentProtection[\s>]/.test(xml)) {
+    throw new Error('DASH manifest is DRM protected');
+  }
+
+  const type = (xml.match(/<MPD[^>]*\btype="(\w+)"/) || [])[1] || 'static';
+  // A <Location> element moves the manifest, e.g. to a CDN edge with a signed URL
+  const location = (xml.match(/<Location>\s*([^<\s]+)\s*<\/Location>/) || [])[1] || null;
+
+  return { live: type === 'dynamic', location };
+};
+
+module.exports = {
+  name: 'dash',
+  label: 'DASH manifest',
+  parseManifest,
+
+  canResolve(url) {
+    return /^https?:$/.test(url.protocol) && url.pathname.toLowerCase().endsWith('.mpd');
+  },
+
+  async resolve(url, context) {
+    const response = await context.fetchText(url.href);
+    const manifest = parseManifest(response.body);
+    const manifestUrl = manifest.location
+      ? new URL(manifest.location.replace(/&amp;/g, '&'), response.url).href
+      : response.url; // after redirects
+
+    return { url: manifestUrl, inputFormat: 'dash', live: manifest.live };
+  }
+};
@@ -0,0 +1,18 @@
+// URLs FFmpeg can open as they are: media files, HLS playlists and non-HTTP protocols
+const MEDIA_EXTENSIONS = ['.m3u8', '.ts', '.mp4', '.m4v', '.mkv', '.webm', '.mov', '.flv', '.aac', '.mp3'];
+const STREAMING_PROTOCOLS = ['rtmp:', 'rtmps:', 'rtsp:', 'srt:', 'udp:', 'rtp:', 'file:'];
+
+module.exports = {
+  name: 'direct',
+  label: 'Direct media',
+
+  canResolve(url) {
+    if (STREAMING_PROTOCOLS.includes(url.protocol)) return true;
+    const pathname = url.pathname.toLowerCase();
+    return MEDIA_EXTENSIONS.some(extension => pathname.endsWith(extension));
+  },
+
+  async resolve(url) {
+    return { url: url.href };
+  }
+};
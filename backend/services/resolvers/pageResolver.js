@@ -0,0 +1,90 @@
+const { resolveWithYtDlp } = require('./youtubeResolver');
+
+// Web pages with an embedded player. The HTML is scanned for the media URL the player would
+// load; sites that build it in script are left to yt-dlp's extractors.
+const decodeUrl = (value) => value
+  .replace(/\\\//g, '/')
+  .replace(/\\u0026/gi, '&')
+  .replace(/&amp;/g, '&');
+
+const getAttributes = (tag) => {
+  const attributes = {};
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)\s*=\s*["']([^"']*)["']/g)) {
+    attributes[name.toLowerCase()] = value;
+  }
+  return attributes;
+};
+
+// Lower ranks are tried first: manifests over progressive files over embedded players
+const rankUrl = (url) => {
+  if (/\.m3u8(\?|$)/i.test(url)) return 0;
+  if (/\.mpd(\?|$)/i.test(url)) return 1;
+  if (/youtube(-nocookie)?\.com\/embed\//i.test(url)) return 3;
+  return 2;
+};
+
+const extractMediaUrls = (html, baseUrl) => {
+  const found = [];
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const { property, content } = getAttributes(tag);
+    if (content && /^og:video(:url|:secure_url)?$/i.test(property || '')) found.push(content);
+  }
+  for (const [tag] of html.matchAll(/<(?:video|source)\b[^>]*>/gi)) {
+    const { src } = getAttributes(tag);
+    if (src && !src.startsWith('blob:')) found.push(src);
+  }
+  for (const [tag] of html.matchAll(/<iframe\b[^>]*>/gi)) {
+    const { src } = getAttributes(tag);
+    if (src && /youtube(-nocookie)?\.com\/embed\//i.test(src)) found.push(src);
+  }
+  // Player configs in inline scripts, often JSON with escaped slashes
+  for (const [match] of html.matchAll(/https?:(?:\\?\/){2}[^"'\s<>]+?\.(?:m3u8|mpd)(?:\?[^"'\s<>]*)?(?=["'\s<>]|$)/gi)) {
+    found.push(match);
+  }
+
+  const urls = [];
+  for (const value of found) {
+    try {
+      const url = new URL(decodeUrl(value), baseUrl).href;
+      if (!urls.includes(url)) urls.push(url);
+    } catch (error) {
+      // not a URL after all
+    }
+  }
+  return urls.sort((a, b) => rankUrl(a) - rankUrl(b));
+};
+
+module.exports = {
+  name: 'page',
+  label: 'Web page',
+  extractMediaUrls,
+
+  canResolve(url) {
+    return /^https?:$/.test(url.protocol);
+  },
+
+  async resolve(url, context) {
+    const response = await context.fetchText(url.href);
+
+    // No extension to go by, but the URL serves media itself
+    if (response.body === null || response.body.trimStart().startsWith('#EXTM3U')) {
+      return { url: response.url };
+    }
+    if (/<MPD[\s>]/.test(response.body)) {
+      return { url: response.url, inputFormat: 'dash' };
+    }
+
+    const headers = { Referer: response.url, Origin: new URL(response.url).origin };
+    const [mediaUrl] = extractMediaUrls(response.body, response.url);
+    if (mediaUrl) {
+      return { url: mediaUrl, headers };
+    }
+
+    try {
+      return await resolveWithYtDlp(url.href, context);
+    } catch (error) {
+      throw new Error(`No playable stream found on the page (${error.message})`);
+    }
+  }
+};
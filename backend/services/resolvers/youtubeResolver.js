@@ -0,0 +1,47 @@
+// YouTube watch pages, resolved with yt-dlp. For a live event yt-dlp returns a signed HLS
+// playlist that expires after a few hours, which is what the expiry refresh is for.
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be', 'www.youtube-nocookie.com'];
+
+// Only headers that affect what the media host serves; yt-dlp also reports Accept and friends
+const FORWARDED_HEADERS = ['user-agent', 'referer', 'origin', 'cookie'];
+
+const parseYtDlpInfo = (json) => {
+  const info = typeof json === 'string' ? JSON.parse(json) : json;
+  const url = info.url || info.manifest_url;
+  if (!url) {
+    throw new Error('yt-dlp did not return a playable format');
+  }
+
+  const headers = {};
+  for (const [name, value] of Object.entries(info.http_headers || {})) {
+    if (FORWARDED_HEADERS.includes(name.toLowerCase())) headers[name] = value;
+  }
+
+  return {
+    url,
+    headers,
+    inputFormat: info.protocol === 'http_dash_segments' ? 'dash' : null,
+    live: !!info.is_live,
+    title: info.title || null
+  };
+};
+
+const resolveWithYtDlp = async (url, context) => {
+  const output = await context.runYtDlp(['--dump-single-json', '--no-playlist', '-f', 'best', url]);
+  return parseYtDlpInfo(output);
+};
+
+module.exports = {
+  name: 'youtube',
+  label: 'YouTube (yt-dlp)',
+  parseYtDlpInfo,
+  resolveWithYtDlp,
+
+  canResolve(url) {
+    return YOUTUBE_HOSTS.includes(url.hostname.toLowerCase());
+  },
+
+  async resolve(url, context) {
+    return resolveWithYtDlp(url.href, context);
+  }
+};
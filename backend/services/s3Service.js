@@ -16,6 +16,9 @@ class S3Service {
     });
 
     this.bucket = process.env.S3_BUCKET;
+    // Multipart uploads use a fixed part size so the ETag S3 reports can be predicted locally
+    this.partSize = 8 * 1024 * 1024;
+    this.maxParts = 10000;
     
     if (!this.bucket) {
       logger.error('S3_BUCKET environment variable is required');
@@ -58,7 +61,7 @@ class S3Service {
       }
 
       // Upload with progress tracking
-      const upload = this.s3.upload(uploadParams);
+      const upload = this.s3.upload(uploadParams, { partSize: this.getPartSize(fileSize) });
       
       // Track upload progress
       upload.on('httpUploadProgress', (progress) => {
@@ -88,6 +91,15 @@ class S3Service {
     }
   }
 
+  // The part size is only raised for files that would otherwise need more parts than S3 allows
+  getPartSize(fileSize) {
+    return Math.max(this.partSize, Math.ceil(fileSize / this.maxParts));
+  }
+
+  getObjectStream(s3Key) {
+    return this.s3.getObject({ Bucket: this.bucket, Key: s3Key }).createReadStream();
+  }
+
   async downloadFile(s3Key, localPath) {
     try {
       logger.info(`Downloading file from S3: ${s3Key} -> ${localPath}`);
@@ -167,6 +179,48 @@ class S3Service {
     }
   }
 
+  async deletePrefix(prefix) {
+    try {
+      logger.info(`Deleting files from S3 with prefix: ${prefix}`);
+
+      let deleted = 0;
+      let continuationToken;
+
+      do {
+        const listResult = await this.s3.listObjectsV2({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken
+        }).promise();
+
+        const objects = listResult.Contents.map(obj => ({ Key: obj.Key }));
+        if (objects.length > 0) {
+          await this.s3.deleteObjects({
+            Bucket: this.bucket,
+            Delete: { Objects: objects }
+          }).promise();
+          deleted += objects.length;
+        }
+
+        continuationToken = listResult.IsTruncated ? listResult.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      logger.info(`Deleted ${deleted} files with prefix: ${prefix}`);
+      return {
+        success: true,
+        prefix,
+        deleted
+      };
+
+    } catch (error) {
+      logger.error(`Failed to delete files with prefix ${prefix}:`, error.message);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
   async getFileInfo(s3Key) {
     try {
       const params = {
@@ -190,7 +244,8 @@ class S3Service {
       logger.error(`Failed to get file info ${s3Key}:`, error.message);
       return {
         success: false,
-        error: error.message
+        error: error.message,
+        code: error.code
       };
     }
   }
@@ -257,6 +312,86 @@ class S3Service {
     }
   }
 
+  // Read URLs for several objects at once, signed without a log line each
+  signGetUrls(s3Keys, expiresIn = 3600) {
+    return Promise.all(s3Keys.map(s3Key => this.s3.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: s3Key,
+      Expires: expiresIn
+    })));
+  }
+
+  async getObjectContent(s3Key) {
+    try {
+      const params = {
+        Bucket: this.bucket,
+        Key: s3Key
+      };
+
+      const result = await this.s3.getObject(params).promise();
+
+      return {
+        success: true,
+        key: s3Key,
+        content: result.Body.toString('utf8'),
+        contentType: result.ContentType
+      };
+
+    } catch (error) {
+      logger.error(`Failed to read file ${s3Key}:`, error.message);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
+  // Return an HLS playlist whose relative segment URIs are replaced with presigned URLs,
+  // so private buckets can be played back without exposing the whole prefix
+  async generatePresignedPlaylist(playlistKey, expiresIn = 7200) {
+    try {
+      const playlistResult = await this.getObjectContent(playlistKey);
+      if (!playlistResult.success) {
+        throw new Error(playlistResult.error);
+      }
+
+      const baseKey = path.posix.dirname(playlistKey);
+      const lines = playlistResult.content.split(/\r?\n/);
+      const rewritten = [];
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#') || /^https?:\/\//i.test(trimmed)) {
+          rewritten.push(line);
+          continue;
+        }
+
+        // Sign directly to avoid logging one line per segment
+        const url = await this.s3.getSignedUrlPromise('getObject', {
+          Bucket: this.bucket,
+          Key: path.posix.join(baseKey, trimmed),
+          Expires: expiresIn
+        });
+        rewritten.push(url);
+      }
+
+      return {
+        success: true,
+        key: playlistKey,
+        content: rewritten.join('\n'),
+        expiresIn,
+        expiresAt: new Date(Date.now() + expiresIn * 1000)
+      };
+
+    } catch (error) {
+      logger.error(`Failed to generate presigned playlist for ${playlistKey}:`, error.message);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
   async testConnection() {
     try {
       logger.info('Testing S3 connection...');
@@ -285,6 +420,10 @@ class S3Service {
       '.webm': 'video/webm',
       '.m4v': 'video/x-m4v',
       '.ts': 'video/mp2t',
+      '.m4a': 'audio/mp4',
+      '.opus': 'audio/ogg',
+      '.vtt': 'text/vtt',
+      '.jpg': 'image/jpeg',
       '.m3u8': 'application/x-mpegURL'
     };
 
@@ -23,12 +23,18 @@ class SchedulerService {
       // Start the main scheduler that runs every minute
       this.startMainScheduler();
 
+      // Reconcile recordings that were active when the backend last stopped
+      await this.recoverInterruptedRecordings();
+
       // Load existing schedules from database
       await this.loadExistingSchedules();
 
       // Start automatic match fetching (runs every hour)
       this.startMatchFetcher();
 
+      // Re-verify stored recordings against their checksums (runs every hour)
+      this.startIntegrityChecker();
+
       this.isInitialized = true;
       logger.info('✅ Scheduler service initialized successfully');
 
@@ -64,6 +70,22 @@ class SchedulerService {
     logger.info('Match fetcher started (runs every hour)');
   }
 
+  startIntegrityChecker() {
+    // Run every hour, off the hour so it does not overlap the match fetcher
+    cron.schedule('15 * * * *', async () => {
+      try {
+        const checked = await recordingService.verifyStoredRecordings();
+        if (checked > 0) {
+          logger.info(`Integrity checker verified ${checked} stored recordings`);
+        }
+      } catch (error) {
+        logger.error('Integrity checker error:', error.message);
+      }
+    });
+
+    logger.info('Integrity checker started (runs every hour)');
+  }
+
   async checkScheduledRecordings() {
     try {
       const now = new Date();
@@ -71,7 +93,8 @@ class SchedulerService {
 
       // Get schedules that should start within the next 5 minutes
       const result = await database.query(`
-        SELECT s.*, r.title, r.stream_url, r.quality, r.format, m.home_team, m.away_team
+        SELECT s.*, r.title, r.stream_url, r.quality, r.format, m.home_team, m.away_team,
+          m.stream_url as match_stream_url, m.metadata as match_metadata
         FROM schedules s
         LEFT JOIN recordings r ON s.recording_id = r.id
         LEFT JOIN matches m ON s.match_id = m.id
@@ -96,6 +119,8 @@ class SchedulerService {
   }
 
   async executeScheduledRecording(schedule) {
+    let recording;
+
     try {
       logger.info(`Executing scheduled recording: ${schedule.id}`);
 
@@ -105,20 +130,20 @@ class SchedulerService {
         ['executing', schedule.id]
       );
 
-      let recording;
-
       if (schedule.recording_id) {
         // Use existing recording
         recording = await recordingService.getRecordingById(schedule.recording_id);
       } else if (schedule.match_id) {
         // Create recording for match
         const title = `${schedule.home_team} vs ${schedule.away_team}`;
+        const { backup_urls = [] } = recordingService.parseMetadata(schedule.match_metadata);
         const recordingData = {
           title,
           description: `Automatic recording for scheduled match`,
-          stream_url: schedule.stream_url || 'https://example.com/stream.m3u8', // This should be provided
+          stream_url: schedule.stream_url || schedule.match_stream_url || 'https://example.com/stream.m3u8', // This should be provided
           quality: 'best',
-          format: 'mp4'
+          format: 'mp4',
+          backup_urls
         };
 
         recording = await recordingService.createRecording(recordingData);
@@ -134,8 +159,8 @@ class SchedulerService {
         throw new Error('No recording found or created');
       }
 
-      // Start the recording
-      await recordingService.startRecording(recording);
+      // Start the recording; matches jump ahead of manual starts if it has to wait for a slot
+      await recordingService.startRecording(recording, { priority: 'scheduled' });
 
       // Schedule stop time if specified
       if (schedule.scheduled_end) {
@@ -153,10 +178,16 @@ class SchedulerService {
     } catch (error) {
       logger.error(`Failed to execute scheduled recording ${schedule.id}:`, error.message);
 
-      // Update schedule status to failed
+      // A start that failed may still be retried before the match ends; the schedule stays
+      // active so the retried capture is stopped on time
+      const retrying = recording && recordingService.hasPendingRetry(recording.id);
+      if (retrying && schedule.scheduled_end) {
+        await this.scheduleRecordingStop(recording.id, schedule.scheduled_end);
+      }
+
       await database.query(
         'UPDATE schedules SET status = $1 WHERE id = $2',
-        ['failed', schedule.id]
+        [retrying ? 'active' : 'failed', schedule.id]
       );
     }
   }
@@ -167,7 +198,7 @@ class SchedulerService {
     if (delay > 0) {
       setTimeout(async () => {
         try {
-          await recordingService.stopRecording(recordingId);
+          await recordingService.stopRecording(recordingId, { reason: 'scheduled_end' });
           logger.info(`Scheduled recording stopped: ${recordingId}`);
         } catch (error) {
           logger.error(`Failed to stop scheduled recording ${recordingId}:`, error.message);
@@ -176,6 +207,26 @@ class SchedulerService {
     }
   }
 
+  async recoverInterruptedRecordings() {
+    const resumed = await recordingService.recoverInterruptedRecordings();
+
+    // The stop timers of resumed recordings were lost with the previous process
+    for (const { id, scheduledEnd } of resumed) {
+      await this.scheduleRecordingStop(id, scheduledEnd);
+    }
+
+    // So were the timers of retries still due; their stop is needed once the retry runs
+    const retrying = await recordingService.restorePendingRetries();
+    for (const { id, scheduledEnd } of retrying) {
+      if (scheduledEnd) {
+        await this.scheduleRecordingStop(id, scheduledEnd);
+      }
+    }
+
+    // Queued recordings survive restarts; start them now that resumed captures hold their slots
+    await recordingService.processQueue();
+  }
+
   async fetchUpcomingMatches() {
     try {
       logger.info('Fetching upcoming matches...');
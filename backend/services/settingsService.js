@@ -0,0 +1,68 @@
+const { v4: uuidv4 } = require('uuid');
+const logger = require('../utils/logger');
+const database = require('../config/database');
+
+class SettingsService {
+  async getSettings(category = null) {
+    try {
+      const result = category
+        ? await database.query('SELECT * FROM settings WHERE category = $1 ORDER BY key ASC', [category])
+        : await database.query('SELECT * FROM settings ORDER BY key ASC');
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get settings:', error.message);
+      throw error;
+    }
+  }
+
+  async getValue(key, defaultValue = null) {
+    try {
+      const result = await database.query('SELECT value FROM settings WHERE key = $1', [key]);
+      return result.rows.length > 0 ? result.rows[0].value : defaultValue;
+    } catch (error) {
+      logger.warn(`Failed to read setting ${key}: ${error.message}`);
+      return defaultValue;
+    }
+  }
+
+  // Values holding structured data (e.g. request profiles) are stored as JSON text
+  async getJsonValue(key, defaultValue = null) {
+    const value = await this.getValue(key);
+    if (value === null) return defaultValue;
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      logger.warn(`Setting ${key} is not valid JSON`);
+      return defaultValue;
+    }
+  }
+
+  async setValue(key, value, { description = null, category = 'general' } = {}) {
+    try {
+      const stored = typeof value === 'string' ? value : JSON.stringify(value);
+
+      await database.query(
+        `INSERT INTO settings (id, key, value, description, category)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+        [uuidv4(), key, stored, description, category]
+      );
+
+      logger.info(`Setting updated: ${key}`);
+      return { key, value: stored };
+    } catch (error) {
+      logger.error(`Failed to update setting ${key}:`, error.message);
+      throw error;
+    }
+  }
+
+  async updateSettings(values) {
+    const updated = [];
+    for (const [key, value] of Object.entries(values)) {
+      updated.push(await this.setValue(key, value));
+    }
+    return updated;
+  }
+}
+
+module.exports = new SettingsService();
@@ -0,0 +1,220 @@
+const axios = require('axios');
+const { spawn } = require('child_process');
+const logger = require('../utils/logger');
+const requestProfileService = require('./requestProfileService');
+const youtubeResolver = require('./resolvers/youtubeResolver');
+const dashResolver = require('./resolvers/dashResolver');
+const directResolver = require('./resolvers/directResolver');
+const pageResolver = require('./resolvers/pageResolver');
+
+// Turns what a user pastes as a stream URL (watch page, player page, DASH manifest) into a URL
+// FFmpeg can open plus the headers it needs. A resolver is
+// { name, label, canResolve(url: URL), resolve(url: URL, context) } where resolve returns
+// { url, headers?, inputFormat?, live? }. All network access goes through the context
+// ({ fetchText, runYtDlp }), so a resolver can be driven by local fixtures.
+class StreamResolverService {
+  constructor() {
+    // Checked in order; the generic page resolver claims any HTTP URL, so it stays last
+    this.resolvers = [youtubeResolver, dashResolver, directResolver, pageResolver];
+    this.ytDlpPath = process.env.YTDLP_PATH || 'yt-dlp';
+    this.fetchTimeout = 15000; // ms
+    this.ytDlpTimeout = 30000; // ms
+    this.maxPageSize = 2 * 1024 * 1024; // bytes of HTML scanned for a player
+    this.maxHops = 3; // e.g. page -> YouTube embed -> signed playlist
+  }
+
+  // Site-specific resolvers take precedence over the generic page resolver
+  register(resolver) {
+    this.resolvers = this.resolvers.filter(existing => existing.name !== resolver.name);
+    this.resolvers.splice(this.resolvers.indexOf(pageResolver), 0, resolver);
+  }
+
+  parseUrl(value) {
+    try {
+      return new URL(value);
+    } catch (error) {
+      throw new Error(`Invalid stream URL: ${value}`);
+    }
+  }
+
+  // Anything no resolver claims is handed to FFmpeg unchanged
+  getResolver(url) {
+    return this.resolvers.find(resolver => resolver.canResolve(url)) || directResolver;
+  }
+
+  // Which resolver a URL will go through, without resolving it (used to label stream listings)
+  getResolverName(value) {
+    try {
+      return this.getResolver(new URL(value)).name;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // profile: resolved request profile used for the lookups themselves
+  // context: replaces the network helpers, e.g. with fixtures
+  async resolve(input, { profile = {}, context = null } = {}) {
+    const resolveContext = context || this.createContext(profile);
+    const chain = [];
+    const headers = {};
+    let url = this.parseUrl(input);
+    let result = null;
+
+    for (let hop = 0; hop < this.maxHops; hop++) {
+      const resolver = this.getResolver(url);
+      chain.push(resolver.name);
+      result = await resolver.resolve(url, resolveContext);
+      Object.assign(headers, result.headers);
+
+      // Follow the result only into resolvers that do something with it (validate a
+      // manifest, sign a watch URL); generic pages are never chased to avoid loops
+      const next = this.parseUrl(result.url);
+      const nextResolver = this.getResolver(next);
+      if (next.href === url.href || [directResolver, pageResolver].includes(nextResolver) ||
+          chain.includes(nextResolver.name)) {
+        break;
+      }
+      url = next;
+    }
+
+    if (chain[0] !== 'direct') {
+      logger.info(`Resolved stream URL via ${chain.join(' -> ')}: ${input}`);
+    }
+
+    return {
+      resolver: chain[0],
+      chain,
+      url: result.url,
+      profile: this.toRequestProfile(headers),
+      inputFormat: result.inputFormat || null,
+      live: result.live === undefined ? null : result.live,
+      expiresAt: this.getExpiry(result.url),
+      resolvedAt: new Date().toISOString()
+    };
+  }
+
+  // Signed CDN URLs carry their expiry as a unix timestamp, in the query (expire=, Expires=,
+  // Akamai's exp=) or as a path segment (YouTube's /expire/<ts>/)
+  getExpiry(value) {
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch (error) {
+      // malformed escapes, match the raw URL
+    }
+    const match = decoded.match(/(?:[?&/~;])(?:expire|expires|exp)[=/](\d{10,13})(?!\d)/i);
+    if (!match) return null;
+
+    const timestamp = parseInt(match[1]);
+    const expiresAt = new Date(match[1].length === 13 ? timestamp : timestamp * 1000);
+    return expiresAt > new Date() ? expiresAt.toISOString() : null;
+  }
+
+  // Resolver headers expressed as a request profile layer
+  toRequestProfile(headers) {
+    const profile = { headers: {} };
+    for (const [name, value] of Object.entries(headers)) {
+      switch (name.toLowerCase()) {
+        case 'user-agent':
+          profile.user_agent = value;
+          break;
+        case 'referer':
+          profile.referer = value;
+          break;
+        case 'cookie':
+          profile.cookies = value;
+          break;
+        default:
+          profile.headers[name] = value;
+      }
+    }
+    return profile;
+  }
+
+  createContext(profile) {
+    return {
+      fetchText: (url) => this.fetchText(url, profile),
+      runYtDlp: (args) => this.runYtDlp(args, profile)
+    };
+  }
+
+  // Only text is read; a URL that turns out to serve media returns body null, so a live
+  // stream without a file extension is not downloaded here
+  async fetchText(url, profile) {
+    const response = await axios.get(url, {
+      ...requestProfileService.getAxiosConfig(profile),
+      responseType: 'stream',
+      timeout: this.fetchTimeout,
+      maxRedirects: 5
+    });
+    const finalUrl = (response.request.res && response.request.res.responseUrl) || url;
+    const contentType = response.headers['content-type'] || '';
+
+    if (!/text|html|xml|json|mpegurl/i.test(contentType)) {
+      response.data.destroy();
+      return { url: finalUrl, contentType, body: null };
+    }
+
+    const body = await new Promise((resolve, reject) => {
+      let text = '';
+      response.data.setEncoding('utf8');
+      response.data.on('data', (chunk) => {
+        text += chunk;
+        if (text.length > this.maxPageSize) {
+          response.data.destroy();
+          resolve(text);
+        }
+      });
+      response.data.on('end', () => resolve(text));
+      response.data.on('error', reject);
+    });
+
+    return { url: finalUrl, contentType, body };
+  }
+
+  runYtDlp(args, profile) {
+    const profileArgs = ['--no-warnings'];
+    if (profile.user_agent) profileArgs.push('--user-agent', profile.user_agent);
+    if (profile.referer) profileArgs.push('--referer', profile.referer);
+    if (profile.cookies) profileArgs.push('--add-header', `Cookie:${profile.cookies}`);
+    for (const [name, value] of Object.entries(profile.headers || {})) {
+      profileArgs.push('--add-header', `${name}:${value}`);
+    }
+    if (profile.proxy) profileArgs.push('--proxy', profile.proxy);
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.ytDlpPath, [...profileArgs, ...args]);
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, this.ytDlpTimeout);
+
+      child.stdout.on('data', (data) => { stdout += data; });
+      child.stderr.on('data', (data) => { stderr += data; });
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(error.code === 'ENOENT'
+          ? 'yt-dlp is not installed (set YTDLP_PATH)'
+          : `Could not run yt-dlp: ${error.message}`));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`yt-dlp did not answer within ${Math.round(this.ytDlpTimeout / 1000)} seconds`));
+        } else if (code !== 0) {
+          reject(new Error(stderr.trim().split('\n').pop() || `yt-dlp exited with code ${code}`));
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+  }
+}
+
+module.exports = new StreamResolverService();
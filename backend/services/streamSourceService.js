@@ -1,5 +1,7 @@
 const axios = require('axios');
 const logger = require('../utils/logger');
+const requestProfileService = require('./requestProfileService');
+const streamResolverService = require('./streamResolverService');
 
 class StreamSourceService {
   constructor() {
@@ -105,7 +107,9 @@ class StreamSourceService {
         throw new Error('YouTube API key not configured');
       }
 
+      const requestConfig = await this.getRequestConfig('youtube');
       const response = await axios.get(`${source.baseUrl}${source.endpoints.search}`, {
+        ...requestConfig,
         params: {
           part: 'snippet',
           eventType: 'live',
@@ -199,19 +203,19 @@ class StreamSourceService {
       const allStreams = [];
       
       if (superSportStreams.status === 'fulfilled') {
-        allStreams.push(...superSportStreams.value.map(stream => ({ ...stream, source: 'supersport' })));
+        allStreams.push(...this.withSource(superSportStreams.value, 'supersport'));
       }
       
       if (youtubeStreams.status === 'fulfilled') {
-        allStreams.push(...youtubeStreams.value.map(stream => ({ ...stream, source: 'youtube' })));
+        allStreams.push(...this.withSource(youtubeStreams.value, 'youtube'));
       }
       
       if (fifaStreams.status === 'fulfilled') {
-        allStreams.push(...fifaStreams.value.map(stream => ({ ...stream, source: 'fifa' })));
+        allStreams.push(...this.withSource(fifaStreams.value, 'fifa'));
       }
       
       if (cafStreams.status === 'fulfilled') {
-        allStreams.push(...cafStreams.value.map(stream => ({ ...stream, source: 'caftv' })));
+        allStreams.push(...this.withSource(cafStreams.value, 'caftv'));
       }
 
       logger.info('Retrieved all live streams', { totalCount: allStreams.length });
@@ -249,13 +253,44 @@ class StreamSourceService {
         throw new Error(`Stream not found: ${streamId}`);
       }
 
-      return { ...stream, source: sourceId };
+      return this.withSource([stream], sourceId)[0];
     } catch (error) {
       logger.error(`Error fetching stream ${streamId} from ${sourceId}:`, error.message);
       throw error;
     }
   }
 
+  // Tag listed streams with their source and the resolver their URL will go through
+  withSource(streams, sourceId) {
+    return streams.map(stream => ({
+      ...stream,
+      source: sourceId,
+      resolver: streamResolverService.getResolverName(stream.url)
+    }));
+  }
+
+  // Get the HTTP request profile (headers, cookies, proxy) used for a source
+  async getRequestProfile(sourceId) {
+    if (!this.sources[sourceId]) {
+      throw new Error(`Unknown source: ${sourceId}`);
+    }
+    return requestProfileService.getSourceProfile(sourceId);
+  }
+
+  // Update the HTTP request profile used for a source
+  async updateRequestProfile(sourceId, profile) {
+    if (!this.sources[sourceId]) {
+      throw new Error(`Unknown source: ${sourceId}`);
+    }
+    return requestProfileService.setSourceProfile(sourceId, profile);
+  }
+
+  // Axios options carrying the source's request profile
+  async getRequestConfig(sourceId) {
+    const profile = await requestProfileService.resolveProfile({ sourceId });
+    return requestProfileService.getAxiosConfig(profile);
+  }
+
   // Test connection to a specific source
   async testSourceConnection(sourceId) {
     try {
@@ -270,7 +305,9 @@ class StreamSourceService {
 
       // For YouTube, test the actual API
       if (sourceId === 'youtube' && source.apiKey) {
+        const requestConfig = await this.getRequestConfig(sourceId);
         await axios.get(`${source.baseUrl}/search`, {
+          ...requestConfig,
           params: {
             part: 'snippet',
             type: 'video',
@@ -0,0 +1,222 @@
+const ffmpeg = require('fluent-ffmpeg');
+const path = require('path');
+const fs = require('fs').promises;
+
+const logger = require('../utils/logger');
+const s3Service = require('./s3Service');
+
+// Subtitles are kept as WebVTT sidecars next to the video. Text subtitle renditions are
+// written by the capture itself, one file per track and part; CEA-608 captions travel inside
+// the video stream and are extracted from the finished file.
+class SubtitleService {
+  constructor() {
+    this.sidecars = new Map(); // recordingId -> [{ path, key, language, offset }]
+    // Bitmap subtitles (DVB, PGS) cannot become WebVTT and are left out
+    this.textCodecs = ['webvtt', 'subrip', 'mov_text', 'ass', 'ssa', 'text'];
+  }
+
+  getS3Prefix(recordingId) {
+    return `subtitles/${recordingId}`;
+  }
+
+  // Tracks are keyed by language so the parts of a failover to a backup source, where stream
+  // indices differ, still end up in the same file
+  getTextStreams(probe) {
+    const streams = (probe.streams || []).filter(stream =>
+      stream.codec_type === 'subtitle' && this.textCodecs.includes(stream.codec_name));
+
+    return streams.map((stream, position) => {
+      const language = (stream.tags && stream.tags.language) || null;
+      const shared = streams.filter(other => ((other.tags && other.tags.language) || null) === language).length > 1;
+      return {
+        index: stream.index,
+        language,
+        key: language && !shared ? language : `${language || 'und'}-${position + 1}`
+      };
+    });
+  }
+
+  hasClosedCaptions(probe) {
+    return (probe.streams || []).some(stream => stream.codec_type === 'video' && stream.closed_captions);
+  }
+
+  // Add a WebVTT output per text subtitle stream to a capture command. offset is where this
+  // part starts in the final video; sidecars at or past it belong to parts that were dropped.
+  addSidecarOutputs(recordingId, command, { probe, basePath, offset }) {
+    const kept = (this.sidecars.get(recordingId) || []).filter(sidecar => sidecar.offset < offset);
+    const added = this.getTextStreams(probe).map(stream => ({
+      path: `${basePath}.${stream.key}.vtt`,
+      key: stream.key,
+      language: stream.language,
+      offset,
+      index: stream.index
+    }));
+
+    for (const sidecar of added) {
+      command
+        .output(sidecar.path)
+        .outputOptions(['-map', `0:${sidecar.index}`, '-c:s', 'webvtt', '-f', 'webvtt', '-y']);
+    }
+
+    this.sidecars.set(recordingId, [...kept, ...added]);
+    return added.length;
+  }
+
+  // The sidecars of a capture without FFmpeg's stream indices, as kept in the recording's
+  // metadata so they outlive a backend restart
+  getSidecars(recordingId) {
+    return (this.sidecars.get(recordingId) || []).map(({ path: sidecarPath, key, language, offset }) => ({
+      path: sidecarPath, key, language, offset
+    }));
+  }
+
+  // Sidecars listed by an earlier run of the backend; ones this run already knows take precedence
+  restoreSidecars(recordingId, sidecars = []) {
+    if (!this.sidecars.has(recordingId) && sidecars.length > 0) {
+      this.sidecars.set(recordingId, sidecars);
+    }
+  }
+
+  // Join each track's parts, extract captions if the source had them, and upload the results.
+  // Returns the uploaded tracks; failures only cost the subtitles, never the recording.
+  async finalize(recordingId, videoPath, { closedCaptions = false } = {}) {
+    const sidecars = this.sidecars.get(recordingId) || [];
+    this.sidecars.delete(recordingId);
+    const baseName = videoPath.replace(/(\.[^./]+)$/, '');
+    const tracks = [];
+
+    try {
+      const keys = [...new Set(sidecars.map(sidecar => sidecar.key))];
+      for (const key of keys) {
+        const parts = sidecars.filter(sidecar => sidecar.key === key);
+        const outputPath = `${baseName}.${key}.joined.vtt`;
+        const cues = await this.joinParts(parts, outputPath);
+        if (cues > 0) {
+          tracks.push(await this.uploadTrack(recordingId, outputPath, {
+            id: key, language: parts[0].language, kind: 'subtitles', cues
+          }));
+        }
+        await fs.rm(outputPath, { force: true });
+      }
+
+      if (closedCaptions) {
+        const outputPath = `${baseName}.captions.vtt`;
+        if (await this.extractClosedCaptions(videoPath, outputPath)) {
+          const cues = this.countCues(await fs.readFile(outputPath, 'utf8'));
+          if (cues > 0) {
+            tracks.push(await this.uploadTrack(recordingId, outputPath, {
+              id: 'captions', language: null, kind: 'captions', cues
+            }));
+          }
+        }
+        await fs.rm(outputPath, { force: true });
+      }
+    } catch (error) {
+      logger.error(`Failed to finalize subtitles for ${recordingId}:`, error.message);
+    }
+
+    await this.removeFiles(sidecars);
+    if (tracks.length > 0) {
+      logger.info(`Uploaded ${tracks.length} subtitle tracks for ${recordingId}`);
+    }
+    return tracks;
+  }
+
+  async discard(recordingId) {
+    const sidecars = this.sidecars.get(recordingId) || [];
+    this.sidecars.delete(recordingId);
+    await this.removeFiles(sidecars);
+  }
+
+  async removeFiles(sidecars) {
+    for (const sidecar of sidecars) {
+      await fs.rm(sidecar.path, { force: true });
+    }
+  }
+
+  async uploadTrack(recordingId, filePath, track) {
+    const s3Key = `${this.getS3Prefix(recordingId)}/${track.id}.vtt`;
+    const result = await s3Service.uploadFile(filePath, s3Key);
+    if (!result.success) {
+      throw new Error(`Subtitle upload failed: ${result.error}`);
+    }
+    return { ...track, label: this.getLabel(track), s3_key: s3Key };
+  }
+
+  getLabel(track) {
+    if (track.kind === 'captions') return 'Closed captions';
+    return track.language ? track.language.toUpperCase() : `Subtitles ${track.id}`;
+  }
+
+  // Each part's cues start at zero, so they are shifted to where the part starts in the
+  // joined video. Returns the number of cues written.
+  async joinParts(parts, outputPath) {
+    const cues = [];
+    for (const part of [...parts].sort((a, b) => a.offset - b.offset)) {
+      let content;
+      try {
+        content = await fs.readFile(part.path, 'utf8');
+      } catch (error) {
+        continue; // FFmpeg never got to write this part
+      }
+      cues.push(...this.shiftCues(content, part.offset));
+    }
+
+    await fs.writeFile(outputPath, `WEBVTT\n\n${cues.join('\n\n')}\n`);
+    return cues.length;
+  }
+
+  shiftCues(content, offset) {
+    return content
+      .replace(/\r/g, '')
+      .split(/\n{2,}/)
+      .filter(block => block.includes('-->'))
+      .map(block => block
+        .split('\n')
+        .map(line => (line.includes('-->')
+          ? line.replace(/(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/g, (timestamp) =>
+            this.formatTimestamp(this.parseTimestamp(timestamp) + offset))
+          : line))
+        .join('\n')
+        .trim());
+  }
+
+  countCues(content) {
+    return this.shiftCues(content, 0).length;
+  }
+
+  parseTimestamp(timestamp) {
+    const [seconds, ...rest] = timestamp.split(':').reverse();
+    const [minutes = 0, hours = 0] = rest.map(Number);
+    return hours * 3600 + minutes * 60 + parseFloat(seconds);
+  }
+
+  formatTimestamp(value) {
+    const millis = Math.round(value * 1000);
+    const hours = Math.floor(millis / 3600000);
+    const minutes = Math.floor((millis % 3600000) / 60000);
+    const seconds = Math.floor((millis % 60000) / 1000);
+    const pad = (number, length = 2) => String(number).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis % 1000, 3)}`;
+  }
+
+  // The subcc output of the movie source carries the captions decoded from the video frames
+  extractClosedCaptions(videoPath, outputPath) {
+    const source = videoPath.replace(/[\\':]/g, '\\$&');
+    return new Promise((resolve) => {
+      ffmpeg()
+        .input(`movie=${source}[out0+subcc]`)
+        .inputFormat('lavfi')
+        .outputOptions(['-map', '0:s', '-c:s', 'webvtt', '-f', 'webvtt', '-y'])
+        .output(outputPath)
+        .on('end', () => resolve(true))
+        .on('error', (err) => {
+          logger.warn(`Could not extract closed captions from ${path.basename(videoPath)}: ${err.message}`);
+          resolve(false);
+        })
+        .run();
+    });
+  }
+}
+
+module.exports = new SubtitleService();
@@ -0,0 +1,177 @@
+const ffmpeg = require('fluent-ffmpeg');
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const s3Service = require('./s3Service');
+const clipService = require('./clipService');
+
+// Poster frames and scrubbing sprites, taken from the local output while it is post-processed,
+// and frames at a requested position, taken from the stored recording and cached next to them
+class ThumbnailService {
+  constructor() {
+    this.posterWidth = 640;
+    this.maxPosterOffset = 300; // seconds
+    // Sprite sheet: one tile every interval seconds, at most maxSpriteTiles per recording
+    this.spriteTileWidth = 160;
+    this.spriteTileHeight = 90;
+    this.spriteColumns = 10;
+    this.minSpriteInterval = 10; // seconds
+    this.maxSpriteTiles = 400;
+  }
+
+  getS3Prefix(recordingId) {
+    return `thumbnails/${recordingId}`;
+  }
+
+  // A tenth of the way in, past the slate or black frames a stream often starts with
+  getPosterOffset(duration) {
+    return duration > 0 ? Math.min(Math.round(duration / 10), this.maxPosterOffset) : 0;
+  }
+
+  async generatePoster(recordingId, sourcePath, duration) {
+    const at = this.getPosterOffset(duration);
+    const outputPath = sourcePath.replace(/(\.[^./]+)?$/, '.poster.jpg');
+    const s3Key = `${this.getS3Prefix(recordingId)}/poster.jpg`;
+
+    try {
+      await this.extractFrame(sourcePath, at, outputPath);
+      const result = await s3Service.uploadFile(outputPath, s3Key);
+      if (!result.success) {
+        throw new Error(`Poster upload failed: ${result.error}`);
+      }
+      return { s3_key: s3Key, at };
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  // Frame of a stored recording at a position, rounded to the second so repeated requests for
+  // about the same spot share one cached image. Returns the S3 key and whether it was cached.
+  async getFrame(recording, timestamp) {
+    const at = Math.max(0, Math.round(recording.duration ? Math.min(timestamp, recording.duration - 1) : timestamp));
+    const s3Key = `${this.getS3Prefix(recording.id)}/frame_${at}.jpg`;
+
+    const existing = await s3Service.getFileInfo(s3Key);
+    if (existing.success) {
+      return { s3_key: s3Key, at, cached: true };
+    }
+
+    const outputPath = path.join(os.tmpdir(), `${recording.id}_frame_${at}.jpg`);
+    try {
+      const source = await clipService.getSourceInput(recording, outputPath);
+      try {
+        await this.extractFrame(source.input, at, outputPath, source.inputOptions);
+      } finally {
+        if (source.playlistPath) {
+          await fs.rm(source.playlistPath, { force: true });
+        }
+      }
+
+      const result = await s3Service.uploadFile(outputPath, s3Key);
+      if (!result.success) {
+        throw new Error(`Frame upload failed: ${result.error}`);
+      }
+      return { s3_key: s3Key, at, cached: false };
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  getSpriteInterval(duration) {
+    return Math.max(this.minSpriteInterval, Math.ceil(duration / this.maxSpriteTiles));
+  }
+
+  // One image holding a tile every few seconds, plus a WebVTT track mapping each time range to
+  // its tile (sprite.jpg#xywh=x,y,w,h). Only keyframes are decoded, so a full match takes
+  // seconds rather than a decode of every frame; each tile is the keyframe nearest its time.
+  async generateSprite(recordingId, sourcePath, duration) {
+    if (!(duration > 0)) {
+      throw new Error('The recording duration is needed for a sprite');
+    }
+
+    const interval = this.getSpriteInterval(duration);
+    const count = Math.ceil(duration / interval);
+    const columns = Math.min(this.spriteColumns, count);
+    const rows = Math.ceil(count / columns);
+    const base = sourcePath.replace(/(\.[^./]+)?$/, '');
+    const spritePath = `${base}.sprite.jpg`;
+    const vttPath = `${base}.sprite.vtt`;
+    const prefix = this.getS3Prefix(recordingId);
+    const { spriteTileWidth: width, spriteTileHeight: height } = this;
+
+    try {
+      await new Promise((resolve, reject) => {
+        ffmpeg(sourcePath)
+          .inputOptions(['-skip_frame', 'nokey'])
+          .outputOptions([
+            '-vf', `fps=1/${interval},scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+              `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,tile=${columns}x${rows}`,
+            '-frames:v', '1',
+            '-q:v', '4',
+            '-y'
+          ])
+          .output(spritePath)
+          .on('end', resolve)
+          .on('error', reject)
+          .run();
+      });
+      await fs.writeFile(vttPath, this.buildSpriteTrack({ interval, count, columns, duration }));
+
+      for (const [localPath, name] of [[spritePath, 'sprite.jpg'], [vttPath, 'sprite.vtt']]) {
+        const result = await s3Service.uploadFile(localPath, `${prefix}/${name}`);
+        if (!result.success) {
+          throw new Error(`Sprite upload failed: ${result.error}`);
+        }
+      }
+
+      return {
+        s3_key: `${prefix}/sprite.jpg`,
+        track_key: `${prefix}/sprite.vtt`,
+        interval,
+        count,
+        columns,
+        rows,
+        width,
+        height
+      };
+    } finally {
+      await fs.rm(spritePath, { force: true });
+      await fs.rm(vttPath, { force: true });
+    }
+  }
+
+  buildSpriteTrack({ interval, count, columns, duration }) {
+    const cues = [];
+    for (let index = 0; index < count; index += 1) {
+      const start = index * interval;
+      const end = Math.min(start + interval, duration);
+      const x = (index % columns) * this.spriteTileWidth;
+      const y = Math.floor(index / columns) * this.spriteTileHeight;
+      cues.push(`${this.formatCueTime(start)} --> ${this.formatCueTime(end)}\n` +
+        `sprite.jpg#xywh=${x},${y},${this.spriteTileWidth},${this.spriteTileHeight}`);
+    }
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+
+  formatCueTime(seconds) {
+    const ms = Math.round(seconds * 1000);
+    const hours = String(Math.floor(ms / 3600000)).padStart(2, '0');
+    const minutes = String(Math.floor((ms % 3600000) / 60000)).padStart(2, '0');
+    const secs = String(Math.floor((ms % 60000) / 1000)).padStart(2, '0');
+    return `${hours}:${minutes}:${secs}.${String(ms % 1000).padStart(3, '0')}`;
+  }
+
+  extractFrame(input, at, outputPath, inputOptions = []) {
+    return new Promise((resolve, reject) => {
+      ffmpeg(input)
+        .inputOptions([...inputOptions, '-ss', String(at)])
+        .outputOptions(['-frames:v', '1', '-vf', `scale=${this.posterWidth}:-2`, '-q:v', '3', '-y'])
+        .output(outputPath)
+        .on('end', resolve)
+        .on('error', reject)
+        .run();
+    });
+  }
+}
+
+module.exports = new ThumbnailService();
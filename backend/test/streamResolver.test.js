@@ -0,0 +1,169 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const streamResolverService = require('../services/streamResolverService');
+const dashResolver = require('../services/resolvers/dashResolver');
+const directResolver = require('../services/resolvers/directResolver');
+const pageResolver = require('../services/resolvers/pageResolver');
+const youtubeResolver = require('../services/resolvers/youtubeResolver');
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'resolvers');
+const readFixture = (name) => fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+
+// A resolve context that serves fixtures instead of the network: pages maps a URL to
+// { fixture, contentType, url } (url being where redirects ended), ytDlp maps a URL to a
+// fixture of yt-dlp's JSON output. Anything not listed fails like an unreachable host.
+const createContext = ({ pages = {}, ytDlp = {} } = {}) => {
+  const calls = { fetchText: [], runYtDlp: [] };
+  return {
+    calls,
+    fetchText: async (url) => {
+      calls.fetchText.push(url);
+      const page = pages[url];
+      if (!page) throw new Error(`getaddrinfo ENOTFOUND ${new URL(url).hostname}`);
+      return {
+        url: page.url || url,
+        contentType: page.contentType || 'text/html',
+        body: page.fixture ? readFixture(page.fixture) : null
+      };
+    },
+    runYtDlp: async (args) => {
+      calls.runYtDlp.push(args);
+      const url = args[args.length - 1];
+      if (!ytDlp[url]) throw new Error(`ERROR: Unsupported URL: ${url}`);
+      return readFixture(ytDlp[url]);
+    }
+  };
+};
+
+test('page resolver prefers the HLS playlist in an inline player config over og:video', async () => {
+  const context = createContext({ pages: { 'https://www.example.com/live/city-united': { fixture: 'player-page.html' } } });
+
+  const result = await pageResolver.resolve(new URL('https://www.example.com/live/city-united'), context);
+
+  assert.strictEqual(result.url, 'https://cdn.example.com/live/city-united/master.m3u8?token=abc&expires=1999999999');
+  assert.deepStrictEqual(result.headers, { Referer: 'https://www.example.com/live/city-united', Origin: 'https://www.example.com' });
+});
+
+test('page resolver lists every media URL on the page, manifests first', () => {
+  const urls = pageResolver.extractMediaUrls(readFixture('player-page.html'), 'https://www.example.com/live/city-united');
+
+  assert.deepStrictEqual(urls, [
+    'https://cdn.example.com/live/city-united/master.m3u8?token=abc&expires=1999999999',
+    'https://media.example.com/vod/city-united/highlights.mp4'
+  ]);
+});
+
+test('page resolver falls back to yt-dlp and reports when neither finds a stream', async () => {
+  const context = createContext({ pages: { 'https://www.example.com/fixtures': { fixture: 'no-player.html' } } });
+
+  await assert.rejects(
+    pageResolver.resolve(new URL('https://www.example.com/fixtures'), context),
+    /No playable stream found on the page \(ERROR: Unsupported URL/
+  );
+  assert.strictEqual(context.calls.runYtDlp.length, 1);
+});
+
+test('page resolver takes an extensionless URL that serves media as it is', async () => {
+  const context = createContext({ pages: { 'https://stream.example.com/channel/1': { contentType: 'video/mp2t' } } });
+
+  const result = await pageResolver.resolve(new URL('https://stream.example.com/channel/1'), context);
+
+  assert.deepStrictEqual(result, { url: 'https://stream.example.com/channel/1' });
+});
+
+test('dash resolver follows <Location> and reports a live manifest', async () => {
+  const context = createContext({ pages: { 'https://origin.example.com/live/match.mpd': { fixture: 'live.mpd', contentType: 'application/dash+xml' } } });
+
+  const result = await dashResolver.resolve(new URL('https://origin.example.com/live/match.mpd'), context);
+
+  assert.deepStrictEqual(result, {
+    url: 'https://edge.example.com/live/match/manifest.mpd?sig=xyz&exp=1999999999',
+    inputFormat: 'dash',
+    live: true
+  });
+});
+
+test('dash resolver refuses a DRM protected manifest', async () => {
+  const context = createContext({ pages: { 'https://origin.example.com/replay.mpd': { fixture: 'drm.mpd', contentType: 'application/dash+xml' } } });
+
+  await assert.rejects(
+    dashResolver.resolve(new URL('https://origin.example.com/replay.mpd'), context),
+    /DRM protected/
+  );
+});
+
+test('youtube resolver keeps only the headers that affect the media host', async () => {
+  const watchUrl = 'https://www.youtube.com/watch?v=abcdEFGhijk';
+  const context = createContext({ ytDlp: { [watchUrl]: 'yt-dlp-live.json' } });
+
+  const result = await youtubeResolver.resolve(new URL(watchUrl), context);
+
+  assert.strictEqual(result.url, 'https://manifest.googlevideo.com/api/manifest/hls_playlist/expire/1999999999/id/abcdEFGhijk/index.m3u8');
+  assert.deepStrictEqual(Object.keys(result.headers), ['User-Agent']);
+  assert.strictEqual(result.live, true);
+  assert.strictEqual(result.inputFormat, null);
+});
+
+test('youtube resolver passes DASH formats on as a manifest', () => {
+  const result = youtubeResolver.parseYtDlpInfo(readFixture('yt-dlp-dash.json'));
+
+  assert.strictEqual(result.url, 'https://media.example.com/replay/manifest.mpd');
+  assert.strictEqual(result.inputFormat, 'dash');
+  assert.strictEqual(result.live, false);
+  assert.deepStrictEqual(result.headers, { Referer: 'https://www.example.com/replay' });
+});
+
+test('direct resolver hands media URLs and streaming protocols over unchanged', async () => {
+  for (const value of ['https://cdn.example.com/live/master.m3u8', 'rtmp://ingest.example.com/live/match', 'srt://10.0.0.5:9000']) {
+    const url = new URL(value);
+    assert.ok(directResolver.canResolve(url), value);
+    assert.deepStrictEqual(await directResolver.resolve(url), { url: url.href });
+  }
+});
+
+test('resolve falls through to direct for URLs no resolver claims, without touching the network', async () => {
+  const context = createContext();
+
+  for (const value of ['rtsp://camera.example.com/stream1', 'ftp://archive.example.com/match.ts', 'https://cdn.example.com/match.mp4']) {
+    const result = await streamResolverService.resolve(value, { context });
+    assert.strictEqual(result.resolver, 'direct', value);
+    assert.deepStrictEqual(result.chain, ['direct']);
+    assert.strictEqual(result.url, new URL(value).href);
+  }
+  assert.strictEqual(context.calls.fetchText.length, 0);
+  assert.strictEqual(context.calls.runYtDlp.length, 0);
+});
+
+test('resolve follows an embedded YouTube player through yt-dlp and merges the headers', async () => {
+  const context = createContext({
+    pages: { 'https://www.example.com/watch-along': { fixture: 'embed-page.html' } },
+    ytDlp: { 'https://www.youtube.com/embed/abcdEFGhijk?autoplay=1': 'yt-dlp-live.json' }
+  });
+
+  const result = await streamResolverService.resolve('https://www.example.com/watch-along', { context });
+
+  assert.deepStrictEqual(result.chain, ['page', 'youtube']);
+  assert.strictEqual(result.resolver, 'page');
+  assert.strictEqual(result.live, true);
+  assert.strictEqual(result.profile.referer, 'https://www.example.com/watch-along');
+  assert.match(result.profile.user_agent, /^Mozilla\/5\.0/);
+  assert.deepStrictEqual(result.profile.headers, { Origin: 'https://www.example.com' });
+  assert.strictEqual(result.expiresAt, new Date(1999999999 * 1000).toISOString());
+});
+
+test('resolve follows a DASH manifest to the location it moved to', async () => {
+  const context = createContext({
+    pages: {
+      'https://origin.example.com/live/match.mpd': { fixture: 'live.mpd', contentType: 'application/dash+xml' }
+    }
+  });
+
+  const result = await streamResolverService.resolve('https://origin.example.com/live/match.mpd', { context });
+
+  assert.deepStrictEqual(result.chain, ['dash']);
+  assert.strictEqual(result.inputFormat, 'dash');
+  assert.strictEqual(result.url, 'https://edge.example.com/live/match/manifest.mpd?sig=xyz&exp=1999999999');
+  assert.strictEqual(result.expiresAt, new Date(1999999999 * 1000).toISOString());
+});
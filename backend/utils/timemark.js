@@ -0,0 +1,7 @@
+// FFmpeg progress timemark ("HH:MM:SS.ss") in seconds; 0 when there is none yet
+const parseTimemark = (timemark) => {
+  if (!timemark) return 0;
+  return timemark.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0) || 0;
+};
+
+module.exports = { parseTimemark };
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ContentCut as TrimIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { Chapter, MatchBoundaries as MatchBoundariesData, MatchBoundaryTimes } from '../../types';
+
+interface MatchBoundariesProps {
+  recordingId: string;
+  boundaries?: MatchBoundariesData;
+  chapters: Chapter[];
+  duration?: number; // seconds
+  completed: boolean; // a match-only video can only be cut from a stored recording
+  onUpdated: () => void;
+}
+
+const fields: Array<{ key: keyof MatchBoundaryTimes; label: string }> = [
+  { key: 'kickoff', label: 'Kickoff' },
+  { key: 'halftime_start', label: 'Halftime start' },
+  { key: 'halftime_end', label: 'Halftime end' },
+  { key: 'full_time', label: 'Full time' },
+];
+
+const formatTime = (seconds: number) => apiService.formatDuration(Math.round(seconds));
+
+// Halves in colour, the dead air around them grey
+const chapterColors: Record<string, string> = {
+  'First half': '#4caf50',
+  'Second half': '#4caf50',
+};
+
+const toValues = (boundaries?: MatchBoundariesData) => fields.reduce((values, field) => ({
+  ...values,
+  [field.key]: boundaries ? String(boundaries[field.key]) : '',
+}), {} as Record<keyof MatchBoundaryTimes, string>);
+
+// Kickoff, halftime and full time of a recording, as detected or set by hand, its chapters, and
+// the match-only videos cut from it
+const MatchBoundaries: React.FC<MatchBoundariesProps> = ({ recordingId, boundaries, chapters, duration, completed, onUpdated }) => {
+  const navigate = useNavigate();
+  const { showNotification } = useNotification();
+  const [values, setValues] = useState(() => toValues(boundaries));
+
+  const { data: matchOnly, refetch: refetchMatchOnly } = useQuery({
+    queryKey: ['videoMatchOnly', recordingId],
+    queryFn: () => apiService.getMatchOnly(recordingId),
+    refetchInterval: (query) => (query.state.data?.data?.some((video) => video.status === 'processing') ? 5000 : false),
+  });
+
+  const updateBoundariesMutation = useMutation({
+    mutationFn: (data: MatchBoundaryTimes) => apiService.updateBoundaries(recordingId, data),
+    onSuccess: () => {
+      showNotification('Match boundaries updated', 'success');
+      onUpdated();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to update match boundaries', 'error');
+    },
+  });
+
+  const createMatchOnlyMutation = useMutation({
+    mutationFn: () => apiService.createMatchOnly(recordingId),
+    onSuccess: (response) => {
+      showNotification(response.message || 'Match-only video is being cut', 'success');
+      refetchMatchOnly();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to create match-only video', 'error');
+    },
+  });
+
+  const complete = fields.every((field) => values[field.key] !== '');
+  const changed = fields.some((field) => values[field.key] !== (boundaries ? String(boundaries[field.key]) : ''));
+  const scale = Math.max(duration || 0, ...chapters.map((chapter) => chapter.end), 1);
+
+  const handleSave = () => {
+    updateBoundariesMutation.mutate(fields.reduce((data, field) => ({
+      ...data,
+      [field.key]: Number(values[field.key]),
+    }), {} as MatchBoundaryTimes));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        {boundaries ? (
+          <>
+            <Chip size="small" label={boundaries.source === 'manual' ? 'Set by hand' : 'Detected'} />
+            {boundaries.truncated && (
+              <Chip size="small" color="warning" variant="outlined" label="Recording ends before full time" />
+            )}
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No boundaries detected; they can be set by hand
+          </Typography>
+        )}
+      </Box>
+
+      {chapters.length > 0 && (
+        <Box sx={{ display: 'flex', height: 20, borderRadius: 1, overflow: 'hidden', mb: 2 }}>
+          {chapters.map((chapter) => (
+            <Tooltip
+              key={chapter.title}
+              title={`${chapter.title}: ${formatTime(chapter.start)} - ${formatTime(chapter.end)}`}
+            >
+              <Box
+                sx={{
+                  width: `${((chapter.end - chapter.start) / scale) * 100}%`,
+                  bgcolor: chapterColors[chapter.title] || 'action.disabledBackground',
+                  borderRight: '1px solid',
+                  borderColor: 'background.paper',
+                }}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: 2, mb: 2 }}>
+        {fields.map((field) => {
+          const confidence = boundaries?.confidence?.[field.key];
+          const value = values[field.key];
+          return (
+            <TextField
+              key={field.key}
+              size="small"
+              type="number"
+              label={`${field.label} (s)`}
+              value={value}
+              onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+              helperText={[
+                value !== '' ? formatTime(Number(value)) : null,
+                confidence !== undefined && confidence !== null ? `${Math.round(confidence * 100)}% sure` : null,
+              ].filter(Boolean).join(' · ') || ' '}
+              slotProps={{ htmlInput: { min: 0 } }}
+            />
+          );
+        })}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={handleSave}
+          disabled={!complete || !changed || updateBoundariesMutation.isPending}
+        >
+          Save Boundaries
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={<TrimIcon />}
+          onClick={() => createMatchOnlyMutation.mutate()}
+          disabled={!completed || !boundaries || changed || createMatchOnlyMutation.isPending}
+        >
+          Create Match-only Video
+        </Button>
+      </Box>
+
+      {(matchOnly?.data || []).length > 0 && (
+        <List dense sx={{ mt: 1 }}>
+          {matchOnly!.data!.map((video) => (
+            <ListItemButton key={video.id} onClick={() => navigate(`/recordings/${video.id}`)}>
+              <ListItemText
+                primary={video.title}
+                secondary={video.status === 'completed' ? apiService.formatDuration(video.duration) : video.status}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default MatchBoundaries;
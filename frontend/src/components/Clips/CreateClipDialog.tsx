@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { MyLocation as CurrentPositionIcon } from '@mui/icons-material';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { ClipFormData, Recording } from '../../types';
+
+interface CreateClipDialogProps {
+  open: boolean;
+  videoId: string;
+  duration?: number; // seconds
+  getPosition: () => number | null; // current playback position, if the player has one
+  onClose: () => void;
+  onCreated: (clip: Recording) => void;
+}
+
+const CreateClipDialog: React.FC<CreateClipDialogProps> = ({ open, videoId, duration, getPosition, onClose, onCreated }) => {
+  const { showNotification } = useNotification();
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [title, setTitle] = useState('');
+  const [reencode, setReencode] = useState(false);
+  const [quality, setQuality] = useState('best');
+
+  const { data: profiles } = useQuery({
+    queryKey: ['encodingProfiles'],
+    queryFn: () => apiService.getEncodingProfiles(),
+    enabled: open && reencode,
+  });
+
+  // Each opening starts from the current position
+  useEffect(() => {
+    if (!open) return;
+    const position = getPosition();
+    setStart(position !== null ? position.toFixed(1) : '');
+    setEnd('');
+    setTitle('');
+  }, [open, getPosition]);
+
+  const createClipMutation = useMutation({
+    mutationFn: (data: ClipFormData) => apiService.createClip(videoId, data),
+    onSuccess: (response) => {
+      showNotification(response.message || 'Clip is being cut', 'success');
+      onCreated(response.data!);
+      onClose();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to create clip', 'error');
+    },
+  });
+
+  const startValue = Number(start);
+  const endValue = Number(end);
+  const valid = start !== '' && end !== '' && endValue > startValue && (!duration || startValue < duration);
+
+  const handleSubmit = () => {
+    createClipMutation.mutate({
+      start: startValue,
+      end: endValue,
+      reencode,
+      quality: reencode ? quality : undefined,
+      title: title.trim() || undefined,
+    });
+  };
+
+  const currentPositionAdornment = (set: (value: string) => void) => (
+    <InputAdornment position="end">
+      <Tooltip title="Use current position">
+        <IconButton
+          size="small"
+          edge="end"
+          onClick={() => {
+            const position = getPosition();
+            if (position !== null) set(position.toFixed(1));
+          }}
+        >
+          <CurrentPositionIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </InputAdornment>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Create Clip</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Start (s)"
+              type="number"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              inputProps={{ min: 0, step: 0.1 }}
+              InputProps={{ endAdornment: currentPositionAdornment(setStart) }}
+              fullWidth
+            />
+            <TextField
+              label="End (s)"
+              type="number"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              inputProps={{ min: 0, step: 0.1 }}
+              InputProps={{ endAdornment: currentPositionAdornment(setEnd) }}
+              error={end !== '' && endValue <= startValue}
+              fullWidth
+            />
+          </Box>
+          {valid && (
+            <Typography variant="body2" color="text.secondary">
+              {(endValue - startValue).toFixed(1)} seconds
+            </Typography>
+          )}
+          <TextField
+            label="Title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Defaults to the video title with the range"
+            fullWidth
+          />
+          <FormControlLabel
+            control={<Switch checked={reencode} onChange={(e) => setReencode(e.target.checked)} />}
+            label="Re-encode"
+          />
+          <Typography variant="caption" color="text.secondary">
+            {reencode
+              ? 'Cuts on the exact frame; takes about as long as playing the clip'
+              : 'Copies the streams: quick, but the clip starts at the keyframe before the start'}
+          </Typography>
+          {reencode && (
+            <FormControl fullWidth>
+              <InputLabel>Encoding Profile</InputLabel>
+              <Select value={quality} label="Encoding Profile" onChange={(e) => setQuality(e.target.value)}>
+                <MenuItem value="best">Default (H.264, high quality)</MenuItem>
+                {(profiles?.data || []).map((profile) => (
+                  <MenuItem key={profile.id} value={profile.name}>
+                    {profile.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={!valid || createClipMutation.isPending}>
+          Create
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateClipDialog;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { HighlightsFormData, MarkerType, Recording, RecordingClip } from '../../types';
+
+interface CreateHighlightsDialogProps {
+  open: boolean;
+  videoId: string;
+  clips: Recording[]; // clips of the video, whose ranges can be used instead of markers
+  onClose: () => void;
+  onCreated: (highlights: Recording) => void;
+}
+
+const markerTypes: Array<{ value: MarkerType; label: string }> = [
+  { value: 'goal', label: 'Goals' },
+  { value: 'chance', label: 'Chances' },
+  { value: 'card', label: 'Cards' },
+  { value: 'var', label: 'VAR' },
+  { value: 'substitution', label: 'Substitutions' },
+  { value: 'highlight', label: 'Highlights' },
+  { value: 'other', label: 'Other' },
+];
+
+const CreateHighlightsDialog: React.FC<CreateHighlightsDialogProps> = ({ open, videoId, clips, onClose, onCreated }) => {
+  const { showNotification } = useNotification();
+  const [source, setSource] = useState<'markers' | 'clips'>('markers');
+  const [types, setTypes] = useState<MarkerType[]>([]);
+  const [clipIds, setClipIds] = useState<string[]>([]);
+  const [paddingBefore, setPaddingBefore] = useState('5');
+  const [paddingAfter, setPaddingAfter] = useState('5');
+  const [titleCards, setTitleCards] = useState(true);
+  const [title, setTitle] = useState('');
+
+  const { data: markers } = useQuery({
+    queryKey: ['markers', videoId],
+    queryFn: () => apiService.getMarkers(videoId),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setTypes([]);
+      setClipIds([]);
+    }
+  }, [open]);
+
+  const createHighlightsMutation = useMutation({
+    mutationFn: (data: HighlightsFormData) => apiService.createHighlights(videoId, data),
+    onSuccess: (response) => {
+      showNotification(response.message || 'Highlights are being rendered', 'success');
+      onCreated(response.data!);
+      onClose();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to create highlights', 'error');
+    },
+  });
+
+  const markerItems = (markers?.data || []).filter((marker) => types.length === 0 || types.includes(marker.type));
+  const completedClips = clips.filter((clip) => clip.status === 'completed' && clip.metadata?.clip);
+  const count = source === 'markers' ? markerItems.length : clipIds.length;
+
+  const handleSubmit = () => {
+    const data: HighlightsFormData = {
+      padding_before: Number(paddingBefore) || 0,
+      padding_after: Number(paddingAfter) || 0,
+      title_cards: titleCards,
+      title: title.trim() || undefined,
+    };
+    if (source === 'markers') {
+      data.marker_types = types.length > 0 ? types : undefined;
+    } else {
+      data.ranges = completedClips
+        .filter((clip) => clipIds.includes(clip.id))
+        .map((clip) => {
+          const range: RecordingClip = clip.metadata!.clip;
+          return { start: range.start, end: range.end, title: clip.title };
+        });
+    }
+    createHighlightsMutation.mutate(data);
+  };
+
+  const toggle = <T,>(values: T[], value: T) => (
+    values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Create Highlights</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={source}
+            onChange={(_, value) => value && setSource(value)}
+          >
+            <ToggleButton value="markers">From markers</ToggleButton>
+            <ToggleButton value="clips" disabled={completedClips.length === 0}>From clips</ToggleButton>
+          </ToggleButtonGroup>
+
+          {source === 'markers' ? (
+            <Box>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {markerTypes.map((markerType) => (
+                  <Chip
+                    key={markerType.value}
+                    label={markerType.label}
+                    color={types.includes(markerType.value) ? 'primary' : 'default'}
+                    onClick={() => setTypes(toggle(types, markerType.value))}
+                  />
+                ))}
+              </Box>
+              <Typography variant="caption" color="text.secondary">
+                {markerItems.length} markers{types.length === 0 ? ' (all types)' : ''}
+              </Typography>
+            </Box>
+          ) : (
+            <List dense>
+              {completedClips.map((clip) => (
+                <ListItem key={clip.id} onClick={() => setClipIds(toggle(clipIds, clip.id))} sx={{ cursor: 'pointer' }}>
+                  <ListItemIcon>
+                    <Checkbox edge="start" checked={clipIds.includes(clip.id)} tabIndex={-1} disableRipple />
+                  </ListItemIcon>
+                  <ListItemText primary={clip.title} secondary={apiService.formatDuration(clip.duration)} />
+                </ListItem>
+              ))}
+            </List>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Padding before (s)"
+              type="number"
+              value={paddingBefore}
+              onChange={(e) => setPaddingBefore(e.target.value)}
+              inputProps={{ min: 0, max: 120 }}
+              fullWidth
+            />
+            <TextField
+              label="Padding after (s)"
+              type="number"
+              value={paddingAfter}
+              onChange={(e) => setPaddingAfter(e.target.value)}
+              inputProps={{ min: 0, max: 120 }}
+              fullWidth
+            />
+          </Box>
+          <FormControlLabel
+            control={<Switch checked={titleCards} onChange={(e) => setTitleCards(e.target.checked)} />}
+            label={source === 'markers' ? 'Title cards with the marker note' : 'Title cards with the clip title'}
+          />
+          <TextField
+            label="Title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Defaults to the video title"
+            fullWidth
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={count === 0 || createHighlightsMutation.isPending}
+        >
+          Create
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateHighlightsDialog;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Check as AcceptIcon, Close as RejectIcon, AutoAwesome as DetectIcon } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { MarkerCandidate, MarkerType } from '../../types';
+import { formatOffset, markerTypes } from './MarkerTimeline';
+
+interface MarkerCandidatesProps {
+  recordingId: string;
+  canAnalyze: boolean; // detection can be run again once the recording is stored
+}
+
+const getConfidenceColor = (confidence: number): 'success' | 'warning' | 'default' => {
+  if (confidence >= 0.7) return 'success';
+  if (confidence >= 0.4) return 'warning';
+  return 'default';
+};
+
+const describeSignals = (candidate: MarkerCandidate) => [
+  candidate.loudness !== null ? `${candidate.loudness > 0 ? '+' : ''}${candidate.loudness} LU crowd noise` : null,
+  candidate.cuts !== null ? `${candidate.cuts} cuts after` : null,
+].filter(Boolean).join(' · ');
+
+// Candidate highlights from loudness peaks and bursts of cuts, to accept as markers or reject
+const MarkerCandidates: React.FC<MarkerCandidatesProps> = ({ recordingId, canAnalyze }) => {
+  const queryClient = useQueryClient();
+  const { showNotification } = useNotification();
+  const [acceptMenu, setAcceptMenu] = useState<{ anchor: HTMLElement; candidateId: string } | null>(null);
+
+  const { data: analysis } = useQuery({
+    queryKey: ['recordingAnalysis', recordingId],
+    queryFn: () => apiService.getAnalysis(recordingId),
+    refetchInterval: (query) => (query.state.data?.data?.status === 'running' ? 5000 : false),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['recordingAnalysis', recordingId] });
+    queryClient.invalidateQueries({ queryKey: ['markers', recordingId] });
+  };
+
+  const startAnalysisMutation = useMutation({
+    mutationFn: () => apiService.startAnalysis(recordingId),
+    onSuccess: () => {
+      showNotification('Highlight detection started', 'success');
+      refresh();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to start highlight detection', 'error');
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: ({ candidateId, type }: { candidateId: string; type: MarkerType }) => (
+      apiService.acceptCandidate(recordingId, candidateId, { type })
+    ),
+    onSuccess: (response) => {
+      showNotification(`Marker added at ${formatOffset(response.data!.candidate.offset_seconds)}`, 'success');
+      refresh();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to accept candidate', 'error');
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (candidateId: string) => apiService.rejectCandidate(recordingId, candidateId),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to reject candidate', 'error');
+    },
+  });
+
+  const state = analysis?.data;
+  const candidates = state?.candidates || [];
+  const pending = candidates.filter((candidate) => candidate.status === 'pending');
+  const accepted = candidates.filter((candidate) => candidate.status === 'accepted').length;
+  const rejected = candidates.filter((candidate) => candidate.status === 'rejected').length;
+  const reviewing = acceptMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <Box>
+      {!state && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Not analysed yet
+        </Typography>
+      )}
+
+      {state?.status === 'running' && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Listening for crowd noise and counting replays... {state.progress || 0}%
+          </Typography>
+          <LinearProgress variant="determinate" value={state.progress || 0} />
+        </Box>
+      )}
+
+      {state?.status === 'failed' && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Highlight detection failed: {state.error}
+        </Alert>
+      )}
+
+      {state?.status === 'completed' && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {pending.length} to review
+          {accepted + rejected > 0 ? `, ${accepted} accepted, ${rejected} rejected` : ''}
+        </Typography>
+      )}
+
+      {pending.length > 0 && (
+        <List dense>
+          {pending.map((candidate) => (
+            <ListItem
+              key={candidate.id}
+              secondaryAction={
+                <Box>
+                  <Tooltip title="Accept as marker">
+                    <IconButton
+                      size="small"
+                      color="success"
+                      disabled={reviewing}
+                      onClick={(e) => setAcceptMenu({ anchor: e.currentTarget, candidateId: candidate.id })}
+                    >
+                      <AcceptIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Reject">
+                    <IconButton
+                      edge="end"
+                      size="small"
+                      disabled={reviewing}
+                      onClick={() => rejectMutation.mutate(candidate.id)}
+                    >
+                      <RejectIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <Chip
+                label={`${Math.round(candidate.confidence * 100)}%`}
+                size="small"
+                color={getConfidenceColor(candidate.confidence)}
+                sx={{ mr: 2, minWidth: 52 }}
+              />
+              <ListItemText primary={formatOffset(candidate.offset_seconds)} secondary={describeSignals(candidate)} />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Menu anchorEl={acceptMenu?.anchor} open={!!acceptMenu} onClose={() => setAcceptMenu(null)}>
+        {markerTypes.map((markerType) => (
+          <MenuItem
+            key={markerType.value}
+            onClick={() => {
+              acceptMutation.mutate({ candidateId: acceptMenu!.candidateId, type: markerType.value });
+              setAcceptMenu(null);
+            }}
+          >
+            {markerType.label}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {canAnalyze && state?.status !== 'running' && (
+        <Button
+          size="small"
+          startIcon={<DetectIcon />}
+          onClick={() => startAnalysisMutation.mutate()}
+          disabled={startAnalysisMutation.isPending}
+        >
+          {state ? 'Detect again' : 'Detect highlights'}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default MarkerCandidates;
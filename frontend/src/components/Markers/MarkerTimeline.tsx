@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { MarkerFormData, MarkerType } from '../../types';
+
+interface MarkerTimelineProps {
+  recordingId: string;
+  live: boolean; // markers default to the live position while capturing
+  duration?: number; // seconds, scales the timeline once the video is complete
+}
+
+export const markerTypes: Array<{ value: MarkerType; label: string; color: string }> = [
+  { value: 'goal', label: 'Goal', color: '#4caf50' },
+  { value: 'chance', label: 'Chance', color: '#2196f3' },
+  { value: 'card', label: 'Card', color: '#ffc107' },
+  { value: 'var', label: 'VAR', color: '#9c27b0' },
+  { value: 'substitution', label: 'Substitution', color: '#607d8b' },
+  { value: 'highlight', label: 'Highlight', color: '#ff5722' },
+  { value: 'other', label: 'Other', color: '#9e9e9e' },
+];
+
+const getMarkerType = (type: MarkerType) => markerTypes.find((markerType) => markerType.value === type) || markerTypes[6];
+
+export const formatOffset = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const remaining = whole % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${remaining.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const MarkerTimeline: React.FC<MarkerTimelineProps> = ({ recordingId, live, duration }) => {
+  const queryClient = useQueryClient();
+  const { showNotification } = useNotification();
+  const [type, setType] = useState<MarkerType>('goal');
+  const [note, setNote] = useState('');
+  const [offset, setOffset] = useState('');
+
+  const { data: markers } = useQuery({
+    queryKey: ['markers', recordingId],
+    queryFn: () => apiService.getMarkers(recordingId),
+    refetchInterval: live ? 10000 : false,
+  });
+
+  const createMarkerMutation = useMutation({
+    mutationFn: (data: MarkerFormData) => apiService.createMarker(recordingId, data),
+    onSuccess: (response) => {
+      showNotification(`${getMarkerType(response.data!.type).label} marked at ${formatOffset(response.data!.offset_seconds)}`, 'success');
+      setNote('');
+      setOffset('');
+      queryClient.invalidateQueries({ queryKey: ['markers', recordingId] });
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to add marker', 'error');
+    },
+  });
+
+  const deleteMarkerMutation = useMutation({
+    mutationFn: (markerId: string) => apiService.deleteMarker(recordingId, markerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['markers', recordingId] });
+    },
+    onError: () => {
+      showNotification('Failed to delete marker', 'error');
+    },
+  });
+
+  const handleAdd = () => {
+    const data: MarkerFormData = { type, note: note.trim() || undefined };
+    if (offset !== '') {
+      data.offset = Number(offset);
+    }
+    createMarkerMutation.mutate(data);
+  };
+
+  const items = markers?.data || [];
+  const lastOffset = items.length > 0 ? items[items.length - 1].offset_seconds : 0;
+  // While live the timeline grows with the latest marker
+  const scale = Math.max(duration || 0, lastOffset, 1);
+
+  return (
+    <Box>
+      {live && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {markerTypes.slice(0, 4).map((markerType) => (
+            <Button
+              key={markerType.value}
+              size="small"
+              variant="outlined"
+              onClick={() => createMarkerMutation.mutate({ type: markerType.value })}
+              disabled={createMarkerMutation.isPending}
+            >
+              {markerType.label}
+            </Button>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Type</InputLabel>
+          <Select value={type} label="Type" onChange={(e) => setType(e.target.value as MarkerType)}>
+            {markerTypes.map((markerType) => (
+              <MenuItem key={markerType.value} value={markerType.value}>
+                {markerType.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          sx={{ flex: 1, minWidth: 160 }}
+        />
+        <TextField
+          size="small"
+          label="Offset (s)"
+          type="number"
+          value={offset}
+          onChange={(e) => setOffset(e.target.value)}
+          placeholder={live ? 'now' : ''}
+          required={!live}
+          inputProps={{ min: 0 }}
+          sx={{ width: 110 }}
+        />
+        <Button
+          variant="contained"
+          onClick={handleAdd}
+          disabled={createMarkerMutation.isPending || (!live && offset === '')}
+        >
+          Add
+        </Button>
+      </Box>
+
+      {items.length > 0 && (
+        <Box sx={{ position: 'relative', height: 16, bgcolor: 'action.hover', borderRadius: 1, mb: 2 }}>
+          {items.map((marker) => (
+            <Tooltip
+              key={marker.id}
+              title={`${formatOffset(marker.offset_seconds)} ${getMarkerType(marker.type).label}${marker.note ? ` - ${marker.note}` : ''}`}
+            >
+              <Box
+                sx={{
+                  position: 'absolute',
+                  top: 2,
+                  left: `calc(${(marker.offset_seconds / scale) * 100}% - 6px)`,
+                  width: 12,
+                  height: 12,
+                  borderRadius: '50%',
+                  bgcolor: getMarkerType(marker.type).color,
+                }}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+
+      {items.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No markers yet
+        </Typography>
+      ) : (
+        <List dense>
+          {items.map((marker) => (
+            <ListItem
+              key={marker.id}
+              secondaryAction={
+                <IconButton edge="end" size="small" onClick={() => deleteMarkerMutation.mutate(marker.id)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              }
+            >
+              <Chip
+                label={getMarkerType(marker.type).label}
+                size="small"
+                sx={{ mr: 2, bgcolor: getMarkerType(marker.type).color, color: '#fff' }}
+              />
+              <ListItemText primary={formatOffset(marker.offset_seconds)} secondary={marker.note} />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default MarkerTimeline;
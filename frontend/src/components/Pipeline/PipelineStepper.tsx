@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, Button, CircularProgress, Step, StepLabel, Stepper, Typography } from '@mui/material';
+import { Replay as RetryIcon } from '@mui/icons-material';
+import { useMutation } from '@tanstack/react-query';
+import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { PipelineStage, PipelineStageName, RecordingPipeline } from '../../types';
+
+interface PipelineStepperProps {
+  recordingId: string;
+  pipeline: RecordingPipeline;
+  onRetried: () => void;
+}
+
+const formatStageDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const describeStage = (stage: PipelineStage) => {
+  switch (stage.status) {
+    case 'running':
+      return `Running since ${new Date(stage.startedAt!).toLocaleTimeString()}`;
+    case 'completed':
+      return `Done in ${formatStageDuration(stage.durationMs || 0)}`;
+    case 'skipped':
+      return 'Not needed for this output';
+    case 'failed':
+      return stage.error || 'Failed';
+    default:
+      return 'Waiting';
+  }
+};
+
+const PipelineStepper: React.FC<PipelineStepperProps> = ({ recordingId, pipeline, onRetried }) => {
+  const { showNotification } = useNotification();
+  const running = pipeline.stages.some((stage) => stage.status === 'running');
+  // The step the pipeline is on, or the last one once everything has run
+  const activeStep = pipeline.stages.findIndex((stage) => ['pending', 'running'].includes(stage.status));
+
+  const retryMutation = useMutation({
+    mutationFn: (stage: PipelineStageName) => apiService.retryPipelineStage(recordingId, stage),
+    onSuccess: (response) => {
+      showNotification(response.message || 'Stage restarted', 'success');
+      onRetried();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to retry stage', 'error');
+    },
+  });
+
+  return (
+    <Stepper orientation="vertical" activeStep={activeStep === -1 ? pipeline.stages.length : activeStep}>
+      {pipeline.stages.map((stage) => (
+        <Step key={stage.name} completed={['completed', 'skipped'].includes(stage.status)}>
+          <StepLabel
+            error={stage.status === 'failed'}
+            icon={stage.status === 'running' ? <CircularProgress size={22} /> : undefined}
+            optional={
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="caption" color={stage.status === 'failed' ? 'error' : 'text.secondary'}>
+                  {describeStage(stage)}
+                </Typography>
+                {stage.status === 'failed' && !running && (
+                  <Button
+                    size="small"
+                    startIcon={<RetryIcon />}
+                    onClick={() => retryMutation.mutate(stage.name)}
+                    disabled={retryMutation.isPending}
+                  >
+                    Retry
+                  </Button>
+                )}
+              </Box>
+            }
+          >
+            {stage.label}
+          </StepLabel>
+        </Step>
+      ))}
+    </Stepper>
+  );
+};
+
+export default PipelineStepper;
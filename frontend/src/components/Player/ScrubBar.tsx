@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Slider, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import apiService from '../../services/api';
+
+interface ScrubBarProps {
+  videoId: string;
+  duration: number; // seconds
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+// One cue of the thumbnails track: a time range and its tile in the sprite
+interface ThumbnailCue {
+  start: number;
+  end: number;
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const parseCueTime = (value: string) => value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+const parseThumbnailTrack = (text: string): ThumbnailCue[] => text
+  .split(/\r?\n\r?\n/)
+  .map((block) => {
+    const lines = block.trim().split(/\r?\n/);
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    const match = timing >= 0 ? /^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/.exec(lines[timing + 1] || '') : null;
+    if (!match) return null;
+    const [start, end] = lines[timing].split('-->').map((part) => parseCueTime(part.trim()));
+    return {
+      start,
+      end,
+      url: match[1],
+      x: Number(match[2]),
+      y: Number(match[3]),
+      width: Number(match[4]),
+      height: Number(match[5]),
+    };
+  })
+  .filter((cue): cue is ThumbnailCue => cue !== null);
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Seek bar under the player that previews the frame under the pointer from the sprite sheet
+const ScrubBar: React.FC<ScrubBarProps> = ({ videoId, duration, currentTime, onSeek }) => {
+  const [hover, setHover] = useState<{ time: number; left: number } | null>(null);
+
+  const { data: track } = useQuery({
+    queryKey: ['thumbnailTrack', videoId],
+    queryFn: () => apiService.getThumbnailTrack(videoId),
+    retry: false, // audio-only videos and ones from before sprites have no track
+    staleTime: 60 * 60 * 1000, // the sprite URL in it is signed for two hours
+  });
+
+  const cues = useMemo(() => (track ? parseThumbnailTrack(track) : []), [track]);
+  const cue = hover ? cues.find((entry) => hover.time >= entry.start && hover.time < entry.end) : undefined;
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    setHover({ time: fraction * duration, left: event.clientX - rect.left });
+  };
+
+  // Without a sprite the player's own controls are enough
+  if (!duration || cues.length === 0) return null;
+
+  return (
+    <Box
+      sx={{ position: 'relative', px: 2, pt: 1 }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHover(null)}
+    >
+      {hover && cue && (
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: '100%',
+            left: hover.left,
+            transform: 'translateX(-50%)',
+            pointerEvents: 'none',
+            zIndex: 1,
+          }}
+        >
+          <Box
+            sx={{
+              width: cue.width,
+              height: cue.height,
+              backgroundImage: `url(${cue.url})`,
+              backgroundPosition: `-${cue.x}px -${cue.y}px`,
+              border: '2px solid white',
+              borderRadius: 1,
+              boxShadow: 3,
+            }}
+          />
+          <Typography variant="caption" sx={{ display: 'block', textAlign: 'center', color: 'text.primary' }}>
+            {formatTime(hover.time)}
+          </Typography>
+        </Box>
+      )}
+      <Slider
+        size="small"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={Math.min(currentTime, duration)}
+        onChange={(_, value) => onSeek(value as number)}
+      />
+    </Box>
+  );
+};
+
+export default ScrubBar;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Box, TextField } from '@mui/material';
+import { RequestProfile } from '../../types';
+
+interface RequestProfileFieldsProps {
+  value: RequestProfile;
+  onChange: (profile: RequestProfile) => void;
+}
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+// "Name: value" per line; lines without a colon are ignored until completed
+const parseHeaders = (text: string) => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  });
+  return headers;
+};
+
+const RequestProfileFields: React.FC<RequestProfileFieldsProps> = ({ value, onChange }) => {
+  const [headersText, setHeadersText] = useState(formatHeaders(value.headers));
+
+  const handleChange = (key: keyof RequestProfile, fieldValue: string) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <TextField
+        label="User Agent"
+        value={value.user_agent || ''}
+        onChange={(e) => handleChange('user_agent', e.target.value)}
+        helperText="Leave empty to use the default user agent from Settings"
+        fullWidth
+      />
+      <TextField
+        label="Referer"
+        value={value.referer || ''}
+        onChange={(e) => handleChange('referer', e.target.value)}
+        placeholder="https://example.com/watch"
+        fullWidth
+      />
+      <TextField
+        label="Cookies"
+        value={value.cookies || ''}
+        onChange={(e) => handleChange('cookies', e.target.value)}
+        placeholder="session=abc123; region=eu"
+        fullWidth
+      />
+      <TextField
+        label="Extra Headers"
+        value={headersText}
+        onChange={(e) => {
+          setHeadersText(e.target.value);
+          onChange({ ...value, headers: parseHeaders(e.target.value) });
+        }}
+        helperText="One header per line, e.g. Origin: https://example.com"
+        fullWidth
+        multiline
+        rows={3}
+      />
+      <TextField
+        label="Proxy"
+        value={value.proxy || ''}
+        onChange={(e) => handleChange('proxy', e.target.value)}
+        placeholder="http://proxy.example.com:3128"
+        helperText="HTTP proxies apply to capture and source lookups; SOCKS proxies only to source lookups"
+        fullWidth
+      />
+    </Box>
+  );
+};
+
+export default RequestProfileFields;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { Line, LineChart, ResponsiveContainer, YAxis } from 'recharts';
+import apiService from '../../services/api';
+
+interface TelemetrySparklineProps {
+  recordingId: string;
+  height?: number;
+}
+
+// Bitrate over the backend's rolling telemetry window
+const TelemetrySparkline: React.FC<TelemetrySparklineProps> = ({ recordingId, height = 40 }) => {
+  const { data: progress } = useQuery({
+    queryKey: ['recordingProgress', recordingId],
+    queryFn: () => apiService.getRecordingProgress(recordingId),
+    refetchInterval: 5000,
+  });
+
+  const samples = progress?.data?.samples || [];
+
+  if (samples.length < 2) {
+    return (
+      <Box sx={{ height, display: 'flex', alignItems: 'center' }}>
+        <Typography variant="caption" color="text.secondary">
+          Waiting for samples…
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={samples}>
+          <YAxis hide domain={[0, 'auto']} />
+          <Line
+            type="monotone"
+            dataKey="bitrate"
+            stroke="#f44336"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </Box>
+  );
+};
+
+export default TelemetrySparkline;
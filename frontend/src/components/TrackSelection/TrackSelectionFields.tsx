@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  Box,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { StreamProbe, VideoVariantSelection } from '../../types';
+
+interface TrackSelectionFieldsProps {
+  probe: StreamProbe;
+  audioOnly: boolean;
+  audioTracks: Array<string | number>;
+  videoVariant: VideoVariantSelection | null;
+  onAudioTracksChange: (tracks: Array<string | number>) => void;
+  onVideoVariantChange: (variant: VideoVariantSelection | null) => void;
+}
+
+type ProbeAudioTrack = StreamProbe['audio'][number];
+
+// A language tag survives a switch to a backup source, an index does not; the index is only
+// used when the language is missing or shared by several tracks
+const getTrackKey = (track: ProbeAudioTrack, tracks: ProbeAudioTrack[]) => {
+  const sameLanguage = tracks.filter((other) => other.language === track.language);
+  return track.language && sameLanguage.length === 1 ? track.language : track.index;
+};
+
+const describeTrack = (track: ProbeAudioTrack) => [
+  track.language ? track.language.toUpperCase() : 'Unknown language',
+  track.codec,
+  track.channels ? `${track.channels} ch` : null,
+  track.bitrate ? `${Math.round(track.bitrate / 1000)} kbps` : null,
+].filter(Boolean).join(' • ');
+
+const TrackSelectionFields: React.FC<TrackSelectionFieldsProps> = ({
+  probe,
+  audioOnly,
+  audioTracks,
+  videoVariant,
+  onAudioTracksChange,
+  onVideoVariantChange,
+}) => {
+  const toggleTrack = (key: string | number) => {
+    onAudioTracksChange(audioTracks.includes(key)
+      ? audioTracks.filter((selected) => selected !== key)
+      : [...audioTracks, key]);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {!audioOnly && probe.variants.length > 0 && (
+        <FormControl fullWidth>
+          <InputLabel shrink>Video Variant</InputLabel>
+          <Select
+            value={videoVariant ? String(videoVariant.program_id) : ''}
+            label="Video Variant"
+            displayEmpty
+            notched
+            onChange={(e) => {
+              const variant = probe.variants.find((candidate) => String(candidate.programId) === e.target.value);
+              onVideoVariantChange(variant
+                ? { program_id: variant.programId, bandwidth: variant.bandwidth, resolution: variant.resolution }
+                : null);
+            }}
+          >
+            <MenuItem value="">Best available</MenuItem>
+            {probe.variants.map((variant) => (
+              <MenuItem key={variant.programId} value={String(variant.programId)}>
+                {variant.resolution || 'Audio only'} • {Math.round(variant.bandwidth / 1000)} kbps
+                {variant.videoCodec ? ` • ${variant.videoCodec}` : ''}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Audio Tracks
+        </Typography>
+        {probe.audio.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            The stream has no audio tracks
+          </Typography>
+        ) : (
+          <FormGroup>
+            {probe.audio.map((track) => {
+              const key = getTrackKey(track, probe.audio);
+              return (
+                <FormControlLabel
+                  key={track.index}
+                  control={<Checkbox checked={audioTracks.includes(key)} onChange={() => toggleTrack(key)} />}
+                  label={`#${track.index} ${describeTrack(track)}`}
+                />
+              );
+            })}
+          </FormGroup>
+        )}
+        <FormHelperText>
+          {audioTracks.length === 0
+            ? 'None selected: the default audio track is recorded'
+            : `${audioTracks.length} track${audioTracks.length > 1 ? 's' : ''} will be recorded`}
+        </FormHelperText>
+      </Box>
+    </Box>
+  );
+};
+
+export default TrackSelectionFields;
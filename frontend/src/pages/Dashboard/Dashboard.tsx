@@ -25,11 +25,16 @@ import {
   Stop as StopIcon,
   Add as AddIcon,
   Refresh as RefreshIcon,
+  HourglassEmpty as QueuedIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
 } from '@mui/icons-material';
 import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { useNotification } from '../../contexts/NotificationContext';
 import apiService from '../../services/api';
+import TelemetrySparkline from '../../components/Telemetry/TelemetrySparkline';
+import { ActiveRecording } from '../../types';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -47,6 +52,12 @@ const Dashboard: React.FC = () => {
     refetchInterval: 5000,
   });
 
+  const { data: recordingQueue, refetch: refetchQueue } = useQuery({
+    queryKey: ['recordingQueue'],
+    queryFn: () => apiService.getRecordingQueue(),
+    refetchInterval: 5000,
+  });
+
   const { data: upcomingMatches } = useQuery({
     queryKey: ['upcomingMatches'],
     queryFn: () => apiService.getUpcomingMatches(5),
@@ -64,11 +75,27 @@ const Dashboard: React.FC = () => {
     queryFn: () => apiService.getScheduleStats(),
   });
 
+  const handleTogglePause = async (recording: ActiveRecording) => {
+    const paused = recording.status === 'paused';
+    try {
+      if (paused) {
+        await apiService.resumeRecording(recording.id);
+      } else {
+        await apiService.pauseRecording(recording.id);
+      }
+      showNotification(paused ? 'Recording resumed' : 'Recording paused', 'success');
+      refetchActive();
+    } catch (error) {
+      showNotification(paused ? 'Failed to resume recording' : 'Failed to pause recording', 'error');
+    }
+  };
+
   const handleStopRecording = async (id: string) => {
     try {
-      await apiService.stopRecording(id);
-      showNotification('Recording stopped successfully', 'success');
+      const response = await apiService.stopRecording(id);
+      showNotification(response.data?.message || 'Recording stopped', 'success');
       refetchActive();
+      refetchQueue();
     } catch (error) {
       showNotification('Failed to stop recording', 'error');
     }
@@ -82,6 +109,10 @@ const Dashboard: React.FC = () => {
         return 'success';
       case 'pending':
         return 'warning';
+      case 'queued':
+        return 'info';
+      case 'paused':
+        return 'secondary';
       case 'failed':
         return 'error';
       default:
@@ -205,29 +236,82 @@ const Dashboard: React.FC = () => {
                 <List>
                   {activeRecordings.data.map((recording, index) => (
                     <React.Fragment key={recording.id}>
+                      <ListItem
+                        secondaryAction={
+                          <Box>
+                            <IconButton onClick={() => handleTogglePause(recording)}>
+                              {recording.status === 'paused' ? <ResumeIcon /> : <PauseIcon />}
+                            </IconButton>
+                            <IconButton
+                              edge="end"
+                              onClick={() => handleStopRecording(recording.id)}
+                              color="error"
+                            >
+                              <StopIcon />
+                            </IconButton>
+                          </Box>
+                        }
+                      >
+                        <ListItemIcon>
+                          <RecordingIcon color={recording.status === 'paused' ? 'disabled' : 'error'} />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={recording.title}
+                          secondary={recording.status === 'paused'
+                            ? `Paused since ${new Date(recording.pausedAt!).toLocaleTimeString()}`
+                            : `Recording for ${formatDuration(recording.duration)} • ${recording.bitrate} kbps • ${recording.fps} fps • ${apiService.formatFileSize(recording.size)}${recording.droppedFrames > 0 ? ` • ${recording.droppedFrames} dropped` : ''}`}
+                        />
+                        <Box sx={{ width: 160, mr: 6 }}>
+                          <TelemetrySparkline recordingId={recording.id} />
+                        </Box>
+                      </ListItem>
+                      {index < (activeRecordings.data?.length || 0) - 1 && <Divider />}
+                    </React.Fragment>
+                  ))}
+                </List>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+
+        {/* Queued Recordings */}
+        {recordingQueue?.data && recordingQueue.data.length > 0 && (
+          <Grid size={{ xs: 12 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Queued Recordings
+                </Typography>
+                <List>
+                  {recordingQueue.data.map((entry, index) => (
+                    <React.Fragment key={entry.recording_id}>
                       <ListItem
                         secondaryAction={
                           <IconButton
                             edge="end"
-                            onClick={() => handleStopRecording(recording.id)}
-                            color="error"
+                            onClick={() => handleStopRecording(entry.recording_id)}
                           >
                             <StopIcon />
                           </IconButton>
                         }
                       >
                         <ListItemIcon>
-                          <RecordingIcon color="error" />
+                          <QueuedIcon color="info" />
                         </ListItemIcon>
                         <ListItemText
-                          primary={recording.title}
-                          secondary={`Recording for ${formatDuration(recording.duration)}`}
+                          primary={`#${entry.position} ${entry.title}`}
+                          secondary={`Queued ${apiService.formatDateTime(entry.queued_at)}`}
+                          sx={{ cursor: 'pointer' }}
+                          onClick={() => navigate(`/recordings/${entry.recording_id}`)}
+                        />
+                        <Chip
+                          label={entry.priority_name}
+                          color={entry.priority_name === 'scheduled' ? 'primary' : 'default'}
+                          size="small"
+                          sx={{ mr: 2 }}
                         />
-                        <Box sx={{ width: 100, mr: 2 }}>
-                          <LinearProgress color="error" />
-                        </Box>
                       </ListItem>
-                      {index < (activeRecordings.data?.length || 0) - 1 && <Divider />}
+                      {index < (recordingQueue.data?.length || 0) - 1 && <Divider />}
                     </React.Fragment>
                   ))}
                 </List>
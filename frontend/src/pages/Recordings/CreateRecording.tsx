@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
@@ -11,31 +11,60 @@ import {
   Select,
   MenuItem,
   Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  FormControlLabel,
+  FormHelperText,
+  Switch,
 } from '@mui/material';
 import { Grid } from '@mui/material';
-import { Save as SaveIcon, ArrowBack as BackIcon } from '@mui/icons-material';
+import { Save as SaveIcon, ArrowBack as BackIcon, ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useForm, Controller } from 'react-hook-form';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNotification } from '../../contexts/NotificationContext';
 import apiService from '../../services/api';
-import { RecordingFormData } from '../../types';
+import { RecordingFormData, RequestProfile, StreamProbe, VideoVariantSelection } from '../../types';
+import RequestProfileFields from '../../components/RequestProfile/RequestProfileFields';
+import TrackSelectionFields from '../../components/TrackSelection/TrackSelectionFields';
 
 const CreateRecording: React.FC = () => {
   const navigate = useNavigate();
   const { showNotification } = useNotification();
   const queryClient = useQueryClient();
 
-  const { control, handleSubmit, formState: { errors } } = useForm<RecordingFormData>({
+  const { data: profiles } = useQuery({
+    queryKey: ['encodingProfiles'],
+    queryFn: () => apiService.getEncodingProfiles(),
+  });
+
+  const [backupUrls, setBackupUrls] = useState('');
+  const [requestProfile, setRequestProfile] = useState<RequestProfile>({});
+  const [probeError, setProbeError] = useState<string | null>(null);
+  const [pendingRecording, setPendingRecording] = useState<RecordingFormData | null>(null);
+  const [checkedProbe, setCheckedProbe] = useState<StreamProbe | null>(null);
+  const [audioTracks, setAudioTracks] = useState<Array<string | number>>([]);
+  const [videoVariant, setVideoVariant] = useState<VideoVariantSelection | null>(null);
+  const backupUrlList = backupUrls.split('\n').map(url => url.trim()).filter(Boolean);
+  const invalidBackupUrl = backupUrlList.find(url => !/^https?:\/\/.+/.test(url));
+
+  const { control, handleSubmit, watch, formState: { errors } } = useForm<RecordingFormData>({
     defaultValues: {
       title: '',
       description: '',
       stream_url: '',
       quality: 'best',
       format: 'mp4',
+      subtitles: false,
     },
   });
 
+  const streamUrl = watch('stream_url');
+  const audioOnly = ['m4a', 'opus'].includes(watch('format'));
+  // Track choices only apply to the URL they were read from
+  const probe = checkedProbe && checkedProbe.url === streamUrl ? checkedProbe : null;
+
   const createMutation = useMutation({
     mutationFn: (data: RecordingFormData) => apiService.createRecording(data),
     onSuccess: (response) => {
@@ -48,8 +77,54 @@ const CreateRecording: React.FC = () => {
     },
   });
 
+  // Check the stream is reachable before saving; a failed check can still be overridden
+  const probeMutation = useMutation({
+    mutationFn: (data: RecordingFormData) => apiService.probeStream({
+      stream_url: data.stream_url,
+      request_profile: data.request_profile,
+    }),
+    onSuccess: (_response, data) => {
+      createMutation.mutate(data);
+    },
+    onError: (error: any, data) => {
+      setPendingRecording(data);
+      setProbeError(error.response?.data?.details || 'Stream could not be reached');
+    },
+  });
+
+  // Read the stream's tracks and variants so they can be chosen before creating
+  const checkMutation = useMutation({
+    mutationFn: () => apiService.probeStream({ stream_url: streamUrl, request_profile: requestProfile }),
+    onSuccess: (response) => {
+      setCheckedProbe(response.data || null);
+      setAudioTracks([]);
+      setVideoVariant(null);
+    },
+    onError: (error: any) => {
+      setCheckedProbe(null);
+      setProbeError(error.response?.data?.details || 'Stream could not be reached');
+    },
+  });
+
   const onSubmit = (data: RecordingFormData) => {
-    createMutation.mutate(data);
+    if (invalidBackupUrl) return;
+    setProbeError(null);
+    const recordingData = {
+      ...data,
+      subtitles: audioOnly ? false : data.subtitles,
+      backup_urls: backupUrlList,
+      request_profile: requestProfile,
+    };
+    if (probe) {
+      // Already checked, the choices come from that probe
+      createMutation.mutate({
+        ...recordingData,
+        audio_tracks: audioTracks,
+        video_variant: audioOnly ? null : videoVariant,
+      });
+    } else {
+      probeMutation.mutate(recordingData);
+    }
   };
 
   return (
@@ -128,6 +203,43 @@ const CreateRecording: React.FC = () => {
                     />
                   )}
                 />
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={() => {
+                      setProbeError(null);
+                      checkMutation.mutate();
+                    }}
+                    disabled={!/^https?:\/\/.+/.test(streamUrl || '') || checkMutation.isPending}
+                  >
+                    {checkMutation.isPending ? 'Checking...' : 'Check Stream'}
+                  </Button>
+                  {probe && (
+                    <Typography variant="body2" color="text.secondary">
+                      {probe.video ? `${probe.video.resolution} ${probe.video.codec}` : 'Audio only'}
+                      {` • ${probe.audio.length} audio track${probe.audio.length === 1 ? '' : 's'}`}
+                      {probe.variants.length > 0 ? ` • ${probe.variants.length} variants` : ''}
+                      {` • via ${probe.resolver}`}
+                    </Typography>
+                  )}
+                </Box>
+              </Grid>
+
+              <Grid size={{ xs: 12 }}>
+                <TextField
+                  label="Backup Stream URLs (Optional)"
+                  value={backupUrls}
+                  onChange={(e) => setBackupUrls(e.target.value)}
+                  fullWidth
+                  multiline
+                  rows={3}
+                  error={!!invalidBackupUrl}
+                  helperText={invalidBackupUrl
+                    ? `Not a valid HTTP/HTTPS URL: ${invalidBackupUrl}`
+                    : 'One URL per line, tried in order if the stream above fails'}
+                  placeholder="https://backup.example.com/stream.m3u8"
+                />
               </Grid>
 
               <Grid size={{ xs: 12, sm: 6 }}>
@@ -138,9 +250,13 @@ const CreateRecording: React.FC = () => {
                     <FormControl fullWidth>
                       <InputLabel>Quality</InputLabel>
                       <Select {...field} label="Quality">
-                        <MenuItem value="best">Best Available</MenuItem>
-                        <MenuItem value="good">Good</MenuItem>
-                        <MenuItem value="medium">Medium</MenuItem>
+                        <MenuItem value="best">Best Available (no re-encode)</MenuItem>
+                        {profiles?.data?.map((profile) => (
+                          <MenuItem key={profile.id} value={profile.name}>
+                            {profile.name}
+                            {profile.resolution ? ` • ${profile.resolution}` : ''} • {profile.video_bitrate}
+                          </MenuItem>
+                        ))}
                       </Select>
                     </FormControl>
                   )}
@@ -158,12 +274,60 @@ const CreateRecording: React.FC = () => {
                         <MenuItem value="mp4">MP4</MenuItem>
                         <MenuItem value="mkv">MKV</MenuItem>
                         <MenuItem value="ts">TS</MenuItem>
+                        <MenuItem value="hls">HLS (Segmented)</MenuItem>
+                        <MenuItem value="m4a">M4A (audio only)</MenuItem>
+                        <MenuItem value="opus">Opus (audio only)</MenuItem>
                       </Select>
                     </FormControl>
                   )}
                 />
               </Grid>
 
+              {!audioOnly && (
+                <Grid size={{ xs: 12 }}>
+                  <Controller
+                    name="subtitles"
+                    control={control}
+                    render={({ field }) => (
+                      <FormControlLabel
+                        control={<Switch checked={!!field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                        label="Capture subtitles and closed captions"
+                      />
+                    )}
+                  />
+                  <FormHelperText>
+                    {probe
+                      ? `${probe.subtitles.length} text subtitle track${probe.subtitles.length === 1 ? '' : 's'}`
+                        + (probe.closedCaptions ? ', closed captions detected' : ', no closed captions detected')
+                      : 'Saved as WebVTT files that play alongside the video'}
+                  </FormHelperText>
+                </Grid>
+              )}
+
+              {probe && (
+                <Grid size={{ xs: 12 }}>
+                  <TrackSelectionFields
+                    probe={probe}
+                    audioOnly={audioOnly}
+                    audioTracks={audioTracks}
+                    videoVariant={videoVariant}
+                    onAudioTracksChange={setAudioTracks}
+                    onVideoVariantChange={setVideoVariant}
+                  />
+                </Grid>
+              )}
+
+              <Grid size={{ xs: 12 }}>
+                <Accordion variant="outlined">
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <Typography>Request Profile (headers, cookies, proxy)</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    <RequestProfileFields value={requestProfile} onChange={setRequestProfile} />
+                  </AccordionDetails>
+                </Accordion>
+              </Grid>
+
               <Grid size={{ xs: 12 }}>
                 <Alert severity="info">
                   The recording will be created and can be started immediately or scheduled for later.
@@ -171,6 +335,26 @@ const CreateRecording: React.FC = () => {
                 </Alert>
               </Grid>
 
+              {probeError && (
+                <Grid size={{ xs: 12 }}>
+                  <Alert
+                    severity="error"
+                    action={
+                      <Button
+                        color="inherit"
+                        size="small"
+                        onClick={() => pendingRecording && createMutation.mutate(pendingRecording)}
+                        disabled={createMutation.isPending}
+                      >
+                        Create Anyway
+                      </Button>
+                    }
+                  >
+                    Stream check failed: {probeError}
+                  </Alert>
+                </Grid>
+              )}
+
               <Grid size={{ xs: 12 }}>
                 <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
                   <Button
@@ -183,9 +367,11 @@ const CreateRecording: React.FC = () => {
                     type="submit"
                     variant="contained"
                     startIcon={<SaveIcon />}
-                    disabled={createMutation.isPending}
+                    disabled={probeMutation.isPending || createMutation.isPending}
                   >
-                    {createMutation.isPending ? 'Creating...' : 'Create Recording'}
+                    {probeMutation.isPending
+                      ? 'Checking stream...'
+                      : createMutation.isPending ? 'Creating...' : 'Create Recording'}
                   </Button>
                 </Box>
               </Grid>
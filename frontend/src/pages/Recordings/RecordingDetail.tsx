@@ -26,11 +26,21 @@ import {
   Delete as DeleteIcon,
   Refresh as RefreshIcon,
   VideoLibrary as VideoIcon,
+  Pause as PauseIcon,
+  Replay as RetryIcon,
 } from '@mui/icons-material';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useNotification } from '../../contexts/NotificationContext';
 import apiService from '../../services/api';
+import {
+  CaptureStall, MediaTrack, PipelineStage, RecordingAttempt, RecordingChecksum, Chapter, MatchBoundaries as MatchBoundariesData, RecordingClip, RecordingHighlights, RecordingIntegrity, RecordingMatchOnly, RecordingPause, RecordingPipeline, RecordingStop, SourceFailover, StreamResolution, SubtitleTrack, UrlRefresh, VideoVariantSelection,
+} from '../../types';
+import TelemetrySparkline from '../../components/Telemetry/TelemetrySparkline';
+import MarkerTimeline from '../../components/Markers/MarkerTimeline';
+import MarkerCandidates from '../../components/Markers/MarkerCandidates';
+import MatchBoundaries from '../../components/Boundaries/MatchBoundaries';
+import PipelineStepper from '../../components/Pipeline/PipelineStepper';
 
 const RecordingDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -43,13 +53,37 @@ const RecordingDetail: React.FC = () => {
     queryKey: ['recording', id],
     queryFn: () => apiService.getRecordingById(id!),
     enabled: !!id,
+    // Followed while capturing or post-processing; a failed recording may be restarted by
+    // its automatic retry
+    refetchInterval: (query) => {
+      const data = query.state.data?.data;
+      const stages: PipelineStage[] = data?.metadata?.pipeline?.stages || [];
+      const rendering = data?.status === 'processing' && !data.metadata?.pipeline; // clip or highlights
+      if (data?.status === 'recording' || rendering || stages.some((stage) => stage.status === 'running')) return 5000;
+      return data?.status === 'failed' ? 10000 : false;
+    },
+  });
+
+  // Shares its cache entry with the sparkline
+  const { data: progress } = useQuery({
+    queryKey: ['recordingProgress', id],
+    queryFn: () => apiService.getRecordingProgress(id!),
+    enabled: !!id && recording?.data?.status === 'recording',
+    refetchInterval: 5000,
+  });
+
+  const { data: attempts, refetch: refetchAttempts } = useQuery({
+    queryKey: ['recordingAttempts', id],
+    queryFn: () => apiService.getRecordingAttempts(id!),
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.retryPending ? 10000 : false),
   });
 
   // Mutations
   const startRecordingMutation = useMutation({
     mutationFn: () => apiService.startRecording(id!),
-    onSuccess: () => {
-      showNotification('Recording started successfully', 'success');
+    onSuccess: (response) => {
+      showNotification(response.data?.queued ? 'Recording queued until a slot is free' : 'Recording started successfully', 'success');
       refetch();
     },
     onError: () => {
@@ -59,8 +93,8 @@ const RecordingDetail: React.FC = () => {
 
   const stopRecordingMutation = useMutation({
     mutationFn: () => apiService.stopRecording(id!),
-    onSuccess: () => {
-      showNotification('Recording stopped successfully', 'success');
+    onSuccess: (response) => {
+      showNotification(response.data?.message || 'Recording stopped', 'success');
       refetch();
     },
     onError: () => {
@@ -68,6 +102,53 @@ const RecordingDetail: React.FC = () => {
     },
   });
 
+  const pauseRecordingMutation = useMutation({
+    mutationFn: () => apiService.pauseRecording(id!),
+    onSuccess: () => {
+      showNotification('Recording paused', 'success');
+      refetch();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to pause recording', 'error');
+    },
+  });
+
+  const resumeRecordingMutation = useMutation({
+    mutationFn: () => apiService.resumeRecording(id!),
+    onSuccess: () => {
+      showNotification('Recording resumed', 'success');
+      refetch();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to resume recording', 'error');
+    },
+  });
+
+  const retryRecordingMutation = useMutation({
+    mutationFn: () => apiService.retryRecording(id!),
+    onSuccess: (response) => {
+      showNotification(response.message || 'Recording restarted', 'success');
+      refetch();
+      refetchAttempts();
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to retry recording', 'error');
+      refetch();
+      refetchAttempts();
+    },
+  });
+
+  const cancelRetryMutation = useMutation({
+    mutationFn: () => apiService.stopRecording(id!),
+    onSuccess: () => {
+      showNotification('Automatic retry cancelled', 'success');
+      refetchAttempts();
+    },
+    onError: () => {
+      showNotification('Failed to cancel retry', 'error');
+    },
+  });
+
   const deleteRecordingMutation = useMutation({
     mutationFn: () => apiService.deleteRecording(id!),
     onSuccess: () => {
@@ -108,6 +189,12 @@ const RecordingDetail: React.FC = () => {
         return 'success';
       case 'pending':
         return 'warning';
+      case 'queued':
+        return 'info';
+      case 'paused':
+        return 'secondary';
+      case 'processing':
+        return 'info';
       case 'failed':
         return 'error';
       default:
@@ -179,6 +266,58 @@ const RecordingDetail: React.FC = () => {
   }
 
   const recordingData = recording.data;
+  const backupUrls: string[] = recordingData.metadata?.backup_urls || [];
+  const failovers: SourceFailover[] = recordingData.metadata?.failovers || [];
+  const stalls: CaptureStall[] = recordingData.metadata?.stalls || [];
+  const pauses: RecordingPause[] = recordingData.metadata?.pauses || [];
+  const urlRefreshes: UrlRefresh[] = recordingData.metadata?.url_refreshes || [];
+  const resolution: StreamResolution | undefined = recordingData.metadata?.resolution;
+  const outputTracks: MediaTrack[] = recordingData.metadata?.output_tracks || [];
+  const selectedAudioTracks: Array<string | number> = recordingData.metadata?.audio_tracks || [];
+  const selectedVariant: VideoVariantSelection | null = recordingData.metadata?.video_variant || null;
+  const subtitleTracks: Array<Omit<SubtitleTrack, 'url'>> = recordingData.metadata?.subtitles || [];
+  const captureEvents = [
+    ...failovers.map((failover) => ({
+      at: failover.at,
+      title: failover.to ? 'Switched to backup source' : 'All sources failed',
+      detail: failover.reason,
+    })),
+    ...pauses.map((pause) => ({
+      at: pause.pausedAt,
+      title: pause.resumedAt ? 'Paused' : 'Paused (still paused)',
+      detail: pause.resumedAt
+        ? `resumed ${new Date(pause.resumedAt).toLocaleString()} after ${formatDuration(Math.round((new Date(pause.resumedAt).getTime() - new Date(pause.pausedAt).getTime()) / 1000))}`
+        : 'capture resumes into a new part',
+    })),
+    ...stalls.map((stall) => ({
+      at: stall.at,
+      title: 'Capture stalled, restarted',
+      detail: `No output for ${stall.stalledFor}s${stall.timemark ? ` at ${stall.timemark}` : ''}`,
+    })),
+    ...urlRefreshes.map((refresh) => ({
+      at: refresh.at,
+      title: 'Stream URL refreshed',
+      detail: `Signed URL expiring ${new Date(refresh.expiredAt).toLocaleString()} re-resolved via ${refresh.resolver}`,
+    })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  const recordingAttempts: RecordingAttempt[] = attempts?.data || [];
+  const pipeline: RecordingPipeline | undefined = recordingData.metadata?.pipeline;
+  const stop: RecordingStop | undefined = recordingData.metadata?.stopped;
+  const stopReasons: Record<RecordingStop['reason'], string> = {
+    manual: 'stopped manually',
+    scheduled_end: 'scheduled end reached',
+    max_duration: 'maximum duration reached',
+    low_disk_space: 'low disk space',
+  };
+  const diskSpaceStop: { at: string; free: number; reserve: number } | undefined = recordingData.metadata?.disk_space_stop;
+  const checksum: RecordingChecksum | undefined = recordingData.metadata?.checksum;
+  const integrity: RecordingIntegrity | undefined = recordingData.metadata?.integrity;
+  const clip: RecordingClip | undefined = recordingData.metadata?.clip;
+  const highlights: RecordingHighlights | undefined = recordingData.metadata?.highlights;
+  const matchOnly: RecordingMatchOnly | undefined = recordingData.metadata?.match_only;
+  const boundaries: MatchBoundariesData | undefined = recordingData.metadata?.boundaries;
+  const chapters: Chapter[] = recordingData.metadata?.chapters || [];
+  const derived = !!(clip || highlights || matchOnly);
 
   return (
     <Box>
@@ -196,6 +335,20 @@ const RecordingDetail: React.FC = () => {
             color={getStatusColor(recordingData.status)}
             size="medium"
           />
+          {recordingData.status === 'completed' && stop?.early && (
+            <Chip label="stopped early" color="warning" variant="outlined" size="medium" />
+          )}
+          {clip && (
+            <Chip
+              label={`clip ${clip.start}s-${clip.end}s`}
+              variant="outlined"
+              size="medium"
+              onClick={() => navigate(`/recordings/${clip.parent_id}`)}
+            />
+          )}
+          {integrity?.status === 'corrupted' && (
+            <Chip label="corrupted" color="error" size="medium" />
+          )}
         </Box>
         <Box sx={{ display: 'flex', gap: 1 }}>
           <Button
@@ -215,7 +368,37 @@ const RecordingDetail: React.FC = () => {
               Start Recording
             </Button>
           )}
+          {recordingData.status === 'failed' && !derived && (
+            <Button
+              variant="contained"
+              startIcon={<RetryIcon />}
+              onClick={() => retryRecordingMutation.mutate()}
+              disabled={retryRecordingMutation.isPending}
+            >
+              Retry Now
+            </Button>
+          )}
           {recordingData.status === 'recording' && (
+            <Button
+              variant="outlined"
+              startIcon={<PauseIcon />}
+              onClick={() => pauseRecordingMutation.mutate()}
+              disabled={pauseRecordingMutation.isPending}
+            >
+              Pause
+            </Button>
+          )}
+          {recordingData.status === 'paused' && (
+            <Button
+              variant="contained"
+              startIcon={<PlayIcon />}
+              onClick={() => resumeRecordingMutation.mutate()}
+              disabled={resumeRecordingMutation.isPending}
+            >
+              Resume
+            </Button>
+          )}
+          {(recordingData.status === 'recording' || recordingData.status === 'paused') && (
             <Button
               variant="contained"
               color="error"
@@ -226,6 +409,17 @@ const RecordingDetail: React.FC = () => {
               Stop Recording
             </Button>
           )}
+          {recordingData.status === 'queued' && (
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<StopIcon />}
+              onClick={() => stopRecordingMutation.mutate()}
+              disabled={stopRecordingMutation.isPending}
+            >
+              Remove from Queue
+            </Button>
+          )}
           {recordingData.status === 'completed' && recordingData.s3_url && (
             <>
               <Button
@@ -300,10 +494,89 @@ const RecordingDetail: React.FC = () => {
                     {recordingData.stream_url}
                   </Typography>
                 </Box>
+                {resolution && (
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Resolved Via
+                    </Typography>
+                    <Typography variant="body1">
+                      {resolution.chain.join(' → ')}
+                      {resolution.expiresAt && (
+                        <Typography component="span" variant="body2" color="text.secondary">
+                          {' '}(URL expires {new Date(resolution.expiresAt).toLocaleString()})
+                        </Typography>
+                      )}
+                    </Typography>
+                  </Box>
+                )}
+                {backupUrls.length > 0 && (
+                  <Box sx={{ gridColumn: { xs: '1', sm: '1 / -1' } }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Backup URLs
+                    </Typography>
+                    {backupUrls.map((url) => (
+                      <Typography key={url} variant="body2" sx={{ wordBreak: 'break-all' }}>
+                        {url}
+                      </Typography>
+                    ))}
+                  </Box>
+                )}
               </Box>
             </CardContent>
           </Card>
 
+          {/* Markers */}
+          {recordingData.status !== 'pending' && recordingData.status !== 'queued' && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Markers
+                </Typography>
+                <MarkerTimeline
+                  recordingId={recordingData.id}
+                  live={recordingData.status === 'recording' || recordingData.status === 'paused'}
+                  duration={recordingData.duration}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Candidate highlights; clips and reels take their markers from their source */}
+          {(recordingData.status === 'completed' || recordingData.metadata?.analysis) && !derived && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Detected Highlights
+                </Typography>
+                <MarkerCandidates
+                  recordingId={recordingData.id}
+                  canAnalyze={recordingData.status === 'completed'}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Kickoff, halftime and full time, and the match-only videos cut with them; the form
+              starts over whenever the boundaries are detected again or saved */}
+          {(recordingData.status === 'completed' || boundaries) && !derived && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Match Boundaries
+                </Typography>
+                <MatchBoundaries
+                  key={boundaries?.updatedAt || 'none'}
+                  recordingId={recordingData.id}
+                  boundaries={boundaries}
+                  chapters={chapters}
+                  duration={recordingData.duration}
+                  completed={recordingData.status === 'completed'}
+                  onUpdated={() => refetch()}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Technical Details */}
           <Card sx={{ mt: 2 }}>
             <CardContent>
@@ -327,6 +600,71 @@ const RecordingDetail: React.FC = () => {
                     {recordingData.quality || 'N/A'}
                   </Typography>
                 </Box>
+                {(selectedAudioTracks.length > 0 || selectedVariant) && (
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Track Selection
+                    </Typography>
+                    <Typography variant="body1">
+                      {[
+                        selectedVariant && `${selectedVariant.resolution || 'variant'} @ ${Math.round((selectedVariant.bandwidth || 0) / 1000)} kbps`,
+                        selectedAudioTracks.length > 0 && `audio ${selectedAudioTracks.map((track) => (typeof track === 'number' ? `#${track}` : track)).join(', ')}`,
+                      ].filter(Boolean).join(' • ')}
+                    </Typography>
+                  </Box>
+                )}
+                {outputTracks.length > 0 && (
+                  <Box sx={{ gridColumn: { xs: '1', sm: '1 / -1' } }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Tracks
+                    </Typography>
+                    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                      {outputTracks.map((track) => (
+                        <Chip
+                          key={track.index}
+                          size="small"
+                          variant="outlined"
+                          label={track.type === 'video'
+                            ? `Video • ${track.codec} • ${track.resolution}`
+                            : `Audio • ${track.language || 'und'} • ${track.codec}${track.channels ? ` • ${track.channels} ch` : ''}`}
+                        />
+                      ))}
+                    </Box>
+                  </Box>
+                )}
+                {(subtitleTracks.length > 0 || recordingData.metadata?.capture_subtitles) && (
+                  <Box sx={{ gridColumn: { xs: '1', sm: '1 / -1' } }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Subtitles
+                    </Typography>
+                    {subtitleTracks.length === 0 ? (
+                      <Typography variant="body1">
+                        {recordingData.status === 'completed' ? 'None found in the stream' : 'Captured with the recording'}
+                      </Typography>
+                    ) : (
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                        {subtitleTracks.map((track) => (
+                          <Chip
+                            key={track.id}
+                            size="small"
+                            variant="outlined"
+                            label={`${track.label} • ${track.cues} cues`}
+                          />
+                        ))}
+                      </Box>
+                    )}
+                  </Box>
+                )}
+                {stalls.length > 0 && (
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Stall Restarts
+                    </Typography>
+                    <Typography variant="body1">
+                      {recordingData.metadata?.stall_restarts ?? stalls.length}
+                    </Typography>
+                  </Box>
+                )}
                 <Box>
                   <Typography variant="subtitle2" color="text.secondary">
                     Duration
@@ -376,6 +714,44 @@ const RecordingDetail: React.FC = () => {
 
         {/* Timeline */}
         <Box sx={{ flex: 1 }}>
+          {recordingData.status === 'recording' && progress?.data && (
+            <Card sx={{ mb: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Live Telemetry
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Bitrate
+                    </Typography>
+                    <Typography variant="body1">{progress.data.bitrate} kbps</Typography>
+                  </Box>
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Frame Rate
+                    </Typography>
+                    <Typography variant="body1">{progress.data.fps} fps</Typography>
+                  </Box>
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Written
+                    </Typography>
+                    <Typography variant="body1">{formatFileSize(progress.data.size)}</Typography>
+                  </Box>
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Dropped / Duplicated
+                    </Typography>
+                    <Typography variant="body1">
+                      {progress.data.droppedFrames} / {progress.data.duplicatedFrames}
+                    </Typography>
+                  </Box>
+                </Box>
+                <TelemetrySparkline recordingId={recordingData.id} height={60} />
+              </CardContent>
+            </Card>
+          )}
           <Card>
             <CardContent>
               <Typography variant="h6" gutterBottom>
@@ -396,6 +772,30 @@ const RecordingDetail: React.FC = () => {
                     />
                   </ListItem>
                 )}
+                {captureEvents.map((event) => (
+                  <ListItem key={`${event.at}-${event.title}`}>
+                    <ListItemText
+                      primary={event.title}
+                      secondary={`${new Date(event.at).toLocaleString()} - ${event.detail}`}
+                    />
+                  </ListItem>
+                ))}
+                {stop && (
+                  <ListItem>
+                    <ListItemText
+                      primary={stop.early ? 'Stopped early' : 'Stopped'}
+                      secondary={`${new Date(stop.at).toLocaleString()} - ${stopReasons[stop.reason] || stop.reason}`}
+                    />
+                  </ListItem>
+                )}
+                {diskSpaceStop && (
+                  <ListItem>
+                    <ListItemText
+                      primary="Stopped: low disk space"
+                      secondary={`${new Date(diskSpaceStop.at).toLocaleString()} - ${formatFileSize(diskSpaceStop.free)} free, ${formatFileSize(diskSpaceStop.reserve)} reserved`}
+                    />
+                  </ListItem>
+                )}
                 {recordingData.completed_at && (
                   <ListItem>
                     <ListItemText
@@ -408,6 +808,123 @@ const RecordingDetail: React.FC = () => {
             </CardContent>
           </Card>
 
+          {highlights && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Highlights
+                </Typography>
+                {recordingData.status === 'processing' && !pipeline && (
+                  <Box sx={{ mb: 2 }}>
+                    <LinearProgress variant="determinate" value={highlights.progress.percent} />
+                    <Typography variant="caption" color="text.secondary">
+                      Rendering part {highlights.progress.step} of {highlights.progress.steps} ({highlights.progress.percent}%)
+                    </Typography>
+                  </Box>
+                )}
+                <List dense>
+                  {highlights.ranges.map((range) => (
+                    <ListItem key={range.start}>
+                      <ListItemText
+                        primary={range.label || 'Untitled'}
+                        secondary={`${apiService.formatDuration(range.start)} - ${apiService.formatDuration(range.end)}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <Button size="small" onClick={() => navigate(`/recordings/${highlights.source_id}`)}>
+                    Source Recording
+                  </Button>
+                  {highlights.match_id && (
+                    <Button size="small" onClick={() => navigate(`/matches/${highlights.match_id}`)}>
+                      Match
+                    </Button>
+                  )}
+                </Box>
+              </CardContent>
+            </Card>
+          )}
+
+          {matchOnly && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Match Only
+                </Typography>
+                <List dense>
+                  {matchOnly.segments.map((segment, index) => (
+                    <ListItem key={segment.title}>
+                      <ListItemText
+                        primary={segment.title}
+                        secondary={[
+                          chapters[index] ? `${apiService.formatDuration(Math.round(chapters[index].start))} in this video` : null,
+                          `${apiService.formatDuration(Math.round(segment.start))} - ${apiService.formatDuration(Math.round(segment.end))} of the source`,
+                        ].filter(Boolean).join(', ')}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <Button size="small" onClick={() => navigate(`/recordings/${matchOnly.source_id}`)}>
+                    Source Recording
+                  </Button>
+                  {matchOnly.match_id && (
+                    <Button size="small" onClick={() => navigate(`/matches/${matchOnly.match_id}`)}>
+                      Match
+                    </Button>
+                  )}
+                </Box>
+              </CardContent>
+            </Card>
+          )}
+
+          {pipeline && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Post-processing
+                </Typography>
+                <PipelineStepper recordingId={recordingData.id} pipeline={pipeline} onRetried={() => refetch()} />
+              </CardContent>
+            </Card>
+          )}
+
+          {recordingAttempts.length > 0 && (
+            <Card sx={{ mt: 2 }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <Typography variant="h6">
+                    Attempts
+                  </Typography>
+                  {attempts?.retryPending && (
+                    <Button
+                      size="small"
+                      onClick={() => cancelRetryMutation.mutate()}
+                      disabled={cancelRetryMutation.isPending}
+                    >
+                      Cancel Retry
+                    </Button>
+                  )}
+                </Box>
+                <List>
+                  {recordingAttempts.map((attempt) => (
+                    <ListItem key={attempt.id}>
+                      <ListItemText
+                        primary={`Attempt ${attempt.attempt}${attempt.failed_at ? ' failed' : ''}`}
+                        secondary={[
+                          `Started ${new Date(attempt.started_at).toLocaleString()}`,
+                          attempt.failed_at && `failed ${new Date(attempt.failed_at).toLocaleString()}: ${attempt.error_message}`,
+                          attempt.retry_at && `retry scheduled for ${new Date(attempt.retry_at).toLocaleString()}`,
+                        ].filter(Boolean).join(' - ')}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Storage Information */}
           {recordingData.s3_url && (
             <Card sx={{ mt: 2 }}>
@@ -422,6 +939,27 @@ const RecordingDetail: React.FC = () => {
                       secondary="Available in cloud storage"
                     />
                   </ListItem>
+                  {checksum && (
+                    <ListItem>
+                      <ListItemText
+                        primary="SHA-256"
+                        secondary={checksum.files ? `${checksum.value} (${Object.keys(checksum.files).length} files)` : checksum.value}
+                        slotProps={{ secondary: { sx: { fontFamily: 'monospace', wordBreak: 'break-all' } } }}
+                      />
+                    </ListItem>
+                  )}
+                  {integrity && (
+                    <ListItem>
+                      <ListItemText
+                        primary={integrity.status === 'verified' ? 'Integrity verified' : 'Integrity check failed'}
+                        secondary={[
+                          `${integrity.deep ? 'Content re-hashed' : 'Checked by ETag'} ${new Date(integrity.verifiedAt).toLocaleString()}`,
+                          ...integrity.problems,
+                        ].join(' - ')}
+                        slotProps={{ secondary: { color: integrity.status === 'corrupted' ? 'error' : 'text.secondary' } }}
+                      />
+                    </ListItem>
+                  )}
                 </List>
               </CardContent>
             </Card>
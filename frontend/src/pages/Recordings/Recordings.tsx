@@ -67,9 +67,10 @@ const Recordings: React.FC = () => {
   // Mutations
   const startRecordingMutation = useMutation({
     mutationFn: (id: string) => apiService.startRecording(id),
-    onSuccess: () => {
-      showNotification('Recording started successfully', 'success');
+    onSuccess: (response) => {
+      showNotification(response.data?.queued ? 'Recording queued until a slot is free' : 'Recording started successfully', 'success');
       queryClient.invalidateQueries({ queryKey: ['recordings'] });
+      queryClient.invalidateQueries({ queryKey: ['recordingQueue'] });
       queryClient.invalidateQueries({ queryKey: ['activeRecordings'] });
     },
     onError: () => {
@@ -79,8 +80,9 @@ const Recordings: React.FC = () => {
 
   const stopRecordingMutation = useMutation({
     mutationFn: (id: string) => apiService.stopRecording(id),
-    onSuccess: () => {
-      showNotification('Recording stopped successfully', 'success');
+    onSuccess: (response) => {
+      showNotification(response.data?.message || 'Recording stopped', 'success');
+      queryClient.invalidateQueries({ queryKey: ['recordingQueue'] });
       queryClient.invalidateQueries({ queryKey: ['recordings'] });
       queryClient.invalidateQueries({ queryKey: ['activeRecordings'] });
     },
@@ -150,6 +152,12 @@ const Recordings: React.FC = () => {
         return 'success';
       case 'pending':
         return 'warning';
+      case 'queued':
+        return 'info';
+      case 'paused':
+        return 'secondary';
+      case 'processing':
+        return 'info';
       case 'failed':
         return 'error';
       default:
@@ -234,7 +242,10 @@ const Recordings: React.FC = () => {
               >
                 <MenuItem value="all">All</MenuItem>
                 <MenuItem value="pending">Pending</MenuItem>
+                <MenuItem value="queued">Queued</MenuItem>
                 <MenuItem value="recording">Recording</MenuItem>
+                <MenuItem value="paused">Paused</MenuItem>
+                <MenuItem value="processing">Processing</MenuItem>
                 <MenuItem value="completed">Completed</MenuItem>
                 <MenuItem value="failed">Failed</MenuItem>
               </Select>
@@ -347,12 +358,18 @@ const Recordings: React.FC = () => {
             Start Recording
           </MenuItem>
         )}
-        {selectedRecording?.status === 'recording' && (
+        {(selectedRecording?.status === 'recording' || selectedRecording?.status === 'paused') && (
           <MenuItem onClick={() => handleStopRecording(selectedRecording.id)}>
             <StopIcon sx={{ mr: 1 }} />
             Stop Recording
           </MenuItem>
         )}
+        {selectedRecording?.status === 'queued' && (
+          <MenuItem onClick={() => handleStopRecording(selectedRecording.id)}>
+            <StopIcon sx={{ mr: 1 }} />
+            Remove from Queue
+          </MenuItem>
+        )}
         {selectedRecording?.status === 'completed' && selectedRecording?.s3_url && (
           <MenuItem onClick={() => handleDownload(selectedRecording.id)}>
             <DownloadIcon sx={{ mr: 1 }} />
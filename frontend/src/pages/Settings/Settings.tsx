@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -56,6 +56,8 @@ import {
 } from '@mui/icons-material';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNotification } from '../../contexts/NotificationContext';
+import apiService from '../../services/api';
+import { EncodingProfile, EncodingProfileFormData } from '../../types';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -82,6 +84,7 @@ interface SettingsData {
     defaultQuality: string;
     defaultFormat: string;
     autoStart: boolean;
+    detectHighlights: boolean;
     maxDuration: number;
     storageLocation: string;
   };
@@ -100,11 +103,16 @@ interface SettingsData {
     localPath: string;
     autoCleanup: boolean;
     retentionDays: number;
+    diskReserveMb: number;
+    integrityCheckHours: number;
   };
   streaming: {
     bufferSize: number;
     timeout: number;
     retryAttempts: number;
+    retryBackoff: number;
+    retryMaxBackoff: number;
+    stallTimeout: number;
     userAgent: string;
   };
   system: {
@@ -115,51 +123,122 @@ interface SettingsData {
   };
 }
 
+// Settings stored by the backend, mapped to their place in SettingsData;
+// everything else on this page is still local only
+const persistedSettings: Array<{ key: string; category: keyof SettingsData; field: string }> = [
+  { key: 'default_user_agent', category: 'streaming', field: 'userAgent' },
+  { key: 'highlight_detection_enabled', category: 'recording', field: 'detectHighlights' },
+  { key: 'max_concurrent_recordings', category: 'system', field: 'maxConcurrentRecordings' },
+  { key: 'disk_reserve_mb', category: 'storage', field: 'diskReserveMb' },
+  { key: 'integrity_check_interval_hours', category: 'storage', field: 'integrityCheckHours' },
+  { key: 'stall_timeout_seconds', category: 'streaming', field: 'stallTimeout' },
+  { key: 'retry_max_attempts', category: 'streaming', field: 'retryAttempts' },
+  { key: 'retry_backoff_seconds', category: 'streaming', field: 'retryBackoff' },
+  { key: 'retry_max_backoff_seconds', category: 'streaming', field: 'retryMaxBackoff' },
+];
+
+const toStoredValues = (settings: SettingsData) => {
+  const values: Record<string, string | number | boolean> = {};
+  persistedSettings.forEach(({ key, category, field }) => {
+    values[key] = (settings[category] as Record<string, any>)[field];
+  });
+  return values;
+};
+
+// Persisted fields match the values the backend seeds its settings table with
+const defaultSettings: SettingsData = {
+  recording: {
+    defaultQuality: 'best',
+    defaultFormat: 'mp4',
+    autoStart: false,
+    detectHighlights: true,
+    maxDuration: 7200, // 2 hours in seconds
+    storageLocation: '/recordings',
+  },
+  notifications: {
+    emailEnabled: true,
+    pushEnabled: false,
+    recordingStart: true,
+    recordingComplete: true,
+    recordingFailed: true,
+    scheduleReminders: true,
+  },
+  storage: {
+    s3Enabled: false,
+    s3Bucket: '',
+    s3Region: 'us-east-1',
+    localPath: '/var/recordings',
+    autoCleanup: false,
+    retentionDays: 30,
+    diskReserveMb: 2048,
+    integrityCheckHours: 168,
+  },
+  streaming: {
+    bufferSize: 8192,
+    timeout: 30,
+    retryAttempts: 3,
+    retryBackoff: 30,
+    retryMaxBackoff: 600,
+    stallTimeout: 60,
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  },
+  system: {
+    logLevel: 'info',
+    maxConcurrentRecordings: 3,
+    apiTimeout: 30,
+    debugMode: false,
+  },
+};
+
+const emptyProfile: EncodingProfileFormData = {
+  name: '',
+  description: '',
+  video_codec: 'libx264',
+  resolution: '1280x720',
+  video_bitrate: '3000k',
+  preset: 'veryfast',
+  audio_bitrate: '128k',
+};
+
 const Settings: React.FC = () => {
   const { showNotification } = useNotification();
   const queryClient = useQueryClient();
   
   // State
   const [selectedTab, setSelectedTab] = useState(0);
-  const [settings, setSettings] = useState<SettingsData>({
-    recording: {
-      defaultQuality: 'best',
-      defaultFormat: 'mp4',
-      autoStart: false,
-      maxDuration: 7200, // 2 hours in seconds
-      storageLocation: '/recordings',
-    },
-    notifications: {
-      emailEnabled: true,
-      pushEnabled: false,
-      recordingStart: true,
-      recordingComplete: true,
-      recordingFailed: true,
-      scheduleReminders: true,
-    },
-    storage: {
-      s3Enabled: false,
-      s3Bucket: '',
-      s3Region: 'us-east-1',
-      localPath: '/var/recordings',
-      autoCleanup: false,
-      retentionDays: 30,
-    },
-    streaming: {
-      bufferSize: 8192,
-      timeout: 30,
-      retryAttempts: 3,
-      userAgent: 'StreamRecorder/1.0',
-    },
-    system: {
-      logLevel: 'info',
-      maxConcurrentRecordings: 5,
-      apiTimeout: 30,
-      debugMode: false,
-    },
-  });
+  const [settings, setSettings] = useState<SettingsData>(defaultSettings);
   const [hasChanges, setHasChanges] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<EncodingProfile | null>(null);
+  const [profileForm, setProfileForm] = useState<EncodingProfileFormData>(emptyProfile);
+
+  const { data: profiles } = useQuery({
+    queryKey: ['encodingProfiles'],
+    queryFn: () => apiService.getEncodingProfiles(),
+  });
+
+  const { data: storedSettings } = useQuery({
+    queryKey: ['settings'],
+    queryFn: () => apiService.getSettings(),
+  });
+
+  useEffect(() => {
+    if (!storedSettings?.data) return;
+    setSettings(prev => {
+      const next = { ...prev };
+      persistedSettings.forEach(({ key, category, field }) => {
+        const stored = storedSettings.data!.find(setting => setting.key === key);
+        if (!stored) return;
+        const current = (prev[category] as Record<string, any>)[field];
+        const value = typeof current === 'number' ? Number(stored.value)
+          : typeof current === 'boolean' ? stored.value === 'true'
+          : stored.value;
+        next[category] = { ...next[category], [field]: value } as any;
+      });
+      return next;
+    });
+  }, [storedSettings]);
 
   // Simulated API calls (replace with actual API calls)
   const { data: systemInfo } = useQuery({
@@ -170,18 +249,23 @@ const Settings: React.FC = () => {
       totalRecordings: 156,
       totalSize: '45.2 GB',
       activeRecordings: 2,
-      diskSpace: '78% used',
     }),
   });
 
+  const { data: diskSpace } = useQuery({
+    queryKey: ['diskSpace'],
+    queryFn: () => apiService.getDiskSpace(),
+    refetchInterval: 60000,
+  });
+
   // Mutations
   const saveSettingsMutation = useMutation({
     mutationFn: async (newSettings: SettingsData) => {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiService.updateSettings(toStoredValues(newSettings));
       return newSettings;
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
       showNotification('Settings saved successfully', 'success');
       setHasChanges(false);
     },
@@ -191,59 +275,45 @@ const Settings: React.FC = () => {
   });
 
   const resetSettingsMutation = useMutation({
-    mutationFn: async () => {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return {};
-    },
+    mutationFn: () => apiService.updateSettings(toStoredValues(defaultSettings)),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
       showNotification('Settings reset to defaults', 'success');
       setHasChanges(false);
       setResetDialogOpen(false);
-      // Reset to default values
-      setSettings({
-        recording: {
-          defaultQuality: 'best',
-          defaultFormat: 'mp4',
-          autoStart: false,
-          maxDuration: 7200,
-          storageLocation: '/recordings',
-        },
-        notifications: {
-          emailEnabled: true,
-          pushEnabled: false,
-          recordingStart: true,
-          recordingComplete: true,
-          recordingFailed: true,
-          scheduleReminders: true,
-        },
-        storage: {
-          s3Enabled: false,
-          s3Bucket: '',
-          s3Region: 'us-east-1',
-          localPath: '/var/recordings',
-          autoCleanup: false,
-          retentionDays: 30,
-        },
-        streaming: {
-          bufferSize: 8192,
-          timeout: 30,
-          retryAttempts: 3,
-          userAgent: 'StreamRecorder/1.0',
-        },
-        system: {
-          logLevel: 'info',
-          maxConcurrentRecordings: 5,
-          apiTimeout: 30,
-          debugMode: false,
-        },
-      });
+      setSettings(defaultSettings);
     },
     onError: () => {
       showNotification('Failed to reset settings', 'error');
     },
   });
 
+  const saveProfileMutation = useMutation({
+    mutationFn: (data: EncodingProfileFormData) =>
+      editingProfile
+        ? apiService.updateEncodingProfile(editingProfile.id, data)
+        : apiService.createEncodingProfile(data),
+    onSuccess: () => {
+      showNotification(`Encoding profile ${editingProfile ? 'updated' : 'created'}`, 'success');
+      queryClient.invalidateQueries({ queryKey: ['encodingProfiles'] });
+      setProfileDialogOpen(false);
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to save encoding profile', 'error');
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteEncodingProfile(id),
+    onSuccess: () => {
+      showNotification('Encoding profile deleted', 'success');
+      queryClient.invalidateQueries({ queryKey: ['encodingProfiles'] });
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to delete encoding profile', 'error');
+    },
+  });
+
   // Event handlers
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setSelectedTab(newValue);
@@ -260,6 +330,24 @@ const Settings: React.FC = () => {
     setHasChanges(true);
   };
 
+  const handleOpenProfileDialog = (profile?: EncodingProfile) => {
+    setEditingProfile(profile || null);
+    setProfileForm(profile ? {
+      name: profile.name,
+      description: profile.description || '',
+      video_codec: profile.video_codec,
+      resolution: profile.resolution || '',
+      video_bitrate: profile.video_bitrate,
+      preset: profile.preset,
+      audio_bitrate: profile.audio_bitrate,
+    } : emptyProfile);
+    setProfileDialogOpen(true);
+  };
+
+  const handleProfileFormChange = (key: keyof EncodingProfileFormData, value: string) => {
+    setProfileForm(prev => ({ ...prev, [key]: value }));
+  };
+
   const handleSave = () => {
     saveSettingsMutation.mutate(settings);
   };
@@ -321,11 +409,13 @@ const Settings: React.FC = () => {
               <Chip icon={<DatabaseIcon />} label={`Recordings: ${systemInfo.totalRecordings}`} />
               <Chip icon={<StorageIcon />} label={`Storage: ${systemInfo.totalSize}`} />
               <Chip icon={<StreamIcon />} label={`Active: ${systemInfo.activeRecordings}`} />
-              <Chip 
-                icon={<WarningIcon />} 
-                label={`Disk: ${systemInfo.diskSpace}`}
-                color={systemInfo.diskSpace.includes('78%') ? 'warning' : 'default'}
-              />
+              {diskSpace?.data && (
+                <Chip
+                  icon={<WarningIcon />}
+                  label={`Disk: ${apiService.formatFileSize(diskSpace.data.free)} free (${diskSpace.data.usedPercent}% used)`}
+                  color={diskSpace.data.low ? 'error' : diskSpace.data.usedPercent >= 90 ? 'warning' : 'default'}
+                />
+              )}
             </Box>
           </CardContent>
         </Card>
@@ -355,11 +445,12 @@ const Settings: React.FC = () => {
                   label="Default Quality"
                   onChange={(e) => handleSettingChange('recording', 'defaultQuality', e.target.value)}
                 >
-                  <MenuItem value="best">Best Available</MenuItem>
-                  <MenuItem value="1080p">1080p</MenuItem>
-                  <MenuItem value="720p">720p</MenuItem>
-                  <MenuItem value="480p">480p</MenuItem>
-                  <MenuItem value="360p">360p</MenuItem>
+                  <MenuItem value="best">Best Available (no re-encode)</MenuItem>
+                  {profiles?.data?.map((profile) => (
+                    <MenuItem key={profile.id} value={profile.name}>
+                      {profile.name}
+                    </MenuItem>
+                  ))}
                 </Select>
               </FormControl>
 
@@ -402,9 +493,70 @@ const Settings: React.FC = () => {
                 }
                 label="Auto-start recordings for scheduled matches"
               />
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.recording.detectHighlights}
+                    onChange={(e) => handleSettingChange('recording', 'detectHighlights', e.target.checked)}
+                  />
+                }
+                label="Detect candidate highlights and match boundaries (kickoff, halftime, full time) after recording"
+              />
             </Box>
           </CardContent>
         </Card>
+
+        <Card sx={{ mt: 3 }}>
+          <CardHeader
+            title="Encoding Profiles"
+            subheader="Re-encode recordings to save disk space. Best Available always copies the source stream."
+            action={
+              <Button startIcon={<AddIcon />} onClick={() => handleOpenProfileDialog()}>
+                Add Profile
+              </Button>
+            }
+          />
+          <CardContent>
+            {profiles?.data && profiles.data.length > 0 ? (
+              <List>
+                {profiles.data.map((profile) => (
+                  <ListItem key={profile.id}>
+                    <ListItemIcon>
+                      <VideoIcon />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={profile.name}
+                      secondary={[
+                        profile.video_codec,
+                        profile.resolution || 'source resolution',
+                        profile.video_bitrate,
+                        profile.preset,
+                        `audio ${profile.audio_bitrate}`,
+                      ].join(' • ')}
+                    />
+                    <ListItemSecondaryAction>
+                      <IconButton onClick={() => handleOpenProfileDialog(profile)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        color="error"
+                        onClick={() => deleteProfileMutation.mutate(profile.id)}
+                        disabled={deleteProfileMutation.isPending}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </ListItemSecondaryAction>
+                  </ListItem>
+                ))}
+              </List>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                No encoding profiles defined. Recordings will copy the source stream.
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
       </TabPanel>
 
       {/* Notification Settings */}
@@ -535,6 +687,14 @@ const Settings: React.FC = () => {
                         helperText="Recordings older than this will be automatically deleted"
                       />
                     )}
+                    <TextField
+                      label="Disk Space Reserve (MB)"
+                      type="number"
+                      value={settings.storage.diskReserveMb}
+                      onChange={(e) => handleSettingChange('storage', 'diskReserveMb', parseInt(e.target.value))}
+                      helperText="New recordings are refused below this much free space; running ones are stopped, manual tests first"
+                      inputProps={{ min: 0 }}
+                    />
                   </Box>
                 </AccordionDetails>
               </Accordion>
@@ -579,6 +739,14 @@ const Settings: React.FC = () => {
                         </FormControl>
                       </>
                     )}
+                    <TextField
+                      label="Integrity Check Interval (hours)"
+                      type="number"
+                      value={settings.storage.integrityCheckHours}
+                      onChange={(e) => handleSettingChange('storage', 'integrityCheckHours', parseInt(e.target.value))}
+                      helperText="Stored recordings are downloaded and checked against their SHA-256 this often; a few are checked each hour"
+                      inputProps={{ min: 1 }}
+                    />
                   </Box>
                 </AccordionDetails>
               </Accordion>
@@ -616,7 +784,38 @@ const Settings: React.FC = () => {
                 type="number"
                 value={settings.streaming.retryAttempts}
                 onChange={(e) => handleSettingChange('streaming', 'retryAttempts', parseInt(e.target.value))}
-                helperText="Number of retry attempts for failed streams"
+                helperText="Attempts a failed recording gets in total, counting the first; 1 disables automatic retries"
+                inputProps={{ min: 1 }}
+                fullWidth
+              />
+
+              <TextField
+                label="Retry Backoff (seconds)"
+                type="number"
+                value={settings.streaming.retryBackoff}
+                onChange={(e) => handleSettingChange('streaming', 'retryBackoff', parseInt(e.target.value))}
+                helperText="Delay before the first retry, doubled after every further failure; retries never start after a schedule's end"
+                inputProps={{ min: 0 }}
+                fullWidth
+              />
+
+              <TextField
+                label="Maximum Retry Backoff (seconds)"
+                type="number"
+                value={settings.streaming.retryMaxBackoff}
+                onChange={(e) => handleSettingChange('streaming', 'retryMaxBackoff', parseInt(e.target.value))}
+                helperText="Longest delay between two retries"
+                inputProps={{ min: 0 }}
+                fullWidth
+              />
+
+              <TextField
+                label="Stall Timeout (seconds)"
+                type="number"
+                value={settings.streaming.stallTimeout}
+                onChange={(e) => handleSettingChange('streaming', 'stallTimeout', parseInt(e.target.value))}
+                helperText="A capture whose output stops growing this long is restarted into a new part"
+                inputProps={{ min: 1 }}
                 fullWidth
               />
 
@@ -624,7 +823,7 @@ const Settings: React.FC = () => {
                 label="User Agent"
                 value={settings.streaming.userAgent}
                 onChange={(e) => handleSettingChange('streaming', 'userAgent', e.target.value)}
-                helperText="User agent string for stream requests"
+                helperText="Default user agent for stream requests; request profiles can override it"
                 fullWidth
               />
             </Box>
@@ -657,7 +856,8 @@ const Settings: React.FC = () => {
                 type="number"
                 value={settings.system.maxConcurrentRecordings}
                 onChange={(e) => handleSettingChange('system', 'maxConcurrentRecordings', parseInt(e.target.value))}
-                helperText="Maximum number of simultaneous recordings"
+                helperText="Further starts wait in the queue, scheduled matches first"
+                inputProps={{ min: 1 }}
                 fullWidth
               />
 
@@ -684,6 +884,90 @@ const Settings: React.FC = () => {
         </Card>
       </TabPanel>
 
+      {/* Encoding Profile Dialog */}
+      <Dialog open={profileDialogOpen} onClose={() => setProfileDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingProfile ? 'Edit Encoding Profile' : 'New Encoding Profile'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={profileForm.name}
+              onChange={(e) => handleProfileFormChange('name', e.target.value)}
+              helperText="Used as the recording quality value"
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={profileForm.description}
+              onChange={(e) => handleProfileFormChange('description', e.target.value)}
+              fullWidth
+            />
+            <FormControl fullWidth>
+              <InputLabel>Video Codec</InputLabel>
+              <Select
+                value={profileForm.video_codec}
+                label="Video Codec"
+                onChange={(e) => handleProfileFormChange('video_codec', e.target.value)}
+              >
+                <MenuItem value="libx264">H.264 (libx264)</MenuItem>
+                <MenuItem value="libx265">H.265 (libx265)</MenuItem>
+                <MenuItem value="copy">Copy (no re-encode)</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Resolution"
+              value={profileForm.resolution}
+              onChange={(e) => handleProfileFormChange('resolution', e.target.value)}
+              helperText="Maximum WIDTHxHEIGHT, e.g. 1280x720. Leave empty to keep the source size."
+              fullWidth
+            />
+            <TextField
+              label="Video Bitrate"
+              value={profileForm.video_bitrate}
+              onChange={(e) => handleProfileFormChange('video_bitrate', e.target.value)}
+              helperText="e.g. 3000k"
+              fullWidth
+            />
+            <FormControl fullWidth>
+              <InputLabel>Preset</InputLabel>
+              <Select
+                value={profileForm.preset}
+                label="Preset"
+                onChange={(e) => handleProfileFormChange('preset', e.target.value)}
+              >
+                <MenuItem value="ultrafast">ultrafast</MenuItem>
+                <MenuItem value="superfast">superfast</MenuItem>
+                <MenuItem value="veryfast">veryfast</MenuItem>
+                <MenuItem value="faster">faster</MenuItem>
+                <MenuItem value="fast">fast</MenuItem>
+                <MenuItem value="medium">medium</MenuItem>
+                <MenuItem value="slow">slow</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Audio Bitrate"
+              value={profileForm.audio_bitrate}
+              onChange={(e) => handleProfileFormChange('audio_bitrate', e.target.value)}
+              helperText="e.g. 128k"
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProfileDialogOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveProfileMutation.mutate({
+              ...profileForm,
+              resolution: profileForm.resolution || undefined,
+            })}
+            variant="contained"
+            disabled={!profileForm.name.trim() || saveProfileMutation.isPending}
+          >
+            Save Profile
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Reset Confirmation Dialog */}
       <Dialog open={resetDialogOpen} onClose={() => setResetDialogOpen(false)}>
         <DialogTitle>Reset Settings</DialogTitle>
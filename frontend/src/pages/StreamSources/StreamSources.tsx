@@ -37,6 +37,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { useNotification } from '../../contexts/NotificationContext';
 import apiService from '../../services/api';
+import { RequestProfile, StreamResolver } from '../../types';
+import RequestProfileFields from '../../components/RequestProfile/RequestProfileFields';
 
 interface StreamSource {
   id: string;
@@ -56,8 +58,17 @@ interface Stream {
   teams?: string[];
   channel?: string;
   thumbnail?: string;
+  resolver?: StreamResolver | null;
 }
 
+// How the backend turns a listed URL into something FFmpeg can capture
+const resolverLabels: Record<StreamResolver, string> = {
+  youtube: 'YouTube (yt-dlp)',
+  dash: 'DASH manifest',
+  direct: 'Direct media',
+  page: 'Web page',
+};
+
 const StreamSources: React.FC = () => {
   const navigate = useNavigate();
   const { showNotification } = useNotification();
@@ -70,6 +81,14 @@ const StreamSources: React.FC = () => {
   const [recordingTitle, setRecordingTitle] = useState('');
   const [recordingDescription, setRecordingDescription] = useState('');
   const [recordingQuality, setRecordingQuality] = useState('best');
+  const [probeError, setProbeError] = useState<string | null>(null);
+  const [profileSourceId, setProfileSourceId] = useState<string | null>(null);
+  const [requestProfile, setRequestProfile] = useState<RequestProfile | null>(null);
+
+  const { data: profiles } = useQuery({
+    queryKey: ['encodingProfiles'],
+    queryFn: () => apiService.getEncodingProfiles(),
+  });
 
   // Fetch stream sources
   const { data: sources, isLoading: sourcesLoading } = useQuery({
@@ -122,6 +141,43 @@ const StreamSources: React.FC = () => {
     },
   });
 
+  // Check the stream is reachable before saving; a failed check can still be overridden
+  const probeMutation = useMutation({
+    mutationFn: (recordingData: any) => apiService.probeStream({
+      stream_url: recordingData.stream_url,
+      source_id: recordingData.source_id,
+    }),
+    onSuccess: (_response, recordingData) => {
+      createRecordingMutation.mutate(recordingData);
+    },
+    onError: (error: any) => {
+      setProbeError(error.response?.data?.details || 'Stream could not be reached');
+    },
+  });
+
+  const saveRequestProfileMutation = useMutation({
+    mutationFn: ({ sourceId, profile }: { sourceId: string; profile: RequestProfile }) =>
+      apiService.updateStreamSourceRequestProfile(sourceId, profile),
+    onSuccess: () => {
+      showNotification('Request profile saved', 'success');
+      setProfileSourceId(null);
+    },
+    onError: (error: any) => {
+      showNotification(error.response?.data?.details || 'Failed to save request profile', 'error');
+    },
+  });
+
+  const handleOpenRequestProfile = async (sourceId: string) => {
+    setRequestProfile(null);
+    setProfileSourceId(sourceId);
+    try {
+      setRequestProfile(await apiService.getStreamSourceRequestProfile(sourceId));
+    } catch (error) {
+      showNotification(`Failed to load request profile for ${sourceId}`, 'error');
+      setProfileSourceId(null);
+    }
+  };
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setSelectedTab(newValue);
   };
@@ -134,21 +190,29 @@ const StreamSources: React.FC = () => {
     setSelectedStream(stream);
     setRecordingTitle(stream.title);
     setRecordingDescription(`Recording from ${stream.source}: ${stream.title}`);
+    setProbeError(null);
     setRecordDialogOpen(true);
   };
 
-  const handleCreateRecording = () => {
-    if (!selectedStream) return;
+  const buildRecordingData = () => {
+    if (!selectedStream) return null;
 
-    const recordingData = {
+    return {
       title: recordingTitle,
       description: recordingDescription,
       stream_url: selectedStream.url,
       quality: recordingQuality,
       format: 'mp4',
+      source_id: selectedStream.source,
     };
+  };
 
-    createRecordingMutation.mutate(recordingData);
+  const handleCreateRecording = () => {
+    const recordingData = buildRecordingData();
+    if (!recordingData) return;
+
+    setProbeError(null);
+    probeMutation.mutate(recordingData);
   };
 
   const getSourceIcon = (sourceId: string) => {
@@ -274,6 +338,13 @@ const StreamSources: React.FC = () => {
                         View Streams
                       </Button>
                     </Box>
+                    <Button
+                      size="small"
+                      sx={{ mt: 1 }}
+                      onClick={() => handleOpenRequestProfile(source.id)}
+                    >
+                      Request Profile
+                    </Button>
                   </CardContent>
                 </Card>
               </Box>
@@ -344,6 +415,14 @@ const StreamSources: React.FC = () => {
               size="small"
               sx={{ ml: 2 }}
             />
+            {stream.resolver && (
+              <Chip
+                label={resolverLabels[stream.resolver]}
+                variant="outlined"
+                size="small"
+                sx={{ ml: 1 }}
+              />
+            )}
           </Box>
           
           {stream.competition && (
@@ -429,29 +508,80 @@ const StreamSources: React.FC = () => {
                 label="Quality"
                 onChange={(e) => setRecordingQuality(e.target.value)}
               >
-                <MenuItem value="best">Best Available</MenuItem>
-                <MenuItem value="1080p">1080p</MenuItem>
-                <MenuItem value="720p">720p</MenuItem>
-                <MenuItem value="480p">480p</MenuItem>
-                <MenuItem value="auto">Auto</MenuItem>
+                <MenuItem value="best">Best Available (no re-encode)</MenuItem>
+                {profiles?.data?.map((profile) => (
+                  <MenuItem key={profile.id} value={profile.name}>
+                    {profile.name}
+                  </MenuItem>
+                ))}
               </Select>
             </FormControl>
             
             {selectedStream && (
               <Alert severity="info" sx={{ mt: 2 }}>
                 Stream URL: {selectedStream.url}
+                {selectedStream.resolver && selectedStream.resolver !== 'direct' && (
+                  <Box component="span" sx={{ display: 'block' }}>
+                    Resolved via {resolverLabels[selectedStream.resolver]} each time capture starts
+                  </Box>
+                )}
+              </Alert>
+            )}
+
+            {probeError && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                Stream check failed: {probeError}
               </Alert>
             )}
           </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setRecordDialogOpen(false)}>Cancel</Button>
+          {probeError && (
+            <Button
+              color="warning"
+              onClick={() => {
+                const recordingData = buildRecordingData();
+                if (recordingData) createRecordingMutation.mutate(recordingData);
+              }}
+              disabled={createRecordingMutation.isPending}
+            >
+              Create Anyway
+            </Button>
+          )}
           <Button
             onClick={handleCreateRecording}
             variant="contained"
-            disabled={!recordingTitle.trim() || createRecordingMutation.isPending}
+            disabled={!recordingTitle.trim() || probeMutation.isPending || createRecordingMutation.isPending}
+          >
+            {probeMutation.isPending ? 'Checking stream...' : 'Create Recording'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Source Request Profile Dialog */}
+      <Dialog open={!!profileSourceId} onClose={() => setProfileSourceId(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Request Profile: {profileSourceId}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 1 }}>
+            {requestProfile ? (
+              <RequestProfileFields value={requestProfile} onChange={setRequestProfile} />
+            ) : (
+              <LinearProgress />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProfileSourceId(null)}>Cancel</Button>
+          <Button
+            onClick={() => profileSourceId && requestProfile && saveRequestProfileMutation.mutate({
+              sourceId: profileSourceId,
+              profile: requestProfile,
+            })}
+            variant="contained"
+            disabled={!requestProfile || saveRequestProfileMutation.isPending}
           >
-            Create Recording
+            Save Profile
           </Button>
         </DialogActions>
       </Dialog>
@@ -1,20 +1,259 @@
-import React from 'react';
-import { Box, Typography } from '@mui/material';
-import { useParams } from 'react-router-dom';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert, Box, Button, Card, CardContent, Chip, LinearProgress, List, ListItemButton, ListItemText, Typography,
+} from '@mui/material';
+import { ArrowBack as BackIcon, ContentCut as ClipIcon, Movie as HighlightsIcon } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import ReactPlayer from 'react-player';
+import apiService from '../../services/api';
+import { SubtitleTrack } from '../../types';
+import CreateClipDialog from '../../components/Clips/CreateClipDialog';
+import CreateHighlightsDialog from '../../components/Highlights/CreateHighlightsDialog';
+import ScrubBar from '../../components/Player/ScrubBar';
+
+interface LoadedTrack extends SubtitleTrack {
+  src: string; // blob URL of the WebVTT text
+}
 
 const VideoPlayer: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [tracks, setTracks] = useState<LoadedTrack[]>([]);
+  const [clipDialogOpen, setClipDialogOpen] = useState(false);
+  const [highlightsDialogOpen, setHighlightsDialogOpen] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const playerRef = useRef<HTMLVideoElement>(null);
+
+  const { data: stream, isPending, error } = useQuery({
+    queryKey: ['videoStream', id],
+    queryFn: () => apiService.streamVideo(id),
+    enabled: !!id,
+  });
+
+  const { data: subtitles } = useQuery({
+    queryKey: ['videoSubtitles', id],
+    queryFn: () => apiService.getVideoSubtitles(id),
+    enabled: !!id,
+  });
+
+  // Clips still being cut are polled until they are ready or have failed
+  const { data: clips, refetch: refetchClips } = useQuery({
+    queryKey: ['videoClips', id],
+    queryFn: () => apiService.getClips(id),
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.data?.some((clip) => clip.status === 'processing') ? 5000 : false),
+  });
+
+  const { data: highlights, refetch: refetchHighlights } = useQuery({
+    queryKey: ['videoHighlights', id],
+    queryFn: () => apiService.getHighlights(id),
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.data?.some((reel) => reel.status === 'processing') ? 5000 : false),
+  });
+
+  const getPosition = useCallback(() => {
+    const position = playerRef.current?.currentTime;
+    return position !== undefined && !Number.isNaN(position) ? position : null;
+  }, []);
+
+  const handleSeek = useCallback((seconds: number) => {
+    if (playerRef.current) playerRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+  }, []);
+
+  // Tracks are handed to the player as blob URLs; a <track> from another origin would only
+  // load with CORS enabled on the video as well
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+
+    Promise.all((subtitles?.data || []).map(async (track) => {
+      const text = await apiService.getSubtitleFile(id, track.id);
+      const src = URL.createObjectURL(new Blob([text], { type: 'text/vtt' }));
+      urls.push(src);
+      return { ...track, src };
+    }))
+      .then((loaded) => {
+        if (!cancelled) setTracks(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setTracks([]);
+      });
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [id, subtitles]);
 
   return (
     <Box>
-      <Typography variant="h4" component="h1" gutterBottom>
-        Video Player
-      </Typography>
-      <Typography variant="body1">
-        Video ID: {id} - Coming soon!
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
+        <Button startIcon={<BackIcon />} onClick={() => navigate('/videos')} sx={{ mr: 2 }}>
+          Back
+        </Button>
+        <Typography variant="h4" component="h1" sx={{ flex: 1 }}>
+          {stream?.data?.title || 'Video Player'}
+        </Typography>
+        {stream?.data && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button variant="outlined" startIcon={<HighlightsIcon />} onClick={() => setHighlightsDialogOpen(true)}>
+              Highlights
+            </Button>
+            <Button variant="outlined" startIcon={<ClipIcon />} onClick={() => setClipDialogOpen(true)}>
+              Create Clip
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      {isPending && <LinearProgress />}
+
+      {error && (
+        <Alert severity="error">
+          Failed to load video
+        </Alert>
+      )}
+
+      {stream?.data && (
+        <Card>
+          <Box sx={{ bgcolor: '#000', aspectRatio: '16 / 9' }}>
+            <ReactPlayer
+              ref={playerRef}
+              src={stream.data.streamUrl}
+              controls
+              width="100%"
+              height="100%"
+              onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+            >
+              {tracks.map((track) => (
+                <track
+                  key={track.id}
+                  kind={track.kind}
+                  src={track.src}
+                  srcLang={track.language || undefined}
+                  label={track.label}
+                />
+              ))}
+            </ReactPlayer>
+          </Box>
+          {stream.data.duration ? (
+            <ScrubBar videoId={id} duration={stream.data.duration} currentTime={currentTime} onSeek={handleSeek} />
+          ) : null}
+          <CardContent>
+            {(stream.data.chapters || []).length > 0 && (
+              <>
+                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                  Chapters
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                  {stream.data.chapters!.map((chapter) => (
+                    <Chip
+                      key={chapter.title}
+                      size="small"
+                      label={`${chapter.title} • ${apiService.formatDuration(Math.round(chapter.start))}`}
+                      color={currentTime >= chapter.start && currentTime < chapter.end ? 'primary' : 'default'}
+                      onClick={() => handleSeek(chapter.start)}
+                    />
+                  ))}
+                </Box>
+              </>
+            )}
+
+            <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+              Subtitles
+            </Typography>
+            {tracks.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No subtitle or caption tracks
+              </Typography>
+            ) : (
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {tracks.map((track) => (
+                  <Chip
+                    key={track.id}
+                    size="small"
+                    variant="outlined"
+                    label={`${track.label} • ${track.cues} cues`}
+                  />
+                ))}
+              </Box>
+            )}
+
+            {(clips?.data || []).length > 0 && (
+              <>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mt: 2 }}>
+                  Clips
+                </Typography>
+                <List dense>
+                  {clips!.data!.map((clip) => (
+                    <ListItemButton
+                      key={clip.id}
+                      disabled={clip.status !== 'completed'}
+                      onClick={() => navigate(`/videos/${clip.id}/player`)}
+                    >
+                      <ListItemText
+                        primary={clip.title}
+                        secondary={clip.status === 'completed'
+                          ? apiService.formatDuration(clip.duration)
+                          : clip.status === 'failed' ? clip.error_message : 'Cutting...'}
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              </>
+            )}
+
+            {(highlights?.data || []).length > 0 && (
+              <>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mt: 2 }}>
+                  Highlights
+                </Typography>
+                <List dense>
+                  {highlights!.data!.map((reel) => (
+                    <ListItemButton
+                      key={reel.id}
+                      disabled={reel.status !== 'completed'}
+                      onClick={() => navigate(`/videos/${reel.id}/player`)}
+                    >
+                      <ListItemText
+                        primary={reel.title}
+                        secondary={reel.status === 'completed'
+                          ? apiService.formatDuration(reel.duration)
+                          : reel.status === 'failed'
+                            ? reel.error_message
+                            : reel.metadata?.pipeline
+                              ? 'Post-processing...'
+                              : `Rendering ${reel.metadata?.highlights?.progress?.percent ?? 0}%`}
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <CreateClipDialog
+        open={clipDialogOpen}
+        videoId={id}
+        duration={stream?.data?.duration}
+        getPosition={getPosition}
+        onClose={() => setClipDialogOpen(false)}
+        onCreated={() => refetchClips()}
+      />
+
+      <CreateHighlightsDialog
+        open={highlightsDialogOpen}
+        videoId={id}
+        clips={clips?.data || []}
+        onClose={() => setHighlightsDialogOpen(false)}
+        onCreated={() => refetchHighlights()}
+      />
     </Box>
   );
 };
 
-export default VideoPlayer;
\ No newline at end of file
+export default VideoPlayer;
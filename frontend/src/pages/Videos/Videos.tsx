@@ -47,6 +47,8 @@ import {
   HighQuality as QualityIcon,
   AccessTime as DurationIcon,
   CalendarToday as DateIcon,
+  ContentCut as ClipIcon,
+  Movie as HighlightsIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -191,7 +193,7 @@ const Videos: React.FC = () => {
   };
 
   const getVideoThumbnail = (video: Recording) => {
-    // Generate a placeholder thumbnail based on video title
+    // Background colour behind the poster frame, and the placeholder for videos without one
     const colors = ['#1976d2', '#388e3c', '#f57c00', '#d32f2f', '#7b1fa2', '#0288d1'];
     const colorIndex = video.id.charCodeAt(0) % colors.length;
     return colors[colorIndex];
@@ -320,6 +322,7 @@ const Videos: React.FC = () => {
                 <Card key={video.id} sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
                   <Box sx={{ position: 'relative' }}>
                     <CardMedia
+                      image={video.thumbnail_url || undefined}
                       sx={{ 
                         height: 200, 
                         bgcolor: getVideoThumbnail(video),
@@ -381,6 +384,36 @@ const Videos: React.FC = () => {
                     )}
                     
                     <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                      {video.metadata?.clip && (
+                        <Chip
+                          icon={<ClipIcon sx={{ fontSize: 14 }} />}
+                          label="Clip"
+                          size="small"
+                          color="secondary"
+                          variant="outlined"
+                          onClick={() => navigate(`/videos/${video.metadata!.clip.parent_id}/player`)}
+                        />
+                      )}
+                      {video.metadata?.match_only && (
+                        <Chip
+                          icon={<ClipIcon sx={{ fontSize: 14 }} />}
+                          label="Match only"
+                          size="small"
+                          color="secondary"
+                          variant="outlined"
+                          onClick={() => navigate(`/videos/${video.metadata!.match_only.source_id}/player`)}
+                        />
+                      )}
+                      {video.metadata?.highlights && (
+                        <Chip
+                          icon={<HighlightsIcon sx={{ fontSize: 14 }} />}
+                          label="Highlights"
+                          size="small"
+                          color="secondary"
+                          variant="outlined"
+                          onClick={() => navigate(`/videos/${video.metadata!.highlights.source_id}/player`)}
+                        />
+                      )}
                       <Chip
                         icon={<QualityIcon sx={{ fontSize: 14 }} />}
                         label={video.quality}
@@ -427,8 +460,10 @@ const Videos: React.FC = () => {
                 <Paper key={video.id} sx={{ p: 2 }}>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                     <Avatar
+                      variant={video.thumbnail_url ? 'rounded' : 'circular'}
+                      src={video.thumbnail_url || undefined}
                       sx={{ 
-                        width: 64, 
+                        width: video.thumbnail_url ? 114 : 64, 
                         height: 64, 
                         bgcolor: getVideoThumbnail(video),
                         cursor: 'pointer'
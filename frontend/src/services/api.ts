@@ -5,11 +5,33 @@ import {
   Schedule,
   VideoInfo,
   StreamUrl,
+  SubtitleTrack,
+  Thumbnail,
   DownloadUrl,
   ActiveRecording,
+  RecordingProgress,
+  QueuedRecording,
+  Marker,
+  MarkerCandidate,
+  MarkerFormData,
+  RecordingAnalysis,
+  CandidateReviewData,
+  Chapter,
+  MatchBoundaries,
+  MatchBoundaryTimes,
+  ClipFormData,
+  HighlightsFormData,
+  PipelineStageName,
+  RecordingAttempt,
   RecordingFormData,
   MatchFormData,
   ScheduleFormData,
+  EncodingProfile,
+  EncodingProfileFormData,
+  RequestProfile,
+  Setting,
+  DiskSpace,
+  StreamProbe,
   ApiResponse,
   PaginatedResponse,
   Stats,
@@ -74,6 +96,16 @@ class ApiService {
     return response.data;
   }
 
+  async getRecordingQueue(): Promise<ApiResponse<QueuedRecording[]>> {
+    const response = await this.api.get('/api/recordings/queue');
+    return response.data;
+  }
+
+  async getRecordingProgress(id: string): Promise<ApiResponse<RecordingProgress>> {
+    const response = await this.api.get(`/api/recordings/${id}/progress`);
+    return response.data;
+  }
+
   async getRecordingById(id: string): Promise<ApiResponse<Recording>> {
     const response = await this.api.get(`/api/recordings/${id}`);
     return response.data;
@@ -84,6 +116,11 @@ class ApiService {
     return response.data;
   }
 
+  async probeStream(data: Pick<RecordingFormData, 'stream_url' | 'source_id' | 'request_profile'>): Promise<ApiResponse<StreamProbe>> {
+    const response = await this.api.post('/api/recordings/probe', data);
+    return response.data;
+  }
+
   async startRecording(id: string): Promise<ApiResponse<any>> {
     const response = await this.api.post(`/api/recordings/${id}/start`);
     return response.data;
@@ -94,6 +131,78 @@ class ApiService {
     return response.data;
   }
 
+  async getMarkers(recordingId: string): Promise<ApiResponse<Marker[]>> {
+    const response = await this.api.get(`/api/recordings/${recordingId}/markers`);
+    return response.data;
+  }
+
+  async createMarker(recordingId: string, data: MarkerFormData): Promise<ApiResponse<Marker>> {
+    const response = await this.api.post(`/api/recordings/${recordingId}/markers`, data);
+    return response.data;
+  }
+
+  async deleteMarker(recordingId: string, markerId: string): Promise<ApiResponse<Marker>> {
+    const response = await this.api.delete(`/api/recordings/${recordingId}/markers/${markerId}`);
+    return response.data;
+  }
+
+  async getAnalysis(recordingId: string): Promise<ApiResponse<RecordingAnalysis | null>> {
+    const response = await this.api.get(`/api/recordings/${recordingId}/analysis`);
+    return response.data;
+  }
+
+  async startAnalysis(recordingId: string): Promise<ApiResponse<{ recordingId: string }>> {
+    const response = await this.api.post(`/api/recordings/${recordingId}/analysis`);
+    return response.data;
+  }
+
+  async acceptCandidate(
+    recordingId: string,
+    candidateId: string,
+    data: CandidateReviewData = {}
+  ): Promise<ApiResponse<{ candidate: MarkerCandidate; marker: Marker }>> {
+    const response = await this.api.post(`/api/recordings/${recordingId}/analysis/candidates/${candidateId}/accept`, data);
+    return response.data;
+  }
+
+  async rejectCandidate(recordingId: string, candidateId: string): Promise<ApiResponse<{ candidate: MarkerCandidate }>> {
+    const response = await this.api.post(`/api/recordings/${recordingId}/analysis/candidates/${candidateId}/reject`);
+    return response.data;
+  }
+
+  async updateBoundaries(
+    recordingId: string,
+    data: MatchBoundaryTimes
+  ): Promise<ApiResponse<{ boundaries: MatchBoundaries; chapters: Chapter[] }>> {
+    const response = await this.api.put(`/api/recordings/${recordingId}/boundaries`, data);
+    return response.data;
+  }
+
+  async pauseRecording(id: string): Promise<ApiResponse<any>> {
+    const response = await this.api.post(`/api/recordings/${id}/pause`);
+    return response.data;
+  }
+
+  async resumeRecording(id: string): Promise<ApiResponse<any>> {
+    const response = await this.api.post(`/api/recordings/${id}/resume`);
+    return response.data;
+  }
+
+  async retryRecording(id: string): Promise<ApiResponse<any>> {
+    const response = await this.api.post(`/api/recordings/${id}/retry`);
+    return response.data;
+  }
+
+  async retryPipelineStage(id: string, stage: PipelineStageName): Promise<ApiResponse<{ stage: PipelineStageName }>> {
+    const response = await this.api.post(`/api/recordings/${id}/pipeline/${stage}/retry`);
+    return response.data;
+  }
+
+  async getRecordingAttempts(id: string): Promise<ApiResponse<RecordingAttempt[]> & { retryPending?: boolean }> {
+    const response = await this.api.get(`/api/recordings/${id}/attempts`);
+    return response.data;
+  }
+
   async deleteRecording(id: string): Promise<ApiResponse<any>> {
     const response = await this.api.delete(`/api/recordings/${id}`);
     return response.data;
@@ -118,6 +227,43 @@ class ApiService {
     return response.data;
   }
 
+  // Encoding profile endpoints
+  async getEncodingProfiles(): Promise<ApiResponse<EncodingProfile[]>> {
+    const response = await this.api.get('/api/encoding-profiles');
+    return response.data;
+  }
+
+  async createEncodingProfile(data: EncodingProfileFormData): Promise<ApiResponse<EncodingProfile>> {
+    const response = await this.api.post('/api/encoding-profiles', data);
+    return response.data;
+  }
+
+  async updateEncodingProfile(id: string, data: EncodingProfileFormData): Promise<ApiResponse<EncodingProfile>> {
+    const response = await this.api.put(`/api/encoding-profiles/${id}`, data);
+    return response.data;
+  }
+
+  async deleteEncodingProfile(id: string): Promise<ApiResponse<any>> {
+    const response = await this.api.delete(`/api/encoding-profiles/${id}`);
+    return response.data;
+  }
+
+  // Settings endpoints
+  async getSettings(category?: string): Promise<ApiResponse<Setting[]>> {
+    const response = await this.api.get('/api/settings', { params: { category } });
+    return response.data;
+  }
+
+  async updateSettings(values: Record<string, string | number | boolean>): Promise<ApiResponse<Setting[]>> {
+    const response = await this.api.put('/api/settings', values);
+    return response.data;
+  }
+
+  async getDiskSpace(): Promise<ApiResponse<DiskSpace>> {
+    const response = await this.api.get('/api/settings/disk-space');
+    return response.data;
+  }
+
   // Match endpoints
   async getMatches(filters?: FilterOptions): Promise<PaginatedResponse<Match>> {
     const response = await this.api.get('/api/matches', { params: filters });
@@ -253,6 +399,47 @@ class ApiService {
     return response.data;
   }
 
+  async getVideoSubtitles(id: string): Promise<ApiResponse<SubtitleTrack[]>> {
+    const response = await this.api.get(`/api/videos/${id}/subtitles`);
+    return response.data;
+  }
+
+  // Raw WebVTT text of one track
+  async getSubtitleFile(id: string, trackId: string): Promise<string> {
+    const response = await this.api.get(`/api/videos/${id}/subtitles/${trackId}.vtt`, { responseType: 'text' });
+    return response.data;
+  }
+
+  async getClips(id: string): Promise<ApiResponse<Recording[]>> {
+    const response = await this.api.get(`/api/videos/${id}/clips`);
+    return response.data;
+  }
+
+  async createClip(id: string, data: ClipFormData): Promise<ApiResponse<Recording>> {
+    const response = await this.api.post(`/api/videos/${id}/clips`, data);
+    return response.data;
+  }
+
+  async getHighlights(id: string): Promise<ApiResponse<Recording[]>> {
+    const response = await this.api.get(`/api/videos/${id}/highlights`);
+    return response.data;
+  }
+
+  async createHighlights(id: string, data: HighlightsFormData): Promise<ApiResponse<Recording>> {
+    const response = await this.api.post(`/api/videos/${id}/highlights`, data);
+    return response.data;
+  }
+
+  async getMatchOnly(id: string): Promise<ApiResponse<Recording[]>> {
+    const response = await this.api.get(`/api/videos/${id}/match-only`);
+    return response.data;
+  }
+
+  async createMatchOnly(id: string, data: { title?: string } = {}): Promise<ApiResponse<Recording>> {
+    const response = await this.api.post(`/api/videos/${id}/match-only`, data);
+    return response.data;
+  }
+
   async downloadVideo(id: string): Promise<ApiResponse<DownloadUrl>> {
     const response = await this.api.get(`/api/videos/${id}/download`);
     return response.data;
@@ -266,13 +453,19 @@ class ApiService {
     return response.data;
   }
 
-  async getThumbnail(id: string, timestamp?: number): Promise<ApiResponse<any>> {
+  async getThumbnail(id: string, timestamp?: number): Promise<ApiResponse<Thumbnail>> {
     const response = await this.api.get(`/api/videos/${id}/thumbnail`, {
       params: { timestamp }
     });
     return response.data;
   }
 
+  // WebVTT track mapping time ranges to tiles of the scrubbing sprite
+  async getThumbnailTrack(id: string): Promise<string> {
+    const response = await this.api.get(`/api/videos/${id}/thumbnails.vtt`, { responseType: 'text' });
+    return response.data;
+  }
+
   async deleteVideo(id: string): Promise<ApiResponse<any>> {
     const response = await this.api.delete(`/api/videos/${id}`);
     return response.data;
@@ -355,6 +548,16 @@ class ApiService {
     const response = await this.api.get(`/api/stream-sources/${sourceId}/streams/${streamId}`);
     return response.data.data;
   }
+
+  async getStreamSourceRequestProfile(sourceId: string): Promise<RequestProfile> {
+    const response = await this.api.get(`/api/stream-sources/${sourceId}/request-profile`);
+    return response.data.data;
+  }
+
+  async updateStreamSourceRequestProfile(sourceId: string, profile: RequestProfile): Promise<RequestProfile> {
+    const response = await this.api.put(`/api/stream-sources/${sourceId}/request-profile`, profile);
+    return response.data.data;
+  }
 }
 
 const apiService = new ApiService();
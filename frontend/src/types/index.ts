@@ -3,7 +3,7 @@ export interface Recording {
   title: string;
   description?: string;
   stream_url: string;
-  status: 'pending' | 'recording' | 'completed' | 'failed' | 'stopped';
+  status: 'pending' | 'queued' | 'recording' | 'paused' | 'processing' | 'completed' | 'failed' | 'stopped';
   file_path?: string;
   s3_key?: string;
   s3_url?: string;
@@ -16,6 +16,232 @@ export interface Recording {
   completed_at?: string;
   error_message?: string;
   metadata?: Record<string, any>;
+  thumbnail_url?: string; // signed poster frame, in video listings
+}
+
+// Logged in recording metadata each time capture moves to the next source URL
+export interface SourceFailover {
+  at: string;
+  from: string;
+  to: string | null; // null once every source has failed
+  reason: string;
+}
+
+// Logged in recording metadata each time the watchdog restarts a frozen capture
+export interface CaptureStall {
+  at: string;
+  stalledFor: number; // seconds without output growth
+  timemark: string | null;
+  source: string;
+}
+
+// Logged in recording metadata when capture is stopped before the stream ends by itself
+export interface RecordingStop {
+  at: string;
+  reason: 'manual' | 'scheduled_end' | 'max_duration' | 'low_disk_space';
+  early: boolean;
+}
+
+// Post-processing of a finished capture, kept in recording metadata as `pipeline`
+export type PipelineStageName = 'probe' | 'faststart' | 'thumbnails' | 'checksum' | 'upload' | 'analysis' | 'abr' | 'cleanup';
+
+export interface PipelineStage {
+  name: PipelineStageName;
+  label: string;
+  status: 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+  error?: string | null;
+}
+
+export interface RecordingPipeline {
+  output: { path: string; dir?: string };
+  stages: PipelineStage[];
+}
+
+// SHA-256 of the output, kept in recording metadata as `checksum`. etag is what S3 reports
+// for the upload; an HLS output is checksummed per file.
+export interface ChecksumFile {
+  sha256: string;
+  etag: string;
+  size: number;
+}
+
+export interface RecordingChecksum {
+  algorithm: 'sha256';
+  value: string;
+  etag?: string;
+  size?: number;
+  files?: Record<string, ChecksumFile>;
+}
+
+// Last check of the stored objects against the checksum, kept in recording metadata as `integrity`
+export interface RecordingIntegrity {
+  status: 'verified' | 'corrupted';
+  verifiedAt: string;
+  deep: boolean; // objects were downloaded and hashed again, not only compared by ETag
+  problems: string[];
+}
+
+// Backend resolver that turned the stream URL into a media URL FFmpeg can open
+export type StreamResolver = 'youtube' | 'dash' | 'direct' | 'page';
+
+// Stored in recording metadata each time capture starts
+export interface StreamResolution {
+  resolver: StreamResolver;
+  chain: StreamResolver[]; // e.g. page -> youtube for a page embedding a YouTube player
+  live: boolean | null;
+  expiresAt: string | null; // signed URLs are re-resolved shortly before
+  resolvedAt: string;
+}
+
+// Logged in recording metadata each time capture moves to a freshly resolved URL
+export interface UrlRefresh {
+  at: string;
+  source: string;
+  resolver: StreamResolver;
+  expiredAt: string;
+}
+
+// Logged in recording metadata for each pause; resumedAt stays null while paused
+export interface RecordingPause {
+  pausedAt: string;
+  resumedAt: string | null;
+}
+
+export type MarkerType = 'goal' | 'chance' | 'card' | 'var' | 'substitution' | 'highlight' | 'other';
+
+export interface Marker {
+  id: string;
+  recording_id: string;
+  type: MarkerType;
+  note?: string;
+  offset_seconds: number; // position in the final video
+  created_at: string;
+}
+
+// Moment found by highlight detection, to be accepted as a marker or rejected
+export interface MarkerCandidate {
+  id: string;
+  offset_seconds: number;
+  confidence: number; // 0-1
+  loudness: number | null; // LU above the median loudness of the recording
+  cuts: number | null; // cuts in the 40 seconds after, i.e. replays
+  status: 'pending' | 'accepted' | 'rejected';
+  marker_id?: string;
+  reviewed_at?: string;
+}
+
+// Kept in recording metadata as `analysis`; candidates are ordered by confidence
+export interface RecordingAnalysis {
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  progress?: number; // percent, while running
+  error?: string;
+  signals?: {
+    loudness: { median: number; spread: number } | null;
+    cuts: number | null;
+  };
+  candidates: MarkerCandidate[];
+}
+
+// Kickoff, halftime and full time in seconds, kept in recording metadata as `boundaries`.
+// Detected by the analysis stage from black frames, silence and cuts, or set by hand.
+export interface MatchBoundaryTimes {
+  kickoff: number;
+  halftime_start: number;
+  halftime_end: number;
+  full_time: number;
+}
+
+export interface MatchBoundaries extends MatchBoundaryTimes {
+  truncated: boolean; // the recording ends before the final whistle
+  confidence: Record<keyof MatchBoundaryTimes, number | null> | null;
+  source: 'detected' | 'manual';
+  updatedAt: string;
+}
+
+// Kept in recording metadata as `chapters`: the match phases, or the halves of a match-only video
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  end: number;
+}
+
+// Kept in the metadata of a match-only video, as `match_only`
+export interface RecordingMatchOnly {
+  source_id: string;
+  match_id: string | null;
+  segments: Chapter[]; // ranges of the source that were kept
+}
+
+export interface CandidateReviewData {
+  type?: MarkerType;
+  note?: string;
+}
+
+// One start of a recording; a failed attempt may have an automatic retry scheduled
+export interface RecordingAttempt {
+  id: string;
+  recording_id: string;
+  attempt: number;
+  started_at: string;
+  failed_at?: string | null;
+  error_message?: string | null;
+  retry_at?: string | null;
+}
+
+export interface MarkerFormData {
+  type: MarkerType;
+  note?: string;
+  offset?: number; // defaults to the live position while recording
+}
+
+// Kept in the metadata of a recording cut from another one, as `clip`
+export interface RecordingClip {
+  parent_id: string;
+  start: number; // seconds into the parent
+  end: number;
+  reencode: boolean;
+}
+
+// Kept in the metadata of a highlights reel, as `highlights`
+export interface HighlightRange {
+  start: number; // seconds into the source, padding included
+  end: number;
+  label: string | null; // shown on the title card
+}
+
+export interface RecordingHighlights {
+  source_id: string;
+  match_id: string | null;
+  ranges: HighlightRange[];
+  padding: { before: number; after: number };
+  title_cards: boolean;
+  title_card_duration: number;
+  progress: { percent: number; step: number; steps: number };
+}
+
+// Without ranges the reel is built from the markers, all of them or those picked by id or type
+export interface HighlightsFormData {
+  marker_ids?: string[];
+  marker_types?: MarkerType[];
+  ranges?: Array<{ start: number; end: number; title?: string }>;
+  padding_before?: number;
+  padding_after?: number;
+  title_cards?: boolean;
+  title_card_duration?: number;
+  title?: string;
+}
+
+export interface ClipFormData {
+  start: number;
+  end: number;
+  reencode?: boolean; // frame-accurate cut instead of starting at the previous keyframe
+  quality?: string; // encoding profile for the re-encode; 'best' uses default settings
+  title?: string;
 }
 
 export interface Match {
@@ -32,6 +258,7 @@ export interface Match {
   created_at: string;
   updated_at: string;
   metadata?: Record<string, any>;
+  highlights?: Recording[]; // highlights reels of the match, only on a single match
 }
 
 export interface Schedule {
@@ -84,6 +311,13 @@ export interface VideoInfo {
   startedAt?: string;
   completedAt?: string;
   isAvailable: boolean;
+  markers: Marker[];
+  tracks: MediaTrack[];
+  trackSelection: {
+    audioOnly: boolean;
+    audioTracks: Array<string | number>;
+    videoVariant: VideoVariantSelection | null;
+  };
   s3Info?: {
     size: number;
     lastModified: string;
@@ -91,12 +325,33 @@ export interface VideoInfo {
   };
 }
 
+// WebVTT sidecar of a finished recording; url is served by the API
+// Frame of a video, generated on request and cached in S3
+export interface Thumbnail {
+  videoId: string;
+  timestamp: number; // seconds, rounded to the frame that was cached
+  url: string;
+  cached: boolean;
+  expiresAt: string;
+}
+
+export interface SubtitleTrack {
+  id: string;
+  language: string | null;
+  kind: 'subtitles' | 'captions';
+  label: string;
+  cues: number;
+  url: string;
+}
+
 export interface StreamUrl {
   streamUrl: string;
   title: string;
   duration: number;
   format: string;
   quality: string;
+  availableQualities?: string[];
+  chapters?: Chapter[];
   fileSize: number;
   expiresAt: string;
 }
@@ -112,16 +367,168 @@ export interface DownloadUrl {
 export interface ActiveRecording {
   id: string;
   title: string;
+  status: 'recording' | 'paused';
   startTime: number;
+  pausedAt: number | null;
   duration: number;
+  bitrate: number; // kbit/s
+  fps: number;
+  size: number; // bytes written to the current part
+  timemark: string | null;
+  droppedFrames: number;
+  duplicatedFrames: number;
+}
+
+export interface QueuedRecording {
+  recording_id: string;
+  title: string;
+  stream_url: string;
+  format: string;
+  quality: string;
+  priority: number;
+  priority_name: 'scheduled' | 'manual';
+  position: number;
+  queued_at: string;
+}
+
+export interface TelemetrySample {
+  at: number;
+  bitrate: number;
+  fps: number;
+  size: number;
+  timemark: string | null;
+  droppedFrames: number;
+  duplicatedFrames: number;
+}
+
+export interface RecordingProgress extends ActiveRecording {
+  samples: TelemetrySample[];
 }
 
 export interface RecordingFormData {
   title: string;
   description?: string;
   stream_url: string;
-  quality: 'best' | 'good' | 'medium';
-  format: 'mp4' | 'mkv' | 'ts';
+  quality: string; // 'best' (pass-through) or an encoding profile name
+  format: 'mp4' | 'mkv' | 'ts' | 'hls' | 'm4a' | 'opus'; // m4a and opus record audio only
+  backup_urls?: string[]; // Tried in order when the stream fails
+  source_id?: string; // Stream source the URL came from
+  request_profile?: RequestProfile;
+  audio_tracks?: Array<string | number>; // language tags or probe stream indices; empty keeps the default track
+  video_variant?: VideoVariantSelection | null; // null keeps the best variant
+  subtitles?: boolean; // keep subtitle renditions and closed captions as WebVTT
+}
+
+// HLS variant picked from a probe's variants
+export interface VideoVariantSelection {
+  program_id: number;
+  bandwidth?: number;
+  resolution?: string | null;
+}
+
+// Audio or video track of a finished recording
+export interface MediaTrack {
+  index: number;
+  type: 'video' | 'audio';
+  codec: string;
+  language: string | null;
+  resolution?: string;
+  channels?: number;
+}
+
+// How the recorder talks to a stream host; empty fields fall back to the
+// stream source profile and then the default user agent setting
+export interface RequestProfile {
+  user_agent?: string;
+  referer?: string;
+  cookies?: string;
+  headers?: Record<string, string>;
+  proxy?: string; // http(s):// or socks5:// (SOCKS is not supported for capture)
+}
+
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  video_codec: 'libx264' | 'libx265' | 'copy';
+  resolution?: string;
+  video_bitrate: string;
+  preset: string;
+  audio_bitrate: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EncodingProfileFormData {
+  name: string;
+  description?: string;
+  video_codec: 'libx264' | 'libx265' | 'copy';
+  resolution?: string;
+  video_bitrate: string;
+  preset: string;
+  audio_bitrate: string;
+}
+
+export interface StreamProbe {
+  url: string;
+  container: string;
+  duration: number | null; // null for live streams
+  bitrate: number | null;
+  video: {
+    codec: string;
+    profile: string | null;
+    width: number;
+    height: number;
+    resolution: string;
+    frameRate: number | null;
+    bitrate: number | null;
+  } | null;
+  audio: Array<{
+    index: number;
+    codec: string;
+    channels: number;
+    sampleRate: number | null;
+    bitrate: number | null;
+    language: string | null;
+  }>;
+  audioLanguages: string[];
+  subtitles: Array<{
+    index: number;
+    codec: string;
+    language: string | null;
+  }>;
+  closedCaptions: boolean; // CEA-608/708 captions carried in the video stream
+  variants: Array<{
+    programId: number;
+    bandwidth: number;
+    resolution: string | null;
+    videoCodec: string | null;
+    audioCodec: string | null;
+  }>;
+  resolver: StreamResolver;
+  resolvedUrl: string;
+  expiresAt: string | null;
+  probedAt: string;
+}
+
+export interface Setting {
+  id: string;
+  key: string;
+  value: string;
+  description?: string;
+  category: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DiskSpace {
+  path: string;
+  total: number;
+  free: number;
+  used: number;
+  usedPercent: number;
+  reserve: number;
+  low: boolean;
 }
 
 export interface MatchFormData {
@@ -130,6 +537,7 @@ export interface MatchFormData {
   competition?: string;
   match_date: string;
   stream_url?: string;
+  backup_urls?: string[];
   auto_record: boolean;
 }
 